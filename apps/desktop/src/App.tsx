@@ -1,24 +1,25 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatInterface } from './components/chat/ChatInterface';
 import { ServerSelector } from './components/ServerSelector';
 import { PermissionModal } from './components/permission/PermissionModal';
 import { ThemeProvider } from './contexts/ThemeContext';
-import { ConnectionProvider, useConnection } from './contexts/ConnectionContext';
+import { ConnectionProvider } from './contexts/ConnectionContext';
 import { useDataLoader } from './hooks/useDataLoader';
 import { useServerManager } from './hooks/useServerManager';
 import { useServerStore } from './stores/serverStore';
 import { useProjectStore } from './stores/projectStore';
 import { usePermissionStore } from './stores/permissionStore';
+import { usePermissionDecision } from './hooks/usePermissionDecision';
 import { useIsMobile } from './hooks/useMediaQuery';
 import { migrateServersFromLocalStorage, needsMigration } from './utils/migrateServers';
 
 function AppContent() {
-  const { sendMessage } = useConnection();
   const { addServer } = useServerManager();
-  const { connectionStatus } = useServerStore();
+  const { connectionStatus, activeServerId } = useServerStore();
   const { selectedSessionId } = useProjectStore();
-  const { pendingRequest, clearRequest } = usePermissionStore();
+  const { pendingRequests, pendingRequest, setPendingRequest, resolveRequest } = usePermissionStore();
+  const handlePermissionDecision = usePermissionDecision();
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const isMobile = useIsMobile();
@@ -39,18 +40,17 @@ function AppContent() {
     }
   }, [connectionStatus, addServer]);
 
-  const handlePermissionDecision = useCallback(
-    (requestId: string, allow: boolean, remember?: boolean) => {
-      sendMessage({
-        type: 'permission_decision',
-        requestId,
-        allow,
-        remember
-      });
-      clearRequest();
-    },
-    [sendMessage, clearRequest]
-  );
+  // Open the modal for requests of the session in view, one at a time;
+  // requests of other sessions wait in the approvals inbox
+  useEffect(() => {
+    if (pendingRequest) return;
+    const next = pendingRequests.find((r) =>
+      r.serverId === activeServerId && (!r.sessionId || r.sessionId === selectedSessionId)
+    );
+    if (next) {
+      setPendingRequest(next);
+    }
+  }, [pendingRequests, pendingRequest, activeServerId, selectedSessionId, setPendingRequest]);
 
   return (
     <div className="flex flex-col h-screen bg-background text-foreground">
@@ -149,6 +149,7 @@ function AppContent() {
       <PermissionModal
         request={pendingRequest}
         onDecision={handlePermissionDecision}
+        onTimeout={resolveRequest}
       />
     </div>
   );
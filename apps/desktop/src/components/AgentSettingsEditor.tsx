@@ -0,0 +1,116 @@
+import { useId } from 'react';
+import type { AgentSettings } from '@my-claudia/shared';
+
+interface AgentSettingsEditorProps {
+  settings: AgentSettings;
+  onChange: (settings: AgentSettings) => void;
+  models?: string[];           // Suggestions for the model fields
+  inherited?: AgentSettings;   // Shown as placeholders for fields left empty
+  compact?: boolean;
+}
+
+// Drop empty fields so they inherit from the level above; undefined when nothing is set
+export function cleanAgentSettings(settings: AgentSettings): AgentSettings | undefined {
+  const cleaned: AgentSettings = {};
+  if (settings.model?.trim()) cleaned.model = settings.model.trim();
+  if (settings.fallbackModel?.trim()) cleaned.fallbackModel = settings.fallbackModel.trim();
+  if (settings.maxTurns) cleaned.maxTurns = settings.maxTurns;
+  if (settings.maxThinkingTokens) cleaned.maxThinkingTokens = settings.maxThinkingTokens;
+  const dirs = settings.additionalDirectories?.map((dir) => dir.trim()).filter(Boolean);
+  if (dirs && dirs.length > 0) cleaned.additionalDirectories = dirs;
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
+function parseCount(value: string): number | undefined {
+  const num = parseInt(value, 10);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+export function AgentSettingsEditor({ settings, onChange, models = [], inherited = {}, compact = false }: AgentSettingsEditorProps) {
+  const listId = useId();
+  const update = (patch: Partial<AgentSettings>) => onChange({ ...settings, ...patch });
+
+  const labelClass = compact
+    ? 'block text-xs text-muted-foreground mb-1'
+    : 'block text-xs font-medium text-muted-foreground mb-1';
+  const inputClass = compact
+    ? 'w-full px-2 py-1 bg-input border border-border rounded text-xs text-foreground focus:outline-none focus:border-primary'
+    : 'w-full px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-primary';
+
+  return (
+    <div className="space-y-2">
+      {models.length > 0 && (
+        <datalist id={listId}>
+          {models.map((model) => <option key={model} value={model} />)}
+        </datalist>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>
+            Model
+            <input
+              type="text"
+              list={listId}
+              value={settings.model || ''}
+              onChange={(e) => update({ model: e.target.value })}
+              placeholder={inherited.model || 'Provider default'}
+              className={`${inputClass} mt-1 font-mono`}
+            />
+          </label>
+        </div>
+        <div>
+          <label className={labelClass}>
+            Fallback model
+            <input
+              type="text"
+              list={listId}
+              value={settings.fallbackModel || ''}
+              onChange={(e) => update({ fallbackModel: e.target.value })}
+              placeholder={inherited.fallbackModel || 'None'}
+              className={`${inputClass} mt-1 font-mono`}
+            />
+          </label>
+        </div>
+        <div>
+          <label className={labelClass}>
+            Max turns
+            <input
+              type="number"
+              min={1}
+              value={settings.maxTurns ?? ''}
+              onChange={(e) => update({ maxTurns: parseCount(e.target.value) })}
+              placeholder={inherited.maxTurns ? String(inherited.maxTurns) : 'Unlimited'}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        </div>
+        <div>
+          <label className={labelClass}>
+            Max thinking tokens
+            <input
+              type="number"
+              min={1}
+              value={settings.maxThinkingTokens ?? ''}
+              onChange={(e) => update({ maxThinkingTokens: parseCount(e.target.value) })}
+              placeholder={inherited.maxThinkingTokens ? String(inherited.maxThinkingTokens) : 'Provider default'}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        </div>
+      </div>
+      <label className={labelClass}>
+        Additional directories
+        <textarea
+          value={(settings.additionalDirectories || []).join('\n')}
+          onChange={(e) => update({ additionalDirectories: e.target.value.split('\n') })}
+          placeholder={inherited.additionalDirectories?.join('\n') || 'One path per line'}
+          rows={compact ? 2 : 3}
+          className={`${inputClass} mt-1 font-mono resize-none`}
+        />
+      </label>
+      <p className="text-xs text-muted-foreground">
+        Empty fields inherit from the level above. Directories are added to the inherited ones.
+      </p>
+    </div>
+  );
+}
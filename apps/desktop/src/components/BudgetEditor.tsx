@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { BUDGET_LIMIT_LABELS } from '@my-claudia/shared';
+import type { BudgetUsage, ProjectBudget } from '@my-claudia/shared';
+import { formatBudgetUsage } from '../utils/budget';
+
+interface BudgetEditorProps {
+  budget: ProjectBudget;
+  onChange: (budget: ProjectBudget) => void;
+  usage?: BudgetUsage[];   // Current usage of the saved daily and monthly limits
+}
+
+const TOKEN_FIELDS = [
+  { key: 'dailyTokens', label: 'Daily tokens' },
+  { key: 'monthlyTokens', label: 'Monthly tokens' },
+  { key: 'runTokens', label: 'Tokens per run' },
+] as const;
+
+const USD_FIELDS = [
+  { key: 'dailyUsd', label: 'Daily USD' },
+  { key: 'monthlyUsd', label: 'Monthly USD' },
+] as const;
+
+// Drop empty limits; undefined when no limit is set
+export function cleanBudget(budget: ProjectBudget): ProjectBudget | undefined {
+  const cleaned: ProjectBudget = {};
+  for (const { key } of [...TOKEN_FIELDS, ...USD_FIELDS]) {
+    if (budget[key]) cleaned[key] = budget[key];
+  }
+  if (Object.keys(cleaned).length === 0) return undefined;
+  if (budget.warnAt && budget.warnAt.length > 0) cleaned.warnAt = budget.warnAt;
+  return cleaned;
+}
+
+function parseAmount(value: string, integer: boolean): number | undefined {
+  const num = integer ? parseInt(value, 10) : parseFloat(value);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+// "50, 90" -> [50, 90]; percentages outside 1-100 are left out
+function parseThresholds(value: string): number[] | undefined {
+  const thresholds = value
+    .split(',')
+    .map((part) => Number(part.trim()))
+    .filter((num) => Number.isFinite(num) && num > 0 && num <= 100);
+  return thresholds.length > 0 ? thresholds : undefined;
+}
+
+export function BudgetEditor({ budget, onChange, usage = [] }: BudgetEditorProps) {
+  // Kept as typed so a trailing comma does not vanish while editing
+  const [warnAtText, setWarnAtText] = useState(budget.warnAt?.join(', ') || '');
+  const update = (patch: Partial<ProjectBudget>) => onChange({ ...budget, ...patch });
+
+  const inputClass = 'w-full px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-primary';
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {TOKEN_FIELDS.map(({ key, label }) => (
+          <label key={key} className="block text-xs font-medium text-muted-foreground">
+            {label}
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={budget[key] ?? ''}
+              onChange={(e) => update({ [key]: parseAmount(e.target.value, true) })}
+              placeholder="No limit"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        ))}
+        {USD_FIELDS.map(({ key, label }) => (
+          <label key={key} className="block text-xs font-medium text-muted-foreground">
+            {label}
+            <input
+              type="number"
+              min={0.01}
+              step={0.01}
+              value={budget[key] ?? ''}
+              onChange={(e) => update({ [key]: parseAmount(e.target.value, false) })}
+              placeholder="No limit"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        ))}
+      </div>
+      <label className="block text-xs font-medium text-muted-foreground">
+        Warn at (% of a limit)
+        <input
+          type="text"
+          value={warnAtText}
+          onChange={(e) => {
+            setWarnAtText(e.target.value);
+            update({ warnAt: parseThresholds(e.target.value) });
+          }}
+          placeholder="80"
+          className={`${inputClass} mt-1 font-mono`}
+        />
+      </label>
+
+      {usage.length > 0 && (
+        <ul className="text-xs space-y-0.5">
+          {usage.map((u) => (
+            <li key={u.limit} className={u.used >= u.max ? 'text-destructive' : 'text-muted-foreground'}>
+              {BUDGET_LIMIT_LABELS[u.limit]}: {formatBudgetUsage(u)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
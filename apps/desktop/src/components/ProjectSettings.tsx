@@ -1,8 +1,15 @@
 import { useState, useEffect } from 'react';
-import type { Project, ProviderConfig } from '@my-claudia/shared';
+import { PROVIDER_CAPABILITIES } from '@my-claudia/shared';
+import type { AgentSettings, BudgetUsage, Project, ProjectBudget, ProviderConfig, PermissionPolicy, SystemPromptMode } from '@my-claudia/shared';
 import { useServerStore } from '../stores/serverStore';
 import { useProjectStore } from '../stores/projectStore';
 import * as api from '../services/api';
+import { AgentSettingsEditor, cleanAgentSettings } from './AgentSettingsEditor';
+import { BudgetEditor, cleanBudget } from './BudgetEditor';
+import { PermissionPolicyEditor, DEFAULT_PERMISSION_POLICY } from './permission/PermissionPolicyEditor';
+import { PermissionAuditPanel } from './permission/PermissionAuditPanel';
+import { PermissionRuleList } from './permission/PermissionRuleList';
+import { PermissionRuleTester } from './permission/PermissionRuleTester';
 
 interface ProjectSettingsProps {
   project: Project | null;
@@ -24,17 +31,33 @@ export function ProjectSettings({ project, isOpen, onClose }: ProjectSettingsPro
   const [rootPath, setRootPath] = useState('');
   const [providerId, setProviderId] = useState<string>('');
   const [systemPrompt, setSystemPrompt] = useState('');
+  const [systemPromptMode, setSystemPromptMode] = useState<SystemPromptMode>('append');
+  const [agentSettings, setAgentSettings] = useState<AgentSettings>({});
+  const [showThinking, setShowThinking] = useState(true);
+  const [permissionPolicy, setPermissionPolicy] = useState<PermissionPolicy>(DEFAULT_PERMISSION_POLICY);
+  const [budget, setBudget] = useState<ProjectBudget>({});
+  const [budgetUsage, setBudgetUsage] = useState<BudgetUsage[]>([]);
+  const [showAuditLog, setShowAuditLog] = useState(false);
 
   // Load providers and populate form when project changes
   useEffect(() => {
     if (isOpen && isConnected) {
       loadProviders();
+      if (project?.budget) {
+        loadBudgetUsage(project.id);
+      }
     }
     if (project) {
       setName(project.name);
       setRootPath(project.rootPath || '');
       setProviderId(project.providerId || '');
       setSystemPrompt(project.systemPrompt || '');
+      setSystemPromptMode(project.systemPromptMode || 'append');
+      setAgentSettings(project.agentSettings || {});
+      setShowThinking(project.showThinking !== false);
+      setPermissionPolicy({ ...DEFAULT_PERMISSION_POLICY, ...project.permissionPolicy });
+      setBudget(project.budget || {});
+      setBudgetUsage([]);
     }
   }, [isOpen, project, isConnected]);
 
@@ -50,24 +73,36 @@ export function ProjectSettings({ project, isOpen, onClose }: ProjectSettingsPro
     }
   };
 
+  const loadBudgetUsage = async (projectId: string) => {
+    try {
+      setBudgetUsage(await api.getProjectBudget(projectId));
+    } catch (error) {
+      console.error('Failed to load budget usage:', error);
+    }
+  };
+
   const handleSave = async () => {
     if (!project || !name.trim()) return;
 
     setSaving(true);
     try {
-      await api.updateProject(project.id, {
+      const updates: Partial<Project> = {
         name: name.trim(),
         rootPath: rootPath.trim() || undefined,
         providerId: providerId || undefined,
         systemPrompt: systemPrompt.trim() || undefined,
-      });
+        systemPromptMode,
+        agentSettings: cleanAgentSettings(agentSettings),
+        showThinking,
+        permissionPolicy: {
+          ...permissionPolicy,
+          rules: permissionPolicy.rules?.filter((rule) => rule.pattern.trim()),
+        },
+        budget: cleanBudget(budget),
+      };
 
-      updateProject(project.id, {
-        name: name.trim(),
-        rootPath: rootPath.trim() || undefined,
-        providerId: providerId || undefined,
-        systemPrompt: systemPrompt.trim() || undefined,
-      });
+      await api.updateProject(project.id, updates);
+      updateProject(project.id, updates);
 
       onClose();
     } catch (error) {
@@ -79,6 +114,11 @@ export function ProjectSettings({ project, isOpen, onClose }: ProjectSettingsPro
 
   if (!isOpen || !project) return null;
 
+  const selectedProvider = providers.find((p) => (providerId ? p.id === providerId : p.isDefault));
+  const providerModels = selectedProvider
+    ? (selectedProvider.capabilities || PROVIDER_CAPABILITIES[selectedProvider.type]).models
+    : [];
+
   return (
     <>
       {/* Backdrop */}
@@ -167,10 +207,94 @@ export function ProjectSettings({ project, isOpen, onClose }: ProjectSettingsPro
               rows={4}
               className="w-full px-3 py-2 bg-input border border-border rounded-lg text-sm text-foreground focus:outline-none focus:border-primary resize-none"
             />
+            <select
+              value={systemPromptMode}
+              onChange={(e) => setSystemPromptMode(e.target.value as SystemPromptMode)}
+              aria-label="System prompt mode"
+              className="mt-2 w-full h-[38px] px-3 bg-input border border-border rounded-lg text-sm text-foreground focus:outline-none focus:border-primary"
+            >
+              <option value="append">Append to the provider's default prompt</option>
+              <option value="replace">Replace the provider's default prompt</option>
+            </select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Instructions given to the agent in every session of this project.
+              A session can use its own prompt instead from the chat toolbar.
+            </p>
+          </div>
+
+          {/* Model & Agent Flags */}
+          <div>
+            <label className="block text-sm font-medium text-muted-foreground mb-1">
+              Model &amp; Agent Flags
+            </label>
+            <AgentSettingsEditor
+              settings={agentSettings}
+              onChange={setAgentSettings}
+              models={providerModels}
+              inherited={selectedProvider?.agentSettings}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Additional directories can also be browsed with @ mentions in the chat.
+            </p>
+            <label className="mt-3 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={showThinking}
+                onChange={(e) => setShowThinking(e.target.checked)}
+                className="rounded border-border bg-secondary"
+              />
+              Show extended thinking
+            </label>
             <p className="text-xs text-muted-foreground mt-1">
-              Custom instructions to prepend to every conversation
+              Streams the agent's reasoning and saves it with each response. When off, reasoning is neither shown nor stored.
             </p>
           </div>
+
+          {/* Budget */}
+          <div>
+            <label className="block text-sm font-medium text-muted-foreground mb-1">
+              Budget
+            </label>
+            <BudgetEditor key={project.id} budget={budget} onChange={setBudget} usage={budgetUsage} />
+            <p className="text-xs text-muted-foreground mt-1">
+              Runs are refused once a daily or monthly limit is used up (UTC). Claude runs are stopped when they go over
+              the per-run cap; other providers report usage only at the end, so their overruns are warned about and
+              recorded. Tokens count input and output, not prompt cache tokens; USD limits use the cost reported by the
+              provider.
+            </p>
+          </div>
+
+          {/* Permission Policy */}
+          <div>
+            <label className="block text-sm font-medium text-muted-foreground mb-1">
+              Permission Policy
+            </label>
+            <PermissionPolicyEditor
+              policy={permissionPolicy}
+              onChange={setPermissionPolicy}
+              providerType={selectedProvider?.type}
+            />
+            <div className="mt-3">
+              <label className="block text-xs text-muted-foreground mb-1">
+                Test the policy with a sample tool input
+              </label>
+              <PermissionRuleTester projectId={project.id} policy={permissionPolicy} />
+            </div>
+            <button
+              onClick={() => setShowAuditLog(true)}
+              className="mt-3 text-xs text-primary hover:underline"
+            >
+              View permission audit log
+            </button>
+          </div>
+
+          {/* Remembered decisions */}
+          <div>
+            <label className="block text-sm font-medium text-muted-foreground mb-1">
+              Remembered Decisions
+            </label>
+            <PermissionRuleList projectId={project.id} />
+          </div>
         </div>
 
         {/* Footer */}
@@ -190,6 +314,12 @@ export function ProjectSettings({ project, isOpen, onClose }: ProjectSettingsPro
           </button>
         </div>
       </div>
+
+      <PermissionAuditPanel
+        project={project}
+        isOpen={showAuditLog}
+        onClose={() => setShowAuditLog(false)}
+      />
     </>
   );
 }
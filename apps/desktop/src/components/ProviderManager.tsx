@@ -1,7 +1,62 @@
 import { useState, useEffect } from 'react';
-import type { ProviderConfig } from '@my-claudia/shared';
+import { PROVIDER_CAPABILITIES } from '@my-claudia/shared';
+import type { AgentSettings, ProviderConfig, ProviderType, StreamJsonConfig } from '@my-claudia/shared';
 import { useServerStore } from '../stores/serverStore';
 import * as api from '../services/api';
+import { AgentSettingsEditor, cleanAgentSettings } from './AgentSettingsEditor';
+
+// Form hints per provider type
+const ENV_HINTS: Record<ProviderType, { cliPlaceholder: string; placeholder: string; help: string }> = {
+  claude: {
+    cliPlaceholder: '/path/to/claude',
+    placeholder: `{
+"ANTHROPIC_API_KEY": "your-key",
+"ANTHROPIC_BASE_URL": "https://..."
+}`,
+    help: 'Environment variables to pass to Claude CLI (e.g., HOME, ANTHROPIC_API_KEY, ANTHROPIC_BASE_URL)',
+  },
+  cursor: {
+    cliPlaceholder: '/path/to/cursor-agent',
+    placeholder: `{
+"CURSOR_API_KEY": "your-key",
+"CURSOR_MODEL": "gpt-5"
+}`,
+    help: 'Environment variables to pass to cursor-agent (e.g., CURSOR_API_KEY, CURSOR_MODEL)',
+  },
+  codex: {
+    cliPlaceholder: '/path/to/codex',
+    placeholder: `{
+"OPENAI_API_KEY": "your-key",
+"CODEX_MODEL": "gpt-5-codex"
+}`,
+    help: 'Environment variables to pass to Codex CLI (e.g., OPENAI_API_KEY, CODEX_MODEL)',
+  },
+  openrouter: {
+    cliPlaceholder: 'Not used',
+    placeholder: `{
+"API_KEY": "your-openrouter-key",
+"MODEL": "anthropic/claude-sonnet-4"
+}`,
+    help: 'Chat-only provider. API_KEY and MODEL are required; BASE_URL defaults to OpenRouter',
+  },
+  glm: {
+    cliPlaceholder: 'Not used',
+    placeholder: `{
+"API_KEY": "your-zhipu-key",
+"MODEL": "glm-4.6"
+}`,
+    help: 'Chat-only provider. API_KEY is required; BASE_URL defaults to the Zhipu API',
+  },
+  custom: {
+    cliPlaceholder: 'Only for stream-json CLIs: /path/to/agent',
+    placeholder: `{
+"BASE_URL": "http://localhost:11434/v1",
+"MODEL": "llama3",
+"API_KEY": "optional"
+}`,
+    help: 'For an OpenAI-compatible endpoint BASE_URL and MODEL are required; stream-json CLIs receive these as environment variables',
+  },
+};
 
 interface ProviderManagerProps {
   isOpen: boolean;
@@ -19,11 +74,12 @@ export function ProviderManager({ isOpen, onClose, inline = false }: ProviderMan
   const [editingProvider, setEditingProvider] = useState<ProviderConfig | null>(null);
 
   // Form state
-  type ProviderType = 'claude' | 'cursor' | 'codex' | 'openrouter' | 'glm' | 'custom';
   const [formName, setFormName] = useState('');
   const [formType, setFormType] = useState<ProviderType>('claude');
   const [formCliPath, setFormCliPath] = useState('');
   const [formEnv, setFormEnv] = useState('');
+  const [formStreamJson, setFormStreamJson] = useState('');
+  const [formAgentSettings, setFormAgentSettings] = useState<AgentSettings>({});
   const [formIsDefault, setFormIsDefault] = useState(false);
   const [saving, setSaving] = useState(false);
 
@@ -59,6 +115,8 @@ export function ProviderManager({ isOpen, onClose, inline = false }: ProviderMan
     setFormType('claude');
     setFormCliPath('');
     setFormEnv('');
+    setFormStreamJson('');
+    setFormAgentSettings({});
     setFormIsDefault(false);
     setEditingProvider(null);
     setShowAddForm(false);
@@ -69,6 +127,8 @@ export function ProviderManager({ isOpen, onClose, inline = false }: ProviderMan
     setFormType(provider.type);
     setFormCliPath(provider.cliPath || '');
     setFormEnv(provider.env ? JSON.stringify(provider.env, null, 2) : '');
+    setFormStreamJson(provider.streamJson ? JSON.stringify(provider.streamJson, null, 2) : '');
+    setFormAgentSettings(provider.agentSettings || {});
     setFormIsDefault(provider.isDefault || false);
     setEditingProvider(provider);
     setShowAddForm(true);
@@ -90,11 +150,24 @@ export function ProviderManager({ isOpen, onClose, inline = false }: ProviderMan
         }
       }
 
+      let streamJsonObj: StreamJsonConfig | undefined;
+      if (formType === 'custom' && formStreamJson.trim()) {
+        try {
+          streamJsonObj = JSON.parse(formStreamJson);
+        } catch {
+          alert('Invalid JSON in stream-json mapping');
+          setSaving(false);
+          return;
+        }
+      }
+
       const data = {
         name: formName.trim(),
         type: formType,
         cliPath: formCliPath.trim() || undefined,
         env: envObj,
+        streamJson: streamJsonObj,
+        agentSettings: cleanAgentSettings(formAgentSettings),
         isDefault: formIsDefault
       };
 
@@ -176,10 +249,10 @@ export function ProviderManager({ isOpen, onClose, inline = false }: ProviderMan
           type="text"
           value={formCliPath}
           onChange={(e) => setFormCliPath(e.target.value)}
-          placeholder="/path/to/claude"
+          placeholder={ENV_HINTS[formType].cliPlaceholder}
           className="w-full px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-primary font-mono"
         />
-        <p className="text-xs text-muted-foreground mt-1">Custom path to Claude CLI binary</p>
+        <p className="text-xs text-muted-foreground mt-1">Custom path to the provider CLI binary</p>
       </div>
 
       <div>
@@ -187,18 +260,46 @@ export function ProviderManager({ isOpen, onClose, inline = false }: ProviderMan
         <textarea
           value={formEnv}
           onChange={(e) => setFormEnv(e.target.value)}
-          placeholder={`{
-"ANTHROPIC_API_KEY": "your-key",
-"ANTHROPIC_BASE_URL": "https://..."
-}`}
+          placeholder={ENV_HINTS[formType].placeholder}
           rows={5}
           className="w-full px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-primary font-mono"
         />
         <p className="text-xs text-muted-foreground mt-1">
-          Environment variables to pass to Claude CLI (e.g., HOME, ANTHROPIC_API_KEY, ANTHROPIC_BASE_URL)
+          {ENV_HINTS[formType].help}
         </p>
       </div>
 
+      {formType === 'custom' && (
+        <div>
+          <label className="block text-sm font-medium text-muted-foreground mb-1">Stream JSON Mapping (optional)</label>
+          <textarea
+            value={formStreamJson}
+            onChange={(e) => setFormStreamJson(e.target.value)}
+            placeholder={`{
+"args": ["--json", "{prompt}"],
+"events": {
+  "assistant": { "match": "text", "text": "content" },
+  "result": { "match": "done", "inputTokens": "usage.input" }
+}
+}`}
+            rows={7}
+            className="w-full px-3 py-2 bg-secondary border border-border rounded-lg text-sm focus:outline-none focus:border-primary font-mono"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Run the CLI path as a line-delimited JSON agent instead of calling an HTTP endpoint
+          </p>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-muted-foreground mb-1">Model &amp; Agent Flags</label>
+        <AgentSettingsEditor
+          settings={formAgentSettings}
+          onChange={setFormAgentSettings}
+          models={PROVIDER_CAPABILITIES[formType].models}
+        />
+      </div>
+
       <div className="flex items-center gap-2">
         <input
           type="checkbox"
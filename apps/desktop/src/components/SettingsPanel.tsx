@@ -5,8 +5,9 @@ import { ThemeToggle } from './ThemeToggle';
 import { ApiKeyManager } from './ApiKeyManager';
 import { ServerGatewayConfig } from './ServerGatewayConfig';
 import { ImportDialog } from './ImportDialog';
+import { UsageDashboard } from './UsageDashboard';
 
-type SettingsTab = 'general' | 'servers' | 'import' | 'providers' | 'security' | 'gateway';
+type SettingsTab = 'general' | 'servers' | 'import' | 'providers' | 'usage' | 'security' | 'gateway';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -62,6 +63,15 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
         </svg>
       )
     },
+    {
+      id: 'usage',
+      label: 'Usage',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+        </svg>
+      )
+    },
     {
       id: 'gateway',
       label: 'Gateway',
@@ -213,6 +223,18 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
               </div>
             )}
 
+            {activeTab === 'usage' && (
+              isConnected ? (
+                <UsageDashboard />
+              ) : (
+                <div className="p-4 bg-secondary/50 border border-border rounded-lg">
+                  <p className="text-sm text-muted-foreground">
+                    Connect to a server to view its usage.
+                  </p>
+                </div>
+              )
+            )}
+
             {activeTab === 'gateway' && (
               <div className="space-y-4">
                 <ServerGatewayConfig />
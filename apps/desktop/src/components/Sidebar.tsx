@@ -3,6 +3,7 @@ import { useProjectStore } from '../stores/projectStore';
 import { useServerStore } from '../stores/serverStore';
 import { ProjectSettings } from './ProjectSettings';
 import { SettingsPanel } from './SettingsPanel';
+import { PermissionInboxButton } from './permission/PermissionInboxButton';
 import * as api from '../services/api';
 
 interface SidebarProps {
@@ -448,8 +449,9 @@ export function Sidebar({ collapsed, onToggle, isMobile, isOpen, onClose, hideHe
             )}
           </div>
 
-          {/* Settings Button */}
+          {/* Approvals and Settings Buttons */}
           <div className="border-t border-border p-2">
+            <PermissionInboxButton />
             <button
               onClick={() => setShowSettings(true)}
               data-testid="settings-button"
@@ -831,8 +833,9 @@ export function Sidebar({ collapsed, onToggle, isMobile, isOpen, onClose, hideHe
         )}
       </div>
 
-      {/* Settings Button */}
+      {/* Approvals and Settings Buttons */}
       <div className="border-t border-border p-2">
+        <PermissionInboxButton />
         <button
           onClick={() => setShowSettings(true)}
           data-testid="settings-button"
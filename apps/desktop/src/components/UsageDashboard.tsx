@@ -0,0 +1,245 @@
+import { useState, useEffect } from 'react';
+import type { UsageGroup, UsageReport, UsageReportFilter, UsageRunEntry, UsageTotals } from '@my-claudia/shared';
+import { useProjectStore } from '../stores/projectStore';
+import { useServerStore } from '../stores/serverStore';
+import * as api from '../services/api';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES: { days: number; label: string }[] = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 0, label: 'All time' },
+];
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd >= 1 ? 2 : 4)}`;
+}
+
+function formatTokens(count: number): string {
+  return count.toLocaleString('en-US');
+}
+
+// Runs of the last `days` days (all runs for 0), optionally of one project
+function usageFilter(days: number, projectId: string): UsageReportFilter {
+  return {
+    since: days ? Date.now() - days * DAY_MS : undefined,
+    projectId: projectId || undefined,
+  };
+}
+
+function totalTokens(totals: Pick<UsageTotals, 'inputTokens' | 'outputTokens'>): number {
+  return totals.inputTokens + totals.outputTokens;
+}
+
+export function UsageDashboard() {
+  const { projects } = useProjectStore();
+  const { getActiveServer } = useServerStore();
+  const activeServer = getActiveServer();
+
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  // Filters
+  const [days, setDays] = useState(30);
+  const [projectId, setProjectId] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    api.getUsageReport(usageFilter(days, projectId))
+      .then((result) => {
+        if (!cancelled) {
+          setReport(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load usage');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days, projectId]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const csv = await api.exportUsageCsv(usageFilter(days, projectId));
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `usage-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export usage');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Tokens and cost of the runs on {activeServer?.name || 'this server'}. Switch the active server to see another backend.
+      </p>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          aria-label="Time range"
+          className="h-8 px-2 bg-input border border-border rounded text-sm text-foreground"
+        >
+          {RANGES.map((range) => (
+            <option key={range.days} value={range.days}>{range.label}</option>
+          ))}
+        </select>
+        <select
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          aria-label="Project"
+          className="h-8 px-2 bg-input border border-border rounded text-sm text-foreground"
+        >
+          <option value="">All projects</option>
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="ml-auto h-8 px-3 text-sm bg-secondary rounded hover:bg-muted disabled:opacity-50"
+        >
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+      {!error && !loading && report?.totals.runs === 0 && (
+        <div className="text-sm text-muted-foreground">No usage recorded in this range</div>
+      )}
+
+      {report && report.totals.runs > 0 && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <Stat label="Cost" value={formatCost(report.totals.costUsd)} />
+            <Stat label="Tokens" value={formatTokens(totalTokens(report.totals))} />
+            <Stat label="Cache read" value={formatTokens(report.totals.cacheReadTokens)} />
+            <Stat label="Runs" value={formatTokens(report.totals.runs)} />
+          </div>
+
+          <DailyChart days={report.byDay} />
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <GroupTable title="By project" groups={report.byProject} />
+            <GroupTable title="By provider" groups={report.byProvider} />
+          </div>
+          <GroupTable title="Most expensive sessions" groups={report.topSessions} />
+          <RunTable runs={report.topRuns} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 bg-secondary/50 rounded-lg">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-lg font-semibold">{value}</div>
+    </div>
+  );
+}
+
+// Cost per day as bars; tokens when the provider reports no cost
+function DailyChart({ days }: { days: UsageGroup[] }) {
+  const byCost = days.some((day) => day.costUsd > 0);
+  const value = (day: UsageGroup) => (byCost ? day.costUsd : totalTokens(day));
+  const max = Math.max(...days.map(value), 0);
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">Per day ({byCost ? 'cost' : 'tokens'}, UTC)</h3>
+      <div className="space-y-1">
+        {days.map((day) => (
+          <div key={day.key} className="flex items-center gap-2 text-xs">
+            <span className="w-20 shrink-0 text-muted-foreground font-mono">{day.key}</span>
+            <div className="flex-1 h-3 bg-secondary/50 rounded overflow-hidden">
+              <div
+                className="h-full bg-primary"
+                style={{ width: `${max > 0 ? (value(day) / max) * 100 : 0}%` }}
+              />
+            </div>
+            <span className="w-24 shrink-0 text-right">
+              {byCost ? formatCost(day.costUsd) : formatTokens(totalTokens(day))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function GroupTable({ title, groups }: { title: string; groups: UsageGroup[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">{title}</h3>
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal py-1">Name</th>
+            <th className="text-right font-normal py-1">Runs</th>
+            <th className="text-right font-normal py-1">Tokens</th>
+            <th className="text-right font-normal py-1">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {groups.map((group) => (
+            <tr key={group.key}>
+              <td className="py-1 truncate max-w-[12rem]" title={group.label}>{group.label}</td>
+              <td className="py-1 text-right">{group.runs}</td>
+              <td className="py-1 text-right">{formatTokens(totalTokens(group))}</td>
+              <td className="py-1 text-right">{formatCost(group.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RunTable({ runs }: { runs: UsageRunEntry[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">Most expensive runs</h3>
+      <div className="divide-y divide-border">
+        {runs.map((run) => (
+          <div key={run.id} className="py-1.5 text-xs flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="truncate text-foreground" title={run.input}>{run.input}</div>
+              <div className="text-muted-foreground truncate">
+                {run.projectName || 'Unknown project'} · {run.sessionName || 'Untitled session'} · {run.providerType} ·{' '}
+                {new Date(run.startedAt).toLocaleString()}
+              </div>
+            </div>
+            <span className="shrink-0 text-muted-foreground">{formatTokens(totalTokens(run.usage))} tokens</span>
+            <span className="shrink-0 w-16 text-right">{formatCost(run.usage.costUsd || 0)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { BudgetEditor, cleanBudget } from '../BudgetEditor';
+
+describe('BudgetEditor', () => {
+  it('sets token and USD limits', () => {
+    const onChange = vi.fn();
+    render(<BudgetEditor budget={{ dailyUsd: 5 }} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Tokens per run'), { target: { value: '20000' } });
+    expect(onChange).toHaveBeenLastCalledWith({ dailyUsd: 5, runTokens: 20000 });
+
+    fireEvent.change(screen.getByLabelText('Daily USD'), { target: { value: '' } });
+    expect(onChange).toHaveBeenLastCalledWith({ dailyUsd: undefined });
+  });
+
+  it('reads the warning thresholds as a list of percentages', () => {
+    const onChange = vi.fn();
+    render(<BudgetEditor budget={{}} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Warn at (% of a limit)'), { target: { value: '50, 90, 150' } });
+    expect(onChange).toHaveBeenLastCalledWith({ warnAt: [50, 90] });
+  });
+
+  it('shows the current usage of the limits', () => {
+    render(
+      <BudgetEditor
+        budget={{ dailyUsd: 5, monthlyTokens: 1000 }}
+        onChange={vi.fn()}
+        usage={[
+          { limit: 'dailyUsd', used: 4.1, max: 5, percent: 82 },
+          { limit: 'monthlyTokens', used: 1200, max: 1000, percent: 120 },
+        ]}
+      />
+    );
+
+    expect(screen.getByText('daily USD budget: $4.10 of $5.00 (82%)')).toBeInTheDocument();
+    expect(screen.getByText('monthly token budget: 1,200 tokens of 1,000 tokens (120%)')).toHaveClass('text-destructive');
+  });
+
+  it('cleanBudget drops empty limits', () => {
+    expect(cleanBudget({ dailyTokens: undefined, warnAt: [80] })).toBeUndefined();
+    expect(cleanBudget({ monthlyUsd: 20, runTokens: undefined, warnAt: [] })).toEqual({ monthlyUsd: 20 });
+  });
+});
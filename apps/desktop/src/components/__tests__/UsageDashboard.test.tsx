@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import type { UsageGroup, UsageReport } from '@my-claudia/shared';
+import { UsageDashboard } from '../UsageDashboard';
+import { useProjectStore } from '../../stores/projectStore';
+import * as api from '../../services/api';
+
+vi.mock('../../services/api', () => ({
+  getUsageReport: vi.fn(),
+  exportUsageCsv: vi.fn(),
+}));
+
+function group(key: string, label: string, costUsd: number, runs = 1): UsageGroup {
+  return {
+    key,
+    label,
+    runs,
+    inputTokens: 1000,
+    outputTokens: 200,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    costUsd,
+    numTurns: runs,
+    durationMs: 1000,
+  };
+}
+
+const report: UsageReport = {
+  totals: { ...group('', '', 1.5, 3), inputTokens: 12000, outputTokens: 3456, cacheReadTokens: 50000 },
+  byDay: [group('2026-01-01', '2026-01-01', 0.5), group('2026-01-02', '2026-01-02', 1)],
+  byProject: [group('p1', 'Web', 1.2, 2), group('p2', 'API', 0.3)],
+  byProvider: [group('prov-1', 'Team Claude', 1.5, 3)],
+  topSessions: [group('s1', 'Refactor', 1)],
+  topRuns: [
+    {
+      id: 'r1',
+      sessionId: 's1',
+      sessionName: 'Refactor',
+      projectName: 'Web',
+      providerType: 'claude',
+      status: 'completed',
+      input: 'Split the module',
+      usage: { inputTokens: 900, outputTokens: 100, costUsd: 0.75 },
+      startedAt: 0,
+    },
+  ],
+};
+
+describe('UsageDashboard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useProjectStore.setState({
+      projects: [{ id: 'p1', name: 'Web', type: 'code', createdAt: 0, updatedAt: 0 }],
+    });
+    vi.mocked(api.getUsageReport).mockResolvedValue(report);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shows the totals and breakdowns of the last 30 days', async () => {
+    const before = Date.now();
+    render(<UsageDashboard />);
+
+    await waitFor(() => {
+      expect(screen.getAllByText('Cost')[0].nextSibling).toHaveTextContent('$1.50');
+    });
+    const filter = vi.mocked(api.getUsageReport).mock.calls[0][0]!;
+    expect(filter.since).toBeGreaterThanOrEqual(before - 30 * 24 * 60 * 60 * 1000);
+    expect(filter.projectId).toBeUndefined();
+
+    expect(screen.getByText('15,456')).toBeInTheDocument();
+    expect(screen.getByText('50,000')).toBeInTheDocument();
+    expect(screen.getByText('2026-01-02')).toBeInTheDocument();
+    expect(screen.getByText('API')).toBeInTheDocument();
+    expect(screen.getByText('Team Claude')).toBeInTheDocument();
+    expect(screen.getByText('Refactor')).toBeInTheDocument();
+    expect(screen.getByText('Split the module')).toBeInTheDocument();
+    expect(screen.getByText('$0.7500')).toBeInTheDocument();
+  });
+
+  it('reloads for another range and project', async () => {
+    render(<UsageDashboard />);
+    await waitFor(() => expect(api.getUsageReport).toHaveBeenCalledTimes(1));
+
+    fireEvent.change(screen.getByLabelText('Time range'), { target: { value: '0' } });
+    await waitFor(() => expect(api.getUsageReport).toHaveBeenCalledTimes(2));
+    expect(vi.mocked(api.getUsageReport).mock.calls[1][0]).toEqual({ since: undefined, projectId: undefined });
+
+    fireEvent.change(screen.getByLabelText('Project'), { target: { value: 'p1' } });
+    await waitFor(() => expect(api.getUsageReport).toHaveBeenCalledTimes(3));
+    expect(vi.mocked(api.getUsageReport).mock.calls[2][0]).toEqual({ since: undefined, projectId: 'p1' });
+  });
+
+  it('says when nothing was recorded', async () => {
+    vi.mocked(api.getUsageReport).mockResolvedValue({
+      ...report,
+      totals: group('', '', 0, 0),
+      byDay: [],
+      byProject: [],
+      byProvider: [],
+      topSessions: [],
+      topRuns: [],
+    });
+    render(<UsageDashboard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No usage recorded in this range')).toBeInTheDocument();
+    });
+  });
+
+  it('downloads the runs as CSV', async () => {
+    vi.mocked(api.exportUsageCsv).mockResolvedValue('run_id\nr1\n');
+    const createObjectURL = vi.fn(() => 'blob:usage');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    render(<UsageDashboard />);
+    fireEvent.click(screen.getByText('Export CSV'));
+
+    await waitFor(() => expect(click).toHaveBeenCalled());
+    expect(api.exportUsageCsv).toHaveBeenCalledWith(expect.objectContaining({ projectId: undefined }));
+    expect(createObjectURL).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:usage');
+  });
+});
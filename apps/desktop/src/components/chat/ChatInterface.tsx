@@ -6,12 +6,15 @@ import { LoadingIndicator } from './LoadingIndicator';
 import { PermissionModeToggle } from './PermissionModeToggle';
 import { FontSizeSelector } from './FontSizeSelector';
 import { SystemInfoButton } from './SystemInfoButton';
+import { RunHistoryButton } from './RunHistoryButton';
+import { SessionPromptButton } from './SessionPromptButton';
+import { SessionAgentButton } from './SessionAgentButton';
 import { useChatStore } from '../../stores/chatStore';
 import { useProjectStore } from '../../stores/projectStore';
 import { useConnection } from '../../contexts/ConnectionContext';
 import * as api from '../../services/api';
 import { uploadFile } from '../../services/fileUpload';
-import type { CommandExecuteResponse, MessageAttachment, MessageInput as MessageInputData } from '@my-claudia/shared';
+import type { AgentSettings, CommandExecuteResponse, MessageAttachment, MessageInput as MessageInputData } from '@my-claudia/shared';
 
 interface ChatInterfaceProps {
   sessionId: string;
@@ -35,7 +38,7 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
     permissionMode,
     setPermissionMode
   } = useChatStore();
-  const { projects, sessions, providerCommands } = useProjectStore();
+  const { projects, sessions, providerCommands, providerCapabilities } = useProjectStore();
   const { sendMessage: wsSendMessage, isConnected } = useConnection();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -82,6 +85,9 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
 
         setMessages(sessionId, result.messages, result.pagination);
         setInitialLoadDone(true);
+        // Reattach to a run still going in this session (e.g. started before a
+        // reconnect or from another device) and replay its events
+        wsSendMessage({ type: 'run_attach', sessionId });
         // Scroll to bottom on initial load - use instant to avoid visible scroll animation
         setTimeout(() => scrollToBottom(true), 0);
       }
@@ -94,7 +100,7 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
         setInitialLoadDone(true);
       }
     }
-  }, [sessionId, setLoadingMore, prependMessages, setMessages, scrollToBottom, isConnected]);
+  }, [sessionId, setLoadingMore, prependMessages, setMessages, scrollToBottom, isConnected, wsSendMessage]);
 
   // Load initial messages when session changes
   useEffect(() => {
@@ -151,6 +157,16 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
         .catch(err => {
           console.error('Failed to load provider commands:', err);
         });
+
+      api.getProvider(providerId)
+        .then(provider => {
+          if (provider.capabilities) {
+            useProjectStore.getState().setProviderCapabilities(providerId, provider.capabilities);
+          }
+        })
+        .catch(err => {
+          console.error('Failed to load provider capabilities:', err);
+        });
     } else {
       // No provider configured — load default commands by type
       api.getProviderTypeCommands('claude', projectRoot || undefined)
@@ -160,6 +176,14 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
         .catch(err => {
           console.error('Failed to load default commands:', err);
         });
+
+      api.getProviderTypeCapabilities('claude')
+        .then(capabilities => {
+          useProjectStore.getState().setProviderCapabilities('_default', capabilities);
+        })
+        .catch(err => {
+          console.error('Failed to load default capabilities:', err);
+        });
     }
   }, [currentSession?.providerId, currentProject?.providerId, currentProject?.rootPath, isConnected]);
 
@@ -167,6 +191,16 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
   const providerId = currentSession?.providerId || currentProject?.providerId;
   const commands = providerCommands[providerId || '_default'] || [];
 
+  // Capabilities of the current provider; everything is offered until they load
+  const capabilities = providerCapabilities[providerId || '_default'];
+
+  // Fall back to default mode when the provider doesn't support the selected one
+  useEffect(() => {
+    if (capabilities && permissionMode !== 'default' && !capabilities.permissionModes.includes(permissionMode)) {
+      setPermissionMode('default');
+    }
+  }, [capabilities, permissionMode, setPermissionMode]);
+
   // Scroll to bottom when new messages arrive (but not when loading history)
   useEffect(() => {
     if (initialLoadDone && sessionMessages.length > 0) {
@@ -288,23 +322,14 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
         break;
       }
 
-      case 'cost': {
-        const usage = data?.tokenUsage as { used: number; total: number; percentage: string } | undefined;
-        let costText = '**Token Usage:**\n\n';
-        if (usage) {
-          costText += `- **Used:** ${usage.used.toLocaleString()} tokens\n`;
-          costText += `- **Total:** ${usage.total.toLocaleString()} tokens\n`;
-          costText += `- **Usage:** ${usage.percentage}%\n`;
-        }
-        if (data?.model) {
-          costText += `- **Model:** ${data.model}\n`;
-        }
-
+      case 'cost':
+      case 'context': {
+        // The server formats the totals stored with the session's runs
         addMessage(sessionId, {
           id: crypto.randomUUID(),
           sessionId,
           role: 'system',
-          content: costText,
+          content: (data?.message as string) || 'No usage recorded for this session yet.',
           createdAt: Date.now(),
         });
         break;
@@ -323,6 +348,12 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
       }
 
       case 'model': {
+        // The server switched the model of this session
+        if (data?.sessionAgentSettings !== undefined) {
+          useProjectStore.getState().updateSession(sessionId, {
+            agentSettings: (data.sessionAgentSettings as AgentSettings | null) ?? undefined,
+          });
+        }
         addMessage(sessionId, {
           id: crypto.randomUUID(),
           sessionId,
@@ -401,7 +432,7 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
       projectName: currentProject?.name,
       sessionId,
       provider: currentSession?.providerId || currentProject?.providerId,
-      model: 'claude', // Could be enhanced to get actual model
+      model: currentSession?.agentSettings?.model || currentSystemInfo?.model,
     };
 
     try {
@@ -446,7 +477,7 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
         createdAt: Date.now(),
       });
     }
-  }, [sessionId, addMessage, wsSendMessage, commands, currentSession, currentProject, handleBuiltInCommand, permissionMode]);
+  }, [sessionId, addMessage, wsSendMessage, commands, currentSession, currentProject, handleBuiltInCommand, permissionMode, currentSystemInfo]);
 
   const handleCancelRun = () => {
     if (!currentRunId) return;
@@ -504,9 +535,15 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
             mode={permissionMode}
             onModeChange={setPermissionMode}
             disabled={isLoading}
+            availableModes={capabilities?.permissionModes}
           />
           <FontSizeSelector />
-          <SystemInfoButton systemInfo={currentSystemInfo} />
+          <div className="flex items-center gap-2">
+            <RunHistoryButton sessionId={sessionId} isLoading={isLoading} />
+            {currentSession && <SessionPromptButton session={currentSession} project={currentProject} />}
+            {currentSession && <SessionAgentButton session={currentSession} project={currentProject} models={capabilities?.models} />}
+            <SystemInfoButton systemInfo={currentSystemInfo} />
+          </div>
         </div>
         <MessageInput
           onSend={handleSendMessage}
@@ -514,6 +551,7 @@ export function ChatInterface({ sessionId }: ChatInterfaceProps) {
           onCommand={handleCommand}
           commands={commands}
           projectRoot={currentProject?.rootPath}
+          allowAttachments={capabilities?.supportsImages ?? true}
           disabled={!isConnected}
           isLoading={isLoading}
           placeholder={
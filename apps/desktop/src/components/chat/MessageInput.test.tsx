@@ -265,5 +265,11 @@ describe('MessageInput', () => {
       expect(screen.getByText('Type / for commands')).toBeInTheDocument();
       expect(screen.getByText(/Paste images with (Cmd|Ctrl)\+V/)).toBeInTheDocument();
     });
+
+    it('hides attachment controls when the provider cannot receive them', () => {
+      render(<MessageInput onSend={mockOnSend} allowAttachments={false} />);
+      expect(screen.queryByTitle('Add attachment (images, files)')).not.toBeInTheDocument();
+      expect(screen.queryByText(/Paste images with/)).not.toBeInTheDocument();
+    });
   });
 });
@@ -17,6 +17,7 @@ interface MessageInputProps {
   onCommand?: (command: string, args: string) => void;
   commands?: SlashCommand[];  // Commands from provider
   projectRoot?: string;       // Project root for @ file mentions
+  allowAttachments?: boolean; // False when the provider cannot receive images/files
   disabled?: boolean;
   isLoading?: boolean;
   placeholder?: string;
@@ -104,6 +105,7 @@ export function MessageInput({
   onCommand,
   commands = [],
   projectRoot,
+  allowAttachments = true,
   disabled = false,
   isLoading = false,
   placeholder = 'Type a message... (Enter to send)',
@@ -443,7 +445,7 @@ export function MessageInput({
 
   const handlePaste = async (e: ClipboardEvent<HTMLTextAreaElement>) => {
     const items = e.clipboardData?.items;
-    if (!items) return;
+    if (!items || !allowAttachments) return;
 
     for (const item of Array.from(items)) {
       if (item.type.startsWith('image/')) {
@@ -563,7 +565,8 @@ export function MessageInput({
               >
                 root
               </button>
-              {mentionState.currentPath.split('/').map((part, idx, arr) => (
+              {/* Paths in additional project directories are absolute; skip the empty first part */}
+              {mentionState.currentPath.split('/').map((part, idx, arr) => part && (
                 <span key={idx} className="flex items-center gap-1">
                   <span className="text-muted-foreground/50">/</span>
                   <button
@@ -659,29 +662,33 @@ export function MessageInput({
       {/* Input area */}
       <div className="flex items-center gap-2">
         {/* Attachment button */}
-        <button
-          onClick={() => fileInputRef.current?.click()}
-          disabled={disabled}
-          className="p-2.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          title="Add attachment (images, files)"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+        {allowAttachments && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              className="p-2.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Add attachment (images, files)"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+                />
+              </svg>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/*,.pdf,.txt,.md,.json,.csv"
+              onChange={handleFileSelect}
+              className="hidden"
             />
-          </svg>
-        </button>
-        <input
-          ref={fileInputRef}
-          type="file"
-          multiple
-          accept="image/*,.pdf,.txt,.md,.json,.csv"
-          onChange={handleFileSelect}
-          className="hidden"
-        />
+          </>
+        )}
 
         {/* Text input */}
         <div className="flex-1 relative">
@@ -748,7 +755,7 @@ export function MessageInput({
       {/* Hint text */}
       <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
         <span>Type / for commands{projectRoot ? ', @ to reference files' : ''}</span>
-        {!isMobile && <span>Paste images with {isMac ? 'Cmd' : 'Ctrl'}+V</span>}
+        {!isMobile && allowAttachments && <span>Paste images with {isMac ? 'Cmd' : 'Ctrl'}+V</span>}
       </div>
     </div>
   );
@@ -80,6 +80,28 @@ describe('MessageList', () => {
     expect(screen.getByText(/\d{1,2}:\d{2}:\d{2}/)).toBeInTheDocument();
   });
 
+  describe('Reasoning', () => {
+    it('shows saved thinking in a collapsed section', () => {
+      const messages = [createMessage({
+        role: 'assistant',
+        content: 'The answer is 4.',
+        metadata: { thinking: 'Two plus two is four.' },
+      })];
+      render(<MessageList messages={messages} />);
+
+      expect(screen.getByText('Reasoning')).toBeInTheDocument();
+      expect(screen.queryByTestId('thinking-content')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Reasoning'));
+      expect(screen.getByTestId('thinking-content')).toHaveTextContent('Two plus two is four.');
+    });
+
+    it('has no reasoning section without thinking', () => {
+      render(<MessageList messages={[createMessage({ role: 'assistant', content: 'Hi' })]} />);
+      expect(screen.queryByText('Reasoning')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Markdown rendering', () => {
     it('renders markdown in assistant messages', () => {
       const messages = [
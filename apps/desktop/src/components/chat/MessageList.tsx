@@ -1,10 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, memo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { ToolCallList } from './ToolCallItem';
-import type { MessageWithToolCalls } from '../../stores/chatStore';
+import { getMessageToolCalls, type MessageWithToolCalls } from '../../stores/chatStore';
 import { useTheme } from '../../contexts/ThemeContext';
 import { downloadFile } from '../../services/fileUpload';
 import type { MessageInput, MessageAttachment } from '@my-claudia/shared';
@@ -25,7 +25,7 @@ export function MessageList({ messages }: MessageListProps) {
   return (
     <div className="space-y-4">
       {messages.map((message) => (
-        <MessageItem key={message.id} message={message} />
+        <MemoizedMessageItem key={message.id} message={message} />
       ))}
     </div>
   );
@@ -175,10 +175,38 @@ function AttachmentDisplay({ attachment }: { attachment: MessageAttachment }) {
   );
 }
 
+// Extended thinking that preceded a response, collapsed by default
+function ThinkingSection({ thinking }: { thinking: string }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="max-w-full md:max-w-3xl mb-2 text-xs bg-muted/50 rounded-lg">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+        className="w-full px-3 py-2 flex items-center gap-2 text-muted-foreground hover:text-foreground"
+      >
+        <span>💭</span>
+        <span className="font-medium">Reasoning</span>
+        <span className="ml-auto text-[10px]">{isExpanded ? '▼' : '▶'}</span>
+      </button>
+      {isExpanded && (
+        <div
+          data-testid="thinking-content"
+          className="px-3 pb-2 whitespace-pre-wrap text-muted-foreground italic max-h-80 overflow-y-auto"
+        >
+          {thinking}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function MessageItem({ message }: { message: MessageWithToolCalls }) {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
-  const hasToolCalls = message.toolCalls && message.toolCalls.length > 0;
+  const toolCalls = getMessageToolCalls(message);
+  const hasToolCalls = toolCalls.length > 0;
 
   // Parse message content (supports both plain text and structured MessageInput)
   let textContent = message.content;
@@ -202,10 +230,14 @@ function MessageItem({ message }: { message: MessageWithToolCalls }) {
         isSystem ? 'opacity-60' : ''
       }`}
     >
+      {!isUser && message.metadata?.thinking && (
+        <ThinkingSection thinking={message.metadata.thinking} />
+      )}
+
       {/* Tool calls section (shown before the message content for assistant) */}
       {!isUser && hasToolCalls && (
         <div className="max-w-full md:max-w-3xl mb-2">
-          <ToolCallList toolCalls={message.toolCalls!} defaultCollapsed={true} />
+          <ToolCallList toolCalls={toolCalls} defaultCollapsed={true} />
         </div>
       )}
 
@@ -309,3 +341,6 @@ function MessageItem({ message }: { message: MessageWithToolCalls }) {
     </div>
   );
 }
+
+// Streaming replaces only the last message object, so the others skip re-rendering
+const MemoizedMessageItem = memo(MessageItem);
@@ -5,6 +5,7 @@ interface PermissionModeToggleProps {
   mode: PermissionMode;
   onModeChange: (mode: PermissionMode) => void;
   disabled?: boolean;
+  availableModes?: PermissionMode[];  // Modes the provider supports (all when omitted)
 }
 
 const MODE_OPTIONS: { value: PermissionMode; label: string; description: string; icon: string }[] = [
@@ -34,10 +35,18 @@ const MODE_OPTIONS: { value: PermissionMode; label: string; description: string;
   },
 ];
 
-export function PermissionModeToggle({ mode, onModeChange, disabled }: PermissionModeToggleProps) {
+export function PermissionModeToggle({ mode, onModeChange, disabled, availableModes }: PermissionModeToggleProps) {
+  const options = availableModes
+    ? MODE_OPTIONS.filter((option) => availableModes.includes(option.value))
+    : MODE_OPTIONS;
+
+  if (options.length === 0) {
+    return null;
+  }
+
   return (
     <div className="flex bg-secondary/50 rounded-lg p-0.5">
-      {MODE_OPTIONS.map((option) => (
+      {options.map((option) => (
         <button
           key={option.value}
           onClick={() => onModeChange(option.value)}
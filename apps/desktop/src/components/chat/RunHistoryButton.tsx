@@ -0,0 +1,157 @@
+import { useState, useRef, useEffect } from 'react';
+import type { ProviderRun, ProviderRunStatus } from '@my-claudia/shared';
+import * as api from '../../services/api';
+
+interface RunHistoryButtonProps {
+  sessionId: string;
+  isLoading: boolean;  // Reload the list when a run starts or finishes
+}
+
+const STATUS_STYLES: Record<ProviderRunStatus, { icon: string; className: string }> = {
+  running: { icon: '⏳', className: 'text-primary' },
+  completed: { icon: '✓', className: 'text-success' },
+  failed: { icon: '✗', className: 'text-destructive' },
+  cancelled: { icon: '⏹', className: 'text-muted-foreground' }
+};
+
+export function RunHistoryButton({ sessionId, isLoading }: RunHistoryButtonProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [runs, setRuns] = useState<ProviderRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        panelRef.current &&
+        buttonRef.current &&
+        !panelRef.current.contains(event.target as Node) &&
+        !buttonRef.current.contains(event.target as Node)
+      ) {
+        setIsExpanded(false);
+      }
+    }
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isExpanded]);
+
+  // Load runs while the panel is open
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    let cancelled = false;
+    api.getSessionRuns(sessionId)
+      .then((result) => {
+        if (!cancelled) {
+          setRuns(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load runs');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, sessionId, isLoading]);
+
+  return (
+    <div className="relative">
+      <button
+        ref={buttonRef}
+        onClick={() => setIsExpanded(!isExpanded)}
+        className={`
+          flex items-center gap-1.5 px-2.5 py-1.5 text-xs rounded-lg transition-all
+          ${isExpanded
+            ? 'bg-card text-foreground shadow-sm'
+            : 'bg-secondary/50 text-muted-foreground hover:text-foreground hover:bg-secondary'
+          }
+        `}
+        title="View run history"
+      >
+        <span>🕘</span>
+        <span className="hidden sm:inline">Runs</span>
+      </button>
+
+      {/* Expandable panel */}
+      {isExpanded && (
+        <div
+          ref={panelRef}
+          className="absolute bottom-full right-0 mb-2 w-96 max-w-[90vw] bg-card border border-border rounded-lg shadow-xl z-50 overflow-hidden"
+        >
+          <div className="p-3 border-b border-border flex items-center justify-between">
+            <span className="text-sm font-medium text-card-foreground">Run History</span>
+            <button
+              onClick={() => setIsExpanded(false)}
+              className="text-muted-foreground hover:text-foreground text-lg leading-none"
+            >
+              ×
+            </button>
+          </div>
+          <div className="max-h-80 overflow-y-auto divide-y divide-border">
+            {error && (
+              <div className="p-3 text-xs text-destructive">{error}</div>
+            )}
+            {!error && runs.length === 0 && (
+              <div className="p-3 text-xs text-muted-foreground">No runs yet</div>
+            )}
+            {runs.map((run) => (
+              <RunItem key={run.id} run={run} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RunItem({ run }: { run: ProviderRun }) {
+  const status = STATUS_STYLES[run.status];
+
+  return (
+    <div className="p-3 text-xs space-y-1">
+      <div className="flex items-center gap-2">
+        <span className={status.className}>{status.icon}</span>
+        <span className={`font-medium ${status.className}`}>{run.status}</span>
+        <span className="text-muted-foreground">{run.providerType}</span>
+        {run.permissionMode && (
+          <span className="bg-muted px-1.5 py-0.5 rounded text-[10px]">{run.permissionMode}</span>
+        )}
+        <span className="ml-auto text-muted-foreground" title={new Date(run.startedAt).toLocaleString()}>
+          {new Date(run.startedAt).toLocaleTimeString()}
+        </span>
+      </div>
+      <div className="text-foreground truncate" title={run.input}>
+        {run.input}
+      </div>
+      <div className="flex items-center gap-3 text-muted-foreground">
+        {run.endedAt && <span>{formatDuration(run.endedAt - run.startedAt)}</span>}
+        {run.usage && (
+          <span>{run.usage.inputTokens} in / {run.usage.outputTokens} out</span>
+        )}
+        {!!run.usage?.cacheReadTokens && <span>{run.usage.cacheReadTokens} cached</span>}
+        {run.usage?.costUsd !== undefined && <span>${run.usage.costUsd.toFixed(4)}</span>}
+      </div>
+      {run.error && (
+        <div className="text-destructive font-mono whitespace-pre-wrap break-words">
+          {run.error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
@@ -0,0 +1,131 @@
+import { useState, useRef, useEffect } from 'react';
+import type { AgentSettings, Project, Session } from '@my-claudia/shared';
+import { useProjectStore } from '../../stores/projectStore';
+import * as api from '../../services/api';
+import { AgentSettingsEditor, cleanAgentSettings } from '../AgentSettingsEditor';
+
+interface SessionAgentButtonProps {
+  session: Session;
+  project?: Project | null;
+  models?: string[];
+}
+
+export function SessionAgentButton({ session, project, models }: SessionAgentButtonProps) {
+  const { updateSession } = useProjectStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState<AgentSettings>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  const override = session.agentSettings;
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        panelRef.current &&
+        buttonRef.current &&
+        !panelRef.current.contains(event.target as Node) &&
+        !buttonRef.current.contains(event.target as Node)
+      ) {
+        setIsExpanded(false);
+      }
+    }
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isExpanded]);
+
+  // Start from the saved settings each time the panel opens
+  useEffect(() => {
+    if (isExpanded) {
+      setDraft(override || {});
+      setError(null);
+    }
+  }, [isExpanded, override]);
+
+  // Empty settings remove the override
+  const save = async (settings: AgentSettings | undefined) => {
+    setSaving(true);
+    try {
+      await api.updateSession(session.id, { agentSettings: settings || {} });
+      updateSession(session.id, { agentSettings: settings });
+      setIsExpanded(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        ref={buttonRef}
+        onClick={() => setIsExpanded(!isExpanded)}
+        className={`
+          flex items-center gap-1.5 px-2.5 py-1.5 text-xs rounded-lg transition-all
+          ${isExpanded
+            ? 'bg-card text-foreground shadow-sm'
+            : override
+            ? 'bg-primary/10 text-primary hover:bg-primary/20'
+            : 'bg-secondary/50 text-muted-foreground hover:text-foreground hover:bg-secondary'
+          }
+        `}
+        title="Edit session model and agent flags"
+      >
+        <span>🧠</span>
+        <span className="hidden sm:inline">{override?.model || 'Model'}</span>
+      </button>
+
+      {/* Expandable panel */}
+      {isExpanded && (
+        <div
+          ref={panelRef}
+          className="absolute bottom-full right-0 mb-2 w-96 max-w-[90vw] bg-card border border-border rounded-lg shadow-xl z-50 overflow-hidden"
+        >
+          <div className="p-3 border-b border-border flex items-center justify-between">
+            <span className="text-sm font-medium text-card-foreground">Session Model &amp; Agent Flags</span>
+            <button
+              onClick={() => setIsExpanded(false)}
+              className="text-muted-foreground hover:text-foreground text-lg leading-none"
+            >
+              ×
+            </button>
+          </div>
+          <div className="p-3 space-y-2 text-xs">
+            <AgentSettingsEditor
+              settings={draft}
+              onChange={setDraft}
+              models={models}
+              inherited={project?.agentSettings}
+              compact
+            />
+            <p className="text-muted-foreground">Applies from the next message on.</p>
+            {error && <div className="text-destructive">{error}</div>}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => save(undefined)}
+                disabled={saving || !override}
+                className="px-2.5 py-1 rounded border border-border text-muted-foreground hover:text-foreground disabled:opacity-50"
+              >
+                Use project settings
+              </button>
+              <button
+                onClick={() => save(cleanAgentSettings(draft))}
+                disabled={saving}
+                className="px-2.5 py-1 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useRef, useEffect } from 'react';
+import type { Project, Session } from '@my-claudia/shared';
+import { useProjectStore } from '../../stores/projectStore';
+import * as api from '../../services/api';
+
+interface SessionPromptButtonProps {
+  session: Session;
+  project?: Project | null;
+}
+
+export function SessionPromptButton({ session, project }: SessionPromptButtonProps) {
+  const { updateSession } = useProjectStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  const override = session.systemPrompt || '';
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        panelRef.current &&
+        buttonRef.current &&
+        !panelRef.current.contains(event.target as Node) &&
+        !buttonRef.current.contains(event.target as Node)
+      ) {
+        setIsExpanded(false);
+      }
+    }
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isExpanded]);
+
+  // Start from the saved prompt each time the panel opens
+  useEffect(() => {
+    if (isExpanded) {
+      setDraft(override);
+      setError(null);
+    }
+  }, [isExpanded, override]);
+
+  // An empty prompt removes the override
+  const save = async (systemPrompt: string) => {
+    setSaving(true);
+    try {
+      await api.updateSession(session.id, { systemPrompt });
+      updateSession(session.id, { systemPrompt: systemPrompt || undefined });
+      setIsExpanded(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save prompt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        ref={buttonRef}
+        onClick={() => setIsExpanded(!isExpanded)}
+        className={`
+          flex items-center gap-1.5 px-2.5 py-1.5 text-xs rounded-lg transition-all
+          ${isExpanded
+            ? 'bg-card text-foreground shadow-sm'
+            : override
+            ? 'bg-primary/10 text-primary hover:bg-primary/20'
+            : 'bg-secondary/50 text-muted-foreground hover:text-foreground hover:bg-secondary'
+          }
+        `}
+        title="Edit session system prompt"
+      >
+        <span>📝</span>
+        <span className="hidden sm:inline">Prompt</span>
+      </button>
+
+      {/* Expandable panel */}
+      {isExpanded && (
+        <div
+          ref={panelRef}
+          className="absolute bottom-full right-0 mb-2 w-96 max-w-[90vw] bg-card border border-border rounded-lg shadow-xl z-50 overflow-hidden"
+        >
+          <div className="p-3 border-b border-border flex items-center justify-between">
+            <span className="text-sm font-medium text-card-foreground">Session System Prompt</span>
+            <button
+              onClick={() => setIsExpanded(false)}
+              className="text-muted-foreground hover:text-foreground text-lg leading-none"
+            >
+              ×
+            </button>
+          </div>
+          <div className="p-3 space-y-2 text-xs">
+            <div className="text-muted-foreground">
+              {project?.systemPrompt ? (
+                <>
+                  <div className="mb-1">
+                    Project prompt ({project.systemPromptMode === 'replace' ? 'replaces' : 'appended to'} the default):
+                  </div>
+                  <pre className="max-h-24 overflow-y-auto bg-muted text-foreground px-2 py-1 rounded text-[10px] font-mono whitespace-pre-wrap break-words">
+                    {project.systemPrompt}
+                  </pre>
+                </>
+              ) : (
+                <span>The project has no system prompt.</span>
+              )}
+            </div>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              aria-label="Session system prompt"
+              placeholder="Leave empty to use the project prompt"
+              rows={5}
+              className="w-full px-2 py-1.5 bg-input border border-border rounded text-xs text-foreground focus:outline-none focus:border-primary resize-none"
+            />
+            <p className="text-muted-foreground">
+              Used instead of the project prompt, from the next message on.
+            </p>
+            {error && <div className="text-destructive">{error}</div>}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => save('')}
+                disabled={saving || !override}
+                className="px-2.5 py-1 rounded border border-border text-muted-foreground hover:text-foreground disabled:opacity-50"
+              >
+                Use project prompt
+              </button>
+              <button
+                onClick={() => save(draft.trim())}
+                disabled={saving || draft.trim() === override}
+                className="px-2.5 py-1 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
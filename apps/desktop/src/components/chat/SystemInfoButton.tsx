@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import type { SystemInfo } from '@my-claudia/shared';
+import { SystemPromptInfo } from './SystemInfoPanel';
 
 interface SystemInfoButtonProps {
   systemInfo: SystemInfo | null;
@@ -37,7 +38,8 @@ export function SystemInfoButton({ systemInfo }: SystemInfoButtonProps) {
     systemInfo.apiKeySource ||
     (systemInfo.tools && systemInfo.tools.length > 0) ||
     (systemInfo.mcpServers && systemInfo.mcpServers.length > 0) ||
-    (systemInfo.agents && systemInfo.agents.length > 0)
+    (systemInfo.agents && systemInfo.agents.length > 0) ||
+    systemInfo.systemPrompt
   );
 
   // Don't show the button if no system info available
@@ -120,6 +122,11 @@ export function SystemInfoButton({ systemInfo }: SystemInfoButtonProps) {
             {systemInfo?.agents && systemInfo.agents.length > 0 && (
               <InfoList icon="👥" label="Agents" items={systemInfo.agents} />
             )}
+
+            {/* Custom system prompt */}
+            {systemInfo?.systemPrompt && (
+              <SystemPromptInfo prompt={systemInfo.systemPrompt} mode={systemInfo.systemPromptMode} />
+            )}
           </div>
         </div>
       )}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import type { SystemInfo } from '@my-claudia/shared';
+import type { SystemInfo, SystemPromptMode } from '@my-claudia/shared';
 
 interface SystemInfoPanelProps {
   systemInfo: SystemInfo;
@@ -17,7 +17,8 @@ export function SystemInfoPanel({ systemInfo }: SystemInfoPanelProps) {
     (systemInfo.tools && systemInfo.tools.length > 0) ||
     (systemInfo.mcpServers && systemInfo.mcpServers.length > 0) ||
     (systemInfo.slashCommands && systemInfo.slashCommands.length > 0) ||
-    (systemInfo.agents && systemInfo.agents.length > 0);
+    (systemInfo.agents && systemInfo.agents.length > 0) ||
+    systemInfo.systemPrompt;
 
   if (!hasAnyInfo) return null;
 
@@ -99,12 +100,43 @@ export function SystemInfoPanel({ systemInfo }: SystemInfoPanelProps) {
               maxVisible={3}
             />
           )}
+
+          {/* Custom system prompt */}
+          {systemInfo.systemPrompt && (
+            <SystemPromptInfo prompt={systemInfo.systemPrompt} mode={systemInfo.systemPromptMode} />
+          )}
         </div>
       )}
     </div>
   );
 }
 
+interface SystemPromptInfoProps {
+  prompt: string;
+  mode?: SystemPromptMode;
+}
+
+// The project or session prompt the run was started with
+export function SystemPromptInfo({ prompt, mode }: SystemPromptInfoProps) {
+  return (
+    <div className="text-xs">
+      <div className="flex items-center gap-2 text-muted-foreground mb-1">
+        <span>📝</span>
+        <span>System Prompt</span>
+        <span className="text-muted-foreground/70">
+          ({mode === 'replace' ? 'replaces the default' : 'appended to the default'})
+        </span>
+      </div>
+      <pre
+        data-testid="system-prompt"
+        className="ml-5 max-h-32 overflow-y-auto bg-muted text-foreground px-2 py-1 rounded text-[10px] font-mono whitespace-pre-wrap break-words"
+      >
+        {prompt}
+      </pre>
+    </div>
+  );
+}
+
 interface InfoBadgeProps {
   icon: string;
   label: string;
@@ -56,9 +56,14 @@ function formatToolResult(result: unknown): string {
   return json;
 }
 
+// Format how long a tool call took
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
 export function ToolCallItem({ toolCall }: ToolCallItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const { toolName, toolInput, status, result, isError } = toolCall;
+  const { toolName, toolInput, status, result, isError, startedAt, completedAt } = toolCall;
 
   const icon = getToolIcon(toolName);
   const summary = formatToolInput(toolName, toolInput);
@@ -97,6 +102,13 @@ export function ToolCallItem({ toolCall }: ToolCallItemProps) {
           {summary}
         </span>
 
+        {/* Duration */}
+        {startedAt && completedAt && (
+          <span className="text-xs text-muted-foreground">
+            {formatDuration(completedAt - startedAt)}
+          </span>
+        )}
+
         {/* Expand/collapse indicator */}
         <span className="text-muted-foreground text-xs">
           {isExpanded ? '▼' : '▶'}
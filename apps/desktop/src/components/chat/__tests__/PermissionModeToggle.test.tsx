@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PermissionModeToggle } from '../PermissionModeToggle';
+
+describe('PermissionModeToggle', () => {
+  it('renders all modes by default', () => {
+    render(<PermissionModeToggle mode="default" onModeChange={vi.fn()} />);
+
+    expect(screen.getAllByRole('button')).toHaveLength(4);
+  });
+
+  it('only renders modes the provider supports', () => {
+    render(
+      <PermissionModeToggle
+        mode="default"
+        onModeChange={vi.fn()}
+        availableModes={['default', 'bypassPermissions']}
+      />
+    );
+
+    expect(screen.getAllByRole('button')).toHaveLength(2);
+    expect(screen.queryByTitle(/Planning mode/)).not.toBeInTheDocument();
+  });
+
+  it('renders nothing when the provider has no permission modes', () => {
+    const { container } = render(
+      <PermissionModeToggle mode="default" onModeChange={vi.fn()} availableModes={[]} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('calls onModeChange with the selected mode', () => {
+    const onModeChange = vi.fn();
+    render(<PermissionModeToggle mode="default" onModeChange={onModeChange} />);
+
+    fireEvent.click(screen.getByTitle(/Auto-approve file edits/));
+
+    expect(onModeChange).toHaveBeenCalledWith('acceptEdits');
+  });
+});
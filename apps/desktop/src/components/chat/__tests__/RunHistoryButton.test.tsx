@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { RunHistoryButton } from '../RunHistoryButton';
+import * as api from '../../../services/api';
+
+vi.mock('../../../services/api', () => ({
+  getSessionRuns: vi.fn(),
+}));
+
+describe('RunHistoryButton', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads runs only when opened', async () => {
+    vi.mocked(api.getSessionRuns).mockResolvedValue([]);
+    render(<RunHistoryButton sessionId="s1" isLoading={false} />);
+
+    expect(api.getSessionRuns).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTitle('View run history'));
+
+    await waitFor(() => {
+      expect(screen.getByText('No runs yet')).toBeInTheDocument();
+    });
+    expect(api.getSessionRuns).toHaveBeenCalledWith('s1');
+  });
+
+  it('shows status, usage and the error of failed runs', async () => {
+    vi.mocked(api.getSessionRuns).mockResolvedValue([
+      {
+        id: 'r2',
+        sessionId: 's1',
+        providerType: 'codex',
+        status: 'failed',
+        input: 'Fix the build',
+        error: 'CLI exited with code 1',
+        startedAt: 2000,
+        endedAt: 2500,
+      },
+      {
+        id: 'r1',
+        sessionId: 's1',
+        providerType: 'claude',
+        permissionMode: 'acceptEdits',
+        status: 'completed',
+        input: 'Hello',
+        usage: { inputTokens: 10, outputTokens: 5, cacheReadTokens: 800, costUsd: 0.0123 },
+        startedAt: 1000,
+        endedAt: 1200,
+      },
+    ]);
+    render(<RunHistoryButton sessionId="s1" isLoading={false} />);
+
+    fireEvent.click(screen.getByTitle('View run history'));
+
+    await waitFor(() => {
+      expect(screen.getByText('CLI exited with code 1')).toBeInTheDocument();
+    });
+    expect(screen.getByText('failed')).toBeInTheDocument();
+    expect(screen.getByText('completed')).toBeInTheDocument();
+    expect(screen.getByText('acceptEdits')).toBeInTheDocument();
+    expect(screen.getByText('10 in / 5 out')).toBeInTheDocument();
+    expect(screen.getByText('800 cached')).toBeInTheDocument();
+    expect(screen.getByText('$0.0123')).toBeInTheDocument();
+    expect(screen.getByText('500ms')).toBeInTheDocument();
+  });
+
+  it('shows an error when runs fail to load', async () => {
+    vi.mocked(api.getSessionRuns).mockRejectedValue(new Error('Session not found'));
+    render(<RunHistoryButton sessionId="s1" isLoading={false} />);
+
+    fireEvent.click(screen.getByTitle('View run history'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Session not found')).toBeInTheDocument();
+    });
+  });
+});
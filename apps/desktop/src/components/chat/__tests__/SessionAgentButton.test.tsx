@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import type { AgentSettings, Project, Session } from '@my-claudia/shared';
+import { SessionAgentButton } from '../SessionAgentButton';
+import { useProjectStore } from '../../../stores/projectStore';
+import * as api from '../../../services/api';
+
+vi.mock('../../../services/api', () => ({
+  updateSession: vi.fn(),
+}));
+
+const project: Project = {
+  id: 'p1',
+  name: 'Project',
+  type: 'code',
+  agentSettings: { model: 'sonnet', maxTurns: 20 },
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+function makeSession(agentSettings?: AgentSettings): Session {
+  return { id: 's1', projectId: 'p1', name: 'Session', agentSettings, createdAt: 0, updatedAt: 0 };
+}
+
+describe('SessionAgentButton', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.updateSession).mockResolvedValue(undefined);
+  });
+
+  it('shows the project settings the session inherits', () => {
+    render(<SessionAgentButton session={makeSession()} project={project} models={['sonnet', 'opus']} />);
+    fireEvent.click(screen.getByTitle('Edit session model and agent flags'));
+
+    expect(screen.getByLabelText('Model')).toHaveValue('');
+    expect(screen.getByLabelText('Model')).toHaveAttribute('placeholder', 'sonnet');
+    expect(screen.getByLabelText('Max turns')).toHaveAttribute('placeholder', '20');
+    expect(screen.getByText('Use project settings')).toBeDisabled();
+  });
+
+  it('saves an override without the empty fields', async () => {
+    const session = makeSession();
+    useProjectStore.setState({ sessions: [session] });
+    render(<SessionAgentButton session={session} project={project} />);
+    fireEvent.click(screen.getByTitle('Edit session model and agent flags'));
+
+    fireEvent.change(screen.getByLabelText('Model'), { target: { value: ' opus ' } });
+    fireEvent.change(screen.getByLabelText('Additional directories'), { target: { value: '/libs/a\n\n' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(api.updateSession).toHaveBeenCalledWith('s1', {
+        agentSettings: { model: 'opus', additionalDirectories: ['/libs/a'] },
+      });
+    });
+    expect(useProjectStore.getState().sessions[0].agentSettings).toEqual({
+      model: 'opus',
+      additionalDirectories: ['/libs/a'],
+    });
+  });
+
+  it('clears the override to use the project settings again', async () => {
+    const session = makeSession({ model: 'haiku' });
+    useProjectStore.setState({ sessions: [session] });
+    render(<SessionAgentButton session={session} project={project} />);
+    fireEvent.click(screen.getByTitle('Edit session model and agent flags'));
+
+    expect(screen.getByLabelText('Model')).toHaveValue('haiku');
+    fireEvent.click(screen.getByText('Use project settings'));
+
+    await waitFor(() => {
+      expect(api.updateSession).toHaveBeenCalledWith('s1', { agentSettings: {} });
+    });
+    expect(useProjectStore.getState().sessions[0].agentSettings).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import type { Project, Session } from '@my-claudia/shared';
+import { SessionPromptButton } from '../SessionPromptButton';
+import { useProjectStore } from '../../../stores/projectStore';
+import * as api from '../../../services/api';
+
+vi.mock('../../../services/api', () => ({
+  updateSession: vi.fn(),
+}));
+
+const project: Project = {
+  id: 'p1',
+  name: 'Project',
+  type: 'code',
+  systemPrompt: 'Follow the style guide.',
+  systemPromptMode: 'append',
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+function makeSession(systemPrompt?: string): Session {
+  return { id: 's1', projectId: 'p1', name: 'Session', systemPrompt, createdAt: 0, updatedAt: 0 };
+}
+
+describe('SessionPromptButton', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.updateSession).mockResolvedValue(undefined);
+  });
+
+  it('shows the project prompt the session inherits', () => {
+    render(<SessionPromptButton session={makeSession()} project={project} />);
+    fireEvent.click(screen.getByTitle('Edit session system prompt'));
+
+    expect(screen.getByText('Follow the style guide.')).toBeInTheDocument();
+    expect(screen.getByText(/appended to the default/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Session system prompt')).toHaveValue('');
+    expect(screen.getByText('Use project prompt')).toBeDisabled();
+  });
+
+  it('saves an override for the session', async () => {
+    const session = makeSession();
+    useProjectStore.setState({ sessions: [session] });
+    render(<SessionPromptButton session={session} project={project} />);
+    fireEvent.click(screen.getByTitle('Edit session system prompt'));
+
+    fireEvent.change(screen.getByLabelText('Session system prompt'), {
+      target: { value: '  Only review, never edit.  ' },
+    });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(api.updateSession).toHaveBeenCalledWith('s1', { systemPrompt: 'Only review, never edit.' });
+    });
+    expect(useProjectStore.getState().sessions[0].systemPrompt).toBe('Only review, never edit.');
+  });
+
+  it('clears the override to use the project prompt again', async () => {
+    const session = makeSession('Only review.');
+    useProjectStore.setState({ sessions: [session] });
+    render(<SessionPromptButton session={session} project={project} />);
+    fireEvent.click(screen.getByTitle('Edit session system prompt'));
+
+    expect(screen.getByLabelText('Session system prompt')).toHaveValue('Only review.');
+    fireEvent.click(screen.getByText('Use project prompt'));
+
+    await waitFor(() => {
+      expect(api.updateSession).toHaveBeenCalledWith('s1', { systemPrompt: '' });
+    });
+    expect(useProjectStore.getState().sessions[0].systemPrompt).toBeUndefined();
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { SystemInfoPanel } from '../SystemInfoPanel';
+
+describe('SystemInfoPanel', () => {
+  it('shows the system prompt the run was started with', () => {
+    render(
+      <SystemInfoPanel
+        systemInfo={{ model: 'sonnet', systemPrompt: 'You are a reviewer.', systemPromptMode: 'replace' }}
+      />
+    );
+
+    expect(screen.getByTestId('system-prompt')).toHaveTextContent('You are a reviewer.');
+    expect(screen.getByText(/replaces the default/)).toBeInTheDocument();
+  });
+
+  it('renders for a prompt alone', () => {
+    render(<SystemInfoPanel systemInfo={{ systemPrompt: 'Be brief.' }} />);
+
+    expect(screen.getByText(/appended to the default/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import type { PermissionDecision, PermissionLog, Project } from '@my-claudia/shared';
+import { useProjectStore } from '../../stores/projectStore';
+import * as api from '../../services/api';
+
+interface PermissionAuditPanelProps {
+  project: Project;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DECISION_STYLES: Record<PermissionDecision, string> = {
+  allow: 'bg-success/20 text-success',
+  deny: 'bg-destructive/20 text-destructive',
+  timeout: 'bg-warning/20 text-warning',
+};
+
+const POLICY_SOURCES: Record<string, string> = {
+  risk: 'critical risk',
+  disallowedTools: '"Always deny" list',
+  allowedTools: '"Always allow" list',
+  autoApprove: 'auto-approve',
+};
+
+// e.g. "policy:rule:0" -> "project policy (rule 1)"
+function describePolicyDecider(decidedBy: string): string {
+  const [, source, index] = decidedBy.split(':');
+  const detail = source === 'rule' ? `rule ${Number(index) + 1}` : POLICY_SOURCES[source] || source;
+  return `project policy (${detail})`;
+}
+
+export function PermissionAuditPanel({ project, isOpen, onClose }: PermissionAuditPanelProps) {
+  const { sessions } = useProjectStore();
+  const projectSessions = sessions.filter((s) => s.projectId === project.id);
+
+  const [logs, setLogs] = useState<PermissionLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [sessionId, setSessionId] = useState('');
+  const [decision, setDecision] = useState<PermissionDecision | ''>('');
+  const [tool, setTool] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setLoading(true);
+    api.getProjectPermissionLogs(project.id, {
+      sessionId: sessionId || undefined,
+      decision: decision || undefined,
+      tool: tool.trim() || undefined,
+    })
+      .then((result) => {
+        if (!cancelled) {
+          setLogs(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load audit log');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, project.id, sessionId, decision, tool]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-4 md:inset-auto md:top-1/2 md:left-1/2 md:-translate-x-1/2 md:-translate-y-1/2 md:w-[640px] md:max-h-[80vh] bg-card border border-border rounded-lg shadow-xl z-50 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h2 className="text-lg font-semibold text-card-foreground">Permission Audit Log</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2 px-4 py-3 border-b border-border">
+          <select
+            value={sessionId}
+            onChange={(e) => setSessionId(e.target.value)}
+            aria-label="Session"
+            className="h-8 px-2 bg-input border border-border rounded text-sm text-foreground"
+          >
+            <option value="">All sessions</option>
+            {projectSessions.map((s) => (
+              <option key={s.id} value={s.id}>{s.name || s.id.slice(0, 8)}</option>
+            ))}
+          </select>
+          <select
+            value={decision}
+            onChange={(e) => setDecision(e.target.value as PermissionDecision | '')}
+            aria-label="Decision"
+            className="h-8 px-2 bg-input border border-border rounded text-sm text-foreground"
+          >
+            <option value="">All decisions</option>
+            <option value="allow">Allowed</option>
+            <option value="deny">Denied</option>
+            <option value="timeout">Timed out</option>
+          </select>
+          <input
+            type="text"
+            value={tool}
+            onChange={(e) => setTool(e.target.value)}
+            placeholder="Tool name"
+            className="h-8 w-32 px-2 bg-input border border-border rounded text-sm text-foreground font-mono"
+          />
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto divide-y divide-border">
+          {error && (
+            <div className="p-4 text-sm text-destructive">{error}</div>
+          )}
+          {!error && !loading && logs.length === 0 && (
+            <div className="p-4 text-sm text-muted-foreground">No permission decisions recorded</div>
+          )}
+          {logs.map((log) => (
+            <AuditEntry key={log.id} log={log} />
+          ))}
+        </div>
+      </div>
+    </>
+  );
+}
+
+function AuditEntry({ log }: { log: PermissionLog }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="px-4 py-2 text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        <span className={`px-1.5 py-0.5 rounded font-medium ${DECISION_STYLES[log.decision]}`}>
+          {log.decision}
+        </span>
+        <span className="font-mono text-foreground">{log.tool}</span>
+        {log.remembered && (
+          <span className="text-muted-foreground" title="Remembered decision">📌</span>
+        )}
+        <span className="flex-1 truncate text-muted-foreground">{log.detail}</span>
+        <span className="text-muted-foreground" title={new Date(log.createdAt).toLocaleString()}>
+          {new Date(log.createdAt).toLocaleString()}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 space-y-1 text-muted-foreground">
+          <div>Session: <span className="text-foreground">{log.sessionName || log.sessionId}</span></div>
+          <div>
+            Decided by:{' '}
+            <span className="text-foreground">
+              {log.decidedBy?.startsWith('rule:')
+                ? 'remembered decision'
+                : log.decidedBy?.startsWith('policy:')
+                  ? describePolicyDecider(log.decidedBy)
+                  : log.decidedBy
+                    ? `client ${log.decidedBy.slice(0, 8)}`
+                    : log.decision === 'timeout' ? 'timeout' : 'server (run cancelled)'}
+            </span>
+          </div>
+          {log.requestedAt && (
+            <div>Waited: <span className="text-foreground">{Math.round((log.createdAt - log.requestedAt) / 1000)}s</span></div>
+          )}
+          <pre className="bg-muted/50 rounded p-2 overflow-x-auto text-foreground whitespace-pre-wrap break-words font-mono">
+            {log.toolInput !== undefined ? JSON.stringify(log.toolInput, null, 2) : log.detail}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
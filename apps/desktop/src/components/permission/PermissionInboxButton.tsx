@@ -0,0 +1,158 @@
+import { useState, useRef, useEffect } from 'react';
+import type { PermissionRiskLevel } from '@my-claudia/shared';
+import { usePermissionStore, type PermissionRequest } from '../../stores/permissionStore';
+import { useServerStore } from '../../stores/serverStore';
+import { useGatewayStore, isGatewayTarget, parseBackendId } from '../../stores/gatewayStore';
+import { usePermissionDecision } from '../../hooks/usePermissionDecision';
+
+const RISK_BADGES: Record<PermissionRiskLevel, string> = {
+  low: '',
+  medium: 'bg-warning/20 text-warning',
+  high: 'bg-destructive/20 text-destructive',
+  critical: 'bg-destructive text-destructive-foreground',
+};
+
+// One line describing what the tool wants to do
+export function summarizeRequest(request: PermissionRequest): string {
+  const input = request.toolInput;
+  if (input && typeof input === 'object') {
+    const obj = input as Record<string, unknown>;
+    const value = ['command', 'file_path', 'notebook_path', 'path', 'url', 'pattern', 'query']
+      .map((key) => obj[key])
+      .find((v) => typeof v === 'string');
+    if (value) return value as string;
+  }
+  return request.detail.split('\n').find((line) => line.trim()) || '';
+}
+
+export function PermissionInboxButton() {
+  const { pendingRequests, setPendingRequest } = usePermissionStore();
+  const { servers } = useServerStore();
+  const { discoveredBackends } = useGatewayStore();
+  const decide = usePermissionDecision();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        panelRef.current &&
+        buttonRef.current &&
+        !panelRef.current.contains(event.target as Node) &&
+        !buttonRef.current.contains(event.target as Node)
+      ) {
+        setIsExpanded(false);
+      }
+    }
+
+    if (isExpanded) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isExpanded]);
+
+  const getServerName = (serverId?: string): string | undefined => {
+    if (!serverId) return undefined;
+    if (isGatewayTarget(serverId)) {
+      const backendId = parseBackendId(serverId);
+      return discoveredBackends.find((b) => b.backendId === backendId)?.name || backendId;
+    }
+    return servers.find((s) => s.id === serverId)?.name || serverId;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        ref={buttonRef}
+        onClick={() => setIsExpanded(!isExpanded)}
+        data-testid="permission-inbox-button"
+        className="w-full text-left px-2 py-1.5 rounded text-sm text-muted-foreground hover:bg-secondary hover:text-foreground flex items-center gap-2"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+          />
+        </svg>
+        <span className="flex-1">Approvals</span>
+        {pendingRequests.length > 0 && (
+          <span
+            data-testid="permission-inbox-badge"
+            className="min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-warning text-warning-foreground text-xs font-semibold text-center"
+          >
+            {pendingRequests.length}
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div
+          ref={panelRef}
+          className="absolute bottom-full left-0 mb-2 w-80 max-h-96 overflow-y-auto bg-card border border-border rounded-lg shadow-lg z-50"
+        >
+          <div className="px-3 py-2 border-b border-border text-sm font-medium text-card-foreground">
+            Pending approvals
+          </div>
+          {pendingRequests.length === 0 ? (
+            <div className="p-3 text-sm text-muted-foreground">Nothing is waiting for approval</div>
+          ) : (
+            <ul className="divide-y divide-border">
+              {pendingRequests.map((request) => (
+                <li key={request.requestId} className="px-3 py-2 text-xs">
+                  <div className="flex items-center gap-1 text-muted-foreground">
+                    <span className="truncate">
+                      {[getServerName(request.serverId), request.projectName, request.sessionName || request.sessionId?.slice(0, 8)]
+                        .filter(Boolean)
+                        .join(' / ')}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-1">
+                    <span className="px-1.5 py-0.5 bg-muted rounded font-mono text-foreground">{request.toolName}</span>
+                    {request.risk && request.risk.level !== 'low' && (
+                      <span
+                        className={`px-1.5 py-0.5 rounded font-medium ${RISK_BADGES[request.risk.level]}`}
+                        title={request.risk.reasons.join('\n')}
+                      >
+                        {request.risk.level}
+                      </span>
+                    )}
+                    <span className="flex-1 truncate font-mono text-foreground" title={summarizeRequest(request)}>
+                      {summarizeRequest(request)}
+                    </span>
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => decide(request.requestId, false)}
+                      className="px-2 py-1 rounded bg-secondary hover:bg-secondary/80 text-secondary-foreground"
+                    >
+                      Deny
+                    </button>
+                    <button
+                      onClick={() => decide(request.requestId, true)}
+                      className="px-2 py-1 rounded bg-success hover:bg-success/80 text-success-foreground"
+                    >
+                      Allow
+                    </button>
+                    <button
+                      onClick={() => {
+                        setPendingRequest(request);
+                        setIsExpanded(false);
+                      }}
+                      className="ml-auto px-2 py-1 text-primary hover:underline"
+                    >
+                      Review
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,60 @@
 import { useState, useEffect } from 'react';
+import type { PermissionRisk, PermissionRiskLevel } from '@my-claudia/shared';
 
 interface PermissionRequest {
   requestId: string;
   toolName: string;
   detail: string;
+  toolInput?: unknown;
+  editable?: boolean;
+  risk?: PermissionRisk;
   timeoutSec: number;
+  sessionName?: string;
+  projectName?: string;
 }
 
 interface PermissionModalProps {
   request: PermissionRequest | null;
-  onDecision: (requestId: string, allow: boolean, remember?: boolean) => void;
+  onDecision: (requestId: string, allow: boolean, remember?: boolean, updatedInput?: unknown) => void;
+  // Called when the countdown ends and the server decides the request itself;
+  // without it the modal denies on timeout
+  onTimeout?: (requestId: string) => void;
 }
 
-export function PermissionModal({ request, onDecision }: PermissionModalProps) {
+const RISK_STYLES: Record<Exclude<PermissionRiskLevel, 'low'>, string> = {
+  medium: 'bg-warning/10 border-warning/40 text-warning',
+  high: 'bg-destructive/10 border-destructive/40 text-destructive',
+  critical: 'bg-destructive/20 border-destructive text-destructive',
+};
+
+// Inputs with one of these fields are edited through that field instead of as JSON
+const PRIMARY_KEYS = ['command', 'file_path', 'notebook_path', 'path', 'url'];
+
+function getPrimaryKey(toolInput: unknown): string | undefined {
+  if (!toolInput || typeof toolInput !== 'object') return undefined;
+  const obj = toolInput as Record<string, unknown>;
+  return PRIMARY_KEYS.find((key) => typeof obj[key] === 'string');
+}
+
+function getEditText(toolInput: unknown): string {
+  const key = getPrimaryKey(toolInput);
+  return key
+    ? (toolInput as Record<string, string>)[key]
+    : JSON.stringify(toolInput, null, 2);
+}
+
+export function PermissionModal({ request, onDecision, onTimeout }: PermissionModalProps) {
   const [remainingTime, setRemainingTime] = useState(0);
   const [remember, setRemember] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
 
   useEffect(() => {
     if (!request) return;
 
     setRemember(false);
+    setIsEditing(false);
+    setEditText(getEditText(request.toolInput));
 
     // timeoutSec = 0 means no timeout (wait indefinitely like official Claude client)
     if (request.timeoutSec === 0) {
@@ -32,8 +67,12 @@ export function PermissionModal({ request, onDecision }: PermissionModalProps) {
     const interval = setInterval(() => {
       setRemainingTime((prev) => {
         if (prev <= 1) {
-          // Auto-deny on timeout
-          onDecision(request.requestId, false);
+          if (onTimeout) {
+            onTimeout(request.requestId);
+          } else {
+            // Auto-deny on timeout
+            onDecision(request.requestId, false);
+          }
           return 0;
         }
         return prev - 1;
@@ -41,12 +80,40 @@ export function PermissionModal({ request, onDecision }: PermissionModalProps) {
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [request, onDecision]);
+  }, [request, onDecision, onTimeout]);
 
   if (!request) return null;
 
+  const canEdit = !!request.editable && request.toolInput !== undefined;
+  const primaryKey = getPrimaryKey(request.toolInput);
+  const isEdited = isEditing && editText !== getEditText(request.toolInput);
+
+  // The input to run with, undefined when unchanged
+  let updatedInput: unknown;
+  let editError: string | null = null;
+  if (isEdited) {
+    if (primaryKey) {
+      updatedInput = { ...(request.toolInput as Record<string, unknown>), [primaryKey]: editText };
+    } else {
+      try {
+        updatedInput = JSON.parse(editText);
+        // Tool arguments are always an object
+        if (typeof updatedInput !== 'object' || updatedInput === null || Array.isArray(updatedInput)) {
+          updatedInput = undefined;
+          editError = 'Input must be a JSON object';
+        }
+      } catch {
+        editError = 'Invalid JSON';
+      }
+    }
+  }
+
   const handleAllow = () => {
-    onDecision(request.requestId, true, remember);
+    if (updatedInput !== undefined) {
+      onDecision(request.requestId, true, false, updatedInput);
+    } else {
+      onDecision(request.requestId, true, remember);
+    }
   };
 
   const handleDeny = () => {
@@ -92,6 +159,11 @@ export function PermissionModal({ request, onDecision }: PermissionModalProps) {
               <p className="text-sm text-muted-foreground">
                 Claude wants to use a tool that requires your approval
               </p>
+              {(request.projectName || request.sessionName) && (
+                <p data-testid="permission-context" className="text-xs text-muted-foreground">
+                  {[request.projectName, request.sessionName].filter(Boolean).join(' / ')}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -106,12 +178,54 @@ export function PermissionModal({ request, onDecision }: PermissionModalProps) {
             </span>
           </div>
 
-          {/* Detail */}
-          <div className="bg-muted/50 rounded-lg p-3 max-h-48 overflow-y-auto">
-            <pre className="text-sm text-foreground whitespace-pre-wrap break-words font-mono">
-              {request.detail}
-            </pre>
-          </div>
+          {/* Risk of the input */}
+          {request.risk && request.risk.level !== 'low' && (
+            <div
+              data-testid="permission-risk"
+              className={`mb-3 px-3 py-2 border rounded-lg text-sm ${RISK_STYLES[request.risk.level]}`}
+            >
+              <div className="font-semibold capitalize">{request.risk.level} risk</div>
+              <ul className="list-disc list-inside text-xs mt-1">
+                {request.risk.reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Detail, or the input being edited */}
+          {isEditing ? (
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">
+                {primaryKey || 'Tool input (JSON)'}
+              </label>
+              <textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                aria-label="Tool input"
+                rows={primaryKey === 'command' || !primaryKey ? 5 : 2}
+                className="w-full px-3 py-2 bg-input border border-border rounded-lg text-sm text-foreground font-mono focus:outline-none focus:border-primary resize-y"
+              />
+              {editError && <p className="text-xs text-destructive mt-1">{editError}</p>}
+            </div>
+          ) : (
+            <div className="bg-muted/50 rounded-lg p-3 max-h-48 overflow-y-auto">
+              <pre className="text-sm text-foreground whitespace-pre-wrap break-words font-mono">
+                {request.detail}
+              </pre>
+            </div>
+          )}
+          {canEdit && (
+            <button
+              onClick={() => {
+                setIsEditing(!isEditing);
+                setEditText(getEditText(request.toolInput));
+              }}
+              className="mt-2 text-xs text-primary hover:underline"
+            >
+              {isEditing ? 'Discard edits' : 'Edit input before allowing'}
+            </button>
+          )}
 
           {/* Timeout warning - show different message based on timeout setting */}
           <div className="mt-3 flex items-center gap-2 text-sm">
@@ -143,14 +257,20 @@ export function PermissionModal({ request, onDecision }: PermissionModalProps) {
           <label className="flex items-center gap-2 cursor-pointer">
             <input
               type="checkbox"
-              checked={remember}
+              checked={remember && !isEdited}
+              disabled={isEdited}
               onChange={(e) => setRemember(e.target.checked)}
               className="rounded border-input bg-background text-primary focus:ring-primary"
             />
             <span className="text-sm text-foreground">
-              Remember this decision for this session
+              Remember this decision for this project
             </span>
           </label>
+          {isEdited && (
+            <p className="text-xs text-muted-foreground mt-1">
+              An edited input is approved for this request only
+            </p>
+          )}
         </div>
 
         {/* Actions */}
@@ -163,6 +283,7 @@ export function PermissionModal({ request, onDecision }: PermissionModalProps) {
           </button>
           <button
             onClick={handleAllow}
+            disabled={!!editError}
             className="flex-1 px-4 py-2.5 bg-success hover:bg-success/80 text-success-foreground rounded-lg font-medium transition-colors"
           >
             Allow
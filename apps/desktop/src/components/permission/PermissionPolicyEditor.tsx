@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import type { PermissionPolicy, PermissionPatternRule, ProviderType } from '@my-claudia/shared';
+
+export const DEFAULT_PERMISSION_POLICY: PermissionPolicy = {
+  allowedTools: [],
+  disallowedTools: [],
+  autoApprove: false,
+  timeoutSeconds: 0,
+  rules: [],
+  denyCritical: false,
+};
+
+// `Tool` or `Tool(input pattern)`, same shape the server parses
+const RULE_PATTERN = /^[^\s()]+(\(.*\))?$/s;
+
+export function isValidRulePattern(pattern: string): boolean {
+  return RULE_PATTERN.test(pattern.trim());
+}
+
+interface PermissionPolicyEditorProps {
+  policy: PermissionPolicy;
+  onChange: (policy: PermissionPolicy) => void;
+  providerType?: ProviderType;  // Provider of the project, for settings it cannot enforce
+}
+
+// Split a comma or newline separated list of tool names
+function parseToolList(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map((tool) => tool.trim())
+    .filter(Boolean);
+}
+
+export function PermissionPolicyEditor({ policy, onChange, providerType }: PermissionPolicyEditorProps) {
+  // Keep the raw text so separators can be typed; the parsed lists go to onChange
+  const [allowedText, setAllowedText] = useState(policy.allowedTools.join(', '));
+  const [disallowedText, setDisallowedText] = useState(policy.disallowedTools.join(', '));
+
+  // Pick up lists replaced from outside, e.g. when the project is loaded
+  useEffect(() => {
+    if (parseToolList(allowedText).join() !== policy.allowedTools.join()) {
+      setAllowedText(policy.allowedTools.join(', '));
+    }
+    if (parseToolList(disallowedText).join() !== policy.disallowedTools.join()) {
+      setDisallowedText(policy.disallowedTools.join(', '));
+    }
+  }, [policy.allowedTools, policy.disallowedTools, allowedText, disallowedText]);
+
+  const rules = policy.rules || [];
+  const setRules = (next: PermissionPatternRule[]) => onChange({ ...policy, rules: next });
+  const updateRule = (index: number, changes: Partial<PermissionPatternRule>) =>
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    setRules(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Allowed tools */}
+      <div>
+        <label className="block text-xs text-muted-foreground mb-1">
+          Always allow
+        </label>
+        <input
+          type="text"
+          value={allowedText}
+          onChange={(e) => {
+            setAllowedText(e.target.value);
+            onChange({ ...policy, allowedTools: parseToolList(e.target.value) });
+          }}
+          placeholder="Read, Glob, Grep"
+          className="w-full px-3 py-2 bg-input border border-border rounded-lg text-sm text-foreground focus:outline-none focus:border-primary font-mono"
+        />
+      </div>
+
+      {/* Disallowed tools */}
+      <div>
+        <label className="block text-xs text-muted-foreground mb-1">
+          Always deny
+        </label>
+        <input
+          type="text"
+          value={disallowedText}
+          onChange={(e) => {
+            setDisallowedText(e.target.value);
+            onChange({ ...policy, disallowedTools: parseToolList(e.target.value) });
+          }}
+          placeholder="Bash, Write"
+          className="w-full px-3 py-2 bg-input border border-border rounded-lg text-sm text-foreground focus:outline-none focus:border-primary font-mono"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Comma separated tool names. Denied tools win over allowed ones.
+        </p>
+      </div>
+
+      {/* Pattern rules */}
+      <div>
+        <label className="block text-xs text-muted-foreground mb-1">
+          Pattern rules
+        </label>
+        <div className="space-y-1">
+          {rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <span className="w-5 text-xs text-muted-foreground text-right">{index + 1}.</span>
+              <select
+                value={rule.decision}
+                onChange={(e) => updateRule(index, { decision: e.target.value as PermissionPatternRule['decision'] })}
+                aria-label={`Rule ${index + 1} decision`}
+                className="h-8 px-2 bg-input border border-border rounded text-sm text-foreground"
+              >
+                <option value="allow">Allow</option>
+                <option value="deny">Deny</option>
+              </select>
+              <input
+                type="text"
+                value={rule.pattern}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                aria-label={`Rule ${index + 1} pattern`}
+                placeholder="Bash(git status*)"
+                className={`flex-1 h-8 px-2 bg-input border rounded text-sm text-foreground font-mono focus:outline-none focus:border-primary ${
+                  rule.pattern && !isValidRulePattern(rule.pattern) ? 'border-destructive' : 'border-border'
+                }`}
+              />
+              <button
+                onClick={() => moveRule(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+                className="px-1.5 text-muted-foreground hover:text-foreground disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveRule(index, 1)}
+                disabled={index === rules.length - 1}
+                title="Move down"
+                className="px-1.5 text-muted-foreground hover:text-foreground disabled:opacity-30"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                title="Remove rule"
+                className="px-1.5 text-muted-foreground hover:text-destructive"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setRules([...rules, { pattern: '', decision: 'allow' }])}
+          className="mt-1 text-xs text-primary hover:underline"
+        >
+          + Add rule
+        </button>
+        <p className="text-xs text-muted-foreground mt-1">
+          Checked in order before the lists above; the first match decides. E.g. Bash(rm -rf*), Write(src/**), Read(~/.ssh/**).
+        </p>
+      </div>
+
+      {/* Auto-approve */}
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={policy.autoApprove}
+          onChange={(e) => onChange({ ...policy, autoApprove: e.target.checked })}
+          className="rounded border-input bg-background text-primary focus:ring-primary"
+        />
+        <span className="text-sm text-foreground">
+          Approve all other tools without asking
+        </span>
+      </label>
+
+      {/* Critical risk */}
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!policy.denyCritical}
+          onChange={(e) => onChange({ ...policy, denyCritical: e.target.checked })}
+          className="rounded border-input bg-background text-primary focus:ring-primary"
+        />
+        <span className="text-sm text-foreground">
+          Deny critical-risk actions without asking, even in Accept Edits mode
+        </span>
+      </label>
+      {providerType === 'cursor' && policy.denyCritical && (
+        <p className="text-xs text-muted-foreground">
+          Cursor runs tools without asking in Accept Edits and Bypass Permissions mode, so critical-risk actions
+          are only denied in Default mode.
+        </p>
+      )}
+      {providerType === 'cursor' && (
+        <p className="text-xs text-muted-foreground">
+          Approved Cursor tool calls run in a resumed chat with --force. Any other tool call started there is
+          stopped and asked about, but it may already have partly run.
+        </p>
+      )}
+
+      {/* Timeout */}
+      <div>
+        <label className="block text-xs text-muted-foreground mb-1">
+          Approval timeout (seconds)
+        </label>
+        <input
+          type="number"
+          min={0}
+          value={policy.timeoutSeconds}
+          onChange={(e) => onChange({ ...policy, timeoutSeconds: Math.max(0, parseInt(e.target.value) || 0) })}
+          className="w-32 px-3 py-2 bg-input border border-border rounded-lg text-sm text-foreground focus:outline-none focus:border-primary"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Unanswered requests are denied after this time. 0 waits indefinitely.
+        </p>
+      </div>
+    </div>
+  );
+}
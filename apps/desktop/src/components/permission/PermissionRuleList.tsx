@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import type { PermissionRule } from '@my-claudia/shared';
+import * as api from '../../services/api';
+
+interface PermissionRuleListProps {
+  projectId: string;
+}
+
+export function PermissionRuleList({ projectId }: PermissionRuleListProps) {
+  const [rules, setRules] = useState<PermissionRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    api.getPermissionRules(projectId)
+      .then((result) => {
+        if (!cancelled) {
+          setRules(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load remembered decisions');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const handleRevoke = async (ruleId: string) => {
+    try {
+      await api.deletePermissionRule(projectId, ruleId);
+      setRules((prev) => prev.filter((r) => r.id !== ruleId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke decision');
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <p className="text-xs text-destructive mb-1">{error}</p>
+      )}
+      {!loading && rules.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No remembered decisions. Check "Remember this decision" when answering a request to add one.
+        </p>
+      )}
+      {rules.length > 0 && (
+        <ul className="border border-border rounded-lg divide-y divide-border">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+              <span
+                className={`px-1.5 py-0.5 rounded font-medium ${
+                  rule.decision === 'allow'
+                    ? 'bg-success/20 text-success'
+                    : 'bg-destructive/20 text-destructive'
+                }`}
+              >
+                {rule.decision}
+              </span>
+              <span className="font-mono text-foreground">{rule.tool}</span>
+              <span className="flex-1 truncate font-mono text-muted-foreground" title={rule.input}>
+                {rule.input ?? 'any input'}
+              </span>
+              <button
+                onClick={() => handleRevoke(rule.id)}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
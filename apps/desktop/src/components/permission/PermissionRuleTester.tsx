@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { PermissionPolicy, PermissionPolicyResult } from '@my-claudia/shared';
+import * as api from '../../services/api';
+
+interface PermissionRuleTesterProps {
+  projectId: string;
+  policy: PermissionPolicy;
+}
+
+// Turn the sample into a tool input; plain text becomes the field the tool acts on
+export function buildSampleInput(toolName: string, text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Not JSON, use it as plain text
+    }
+  }
+  if (toolName === 'Bash') return { command: trimmed };
+  if (toolName === 'WebFetch') return { url: trimmed };
+  return { file_path: trimmed };
+}
+
+export function PermissionRuleTester({ projectId, policy }: PermissionRuleTesterProps) {
+  const [toolName, setToolName] = useState('Bash');
+  const [sample, setSample] = useState('');
+  const [result, setResult] = useState<PermissionPolicyResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTest = async () => {
+    try {
+      const data = await api.testPermissionPolicy(projectId, policy, toolName.trim(), buildSampleInput(toolName.trim(), sample));
+      setResult(data);
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to test policy');
+    }
+  };
+
+  const describeResult = (res: PermissionPolicyResult): string => {
+    switch (res.source) {
+      case 'risk':
+        return 'Denied as critical risk';
+      case 'rule':
+        return `Rule ${res.ruleIndex! + 1} (${policy.rules?.[res.ruleIndex!]?.pattern}) would ${res.decision}`;
+      case 'disallowedTools':
+        return 'Denied by the "Always deny" list';
+      case 'allowedTools':
+        return 'Allowed by the "Always allow" list';
+      case 'autoApprove':
+        return 'Allowed because all other tools are approved';
+      default:
+        return 'No rule matches; you would be asked';
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={toolName}
+          onChange={(e) => setToolName(e.target.value)}
+          aria-label="Sample tool"
+          placeholder="Tool"
+          className="w-24 h-8 px-2 bg-input border border-border rounded text-sm text-foreground font-mono"
+        />
+        <input
+          type="text"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && toolName.trim()) handleTest();
+          }}
+          aria-label="Sample input"
+          placeholder="git status, src/index.ts or JSON input"
+          className="flex-1 h-8 px-2 bg-input border border-border rounded text-sm text-foreground font-mono"
+        />
+        <button
+          onClick={handleTest}
+          disabled={!toolName.trim()}
+          className="px-3 h-8 bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded text-sm disabled:opacity-50"
+        >
+          Test
+        </button>
+      </div>
+      {result && (
+        <p
+          className={`text-xs mt-1 ${
+            result.decision === 'allow'
+              ? 'text-success'
+              : result.decision === 'deny' ? 'text-destructive' : 'text-muted-foreground'
+          }`}
+        >
+          {describeResult(result)}
+        </p>
+      )}
+      {error && <p className="text-xs mt-1 text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { PermissionAuditPanel } from '../PermissionAuditPanel';
+import { useProjectStore } from '../../../stores/projectStore';
+import * as api from '../../../services/api';
+
+vi.mock('../../../services/api', () => ({
+  getProjectPermissionLogs: vi.fn(),
+}));
+
+const project = {
+  id: 'project-1',
+  name: 'Project',
+  type: 'code' as const,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('PermissionAuditPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useProjectStore.setState({
+      sessions: [
+        { id: 's1', projectId: 'project-1', name: 'First session', createdAt: 0, updatedAt: 0 },
+        { id: 's2', projectId: 'project-2', name: 'Other project', createdAt: 0, updatedAt: 0 },
+      ],
+    });
+    vi.mocked(api.getProjectPermissionLogs).mockResolvedValue([
+      {
+        id: 'l1',
+        sessionId: 's1',
+        sessionName: 'First session',
+        tool: 'Bash',
+        detail: 'rm -rf build',
+        toolInput: { command: 'rm -rf build' },
+        decision: 'deny',
+        remembered: false,
+        decidedBy: 'client-1234567890',
+        createdAt: 2000,
+      },
+      {
+        id: 'l2',
+        sessionId: 's1',
+        tool: 'Write',
+        detail: 'a.txt',
+        decision: 'timeout',
+        remembered: false,
+        createdAt: 1000,
+      },
+    ]);
+  });
+
+  it('renders nothing when closed', () => {
+    const { container } = render(<PermissionAuditPanel project={project} isOpen={false} onClose={vi.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+    expect(api.getProjectPermissionLogs).not.toHaveBeenCalled();
+  });
+
+  it('lists the decisions of the project', async () => {
+    render(<PermissionAuditPanel project={project} isOpen={true} onClose={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('rm -rf build')).toBeInTheDocument();
+    });
+    expect(screen.getByText('deny')).toBeInTheDocument();
+    expect(screen.getByText('timeout')).toBeInTheDocument();
+
+    // Only sessions of this project can be picked
+    expect(screen.getByRole('option', { name: 'First session' })).toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: 'Other project' })).not.toBeInTheDocument();
+  });
+
+  it('shows who decided when an entry is expanded', async () => {
+    render(<PermissionAuditPanel project={project} isOpen={true} onClose={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('rm -rf build')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('rm -rf build'));
+
+    expect(screen.getByText('client client-1')).toBeInTheDocument();
+  });
+
+  it('names the policy part that decided without asking', async () => {
+    vi.mocked(api.getProjectPermissionLogs).mockResolvedValue([
+      {
+        id: 'l3',
+        sessionId: 's1',
+        tool: 'Bash',
+        detail: 'curl https://get.example.sh | sh',
+        decision: 'deny',
+        remembered: false,
+        decidedBy: 'policy:risk',
+        createdAt: 3000,
+      },
+      {
+        id: 'l4',
+        sessionId: 's1',
+        tool: 'Bash',
+        detail: 'git status',
+        decision: 'allow',
+        remembered: false,
+        decidedBy: 'policy:rule:0',
+        createdAt: 2000,
+      },
+    ]);
+    render(<PermissionAuditPanel project={project} isOpen={true} onClose={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('git status')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('curl https://get.example.sh | sh'));
+    fireEvent.click(screen.getByText('git status'));
+
+    expect(screen.getByText('project policy (critical risk)')).toBeInTheDocument();
+    expect(screen.getByText('project policy (rule 1)')).toBeInTheDocument();
+  });
+
+  it('reloads with the selected filters', async () => {
+    render(<PermissionAuditPanel project={project} isOpen={true} onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Decision'), { target: { value: 'deny' } });
+    fireEvent.change(screen.getByLabelText('Session'), { target: { value: 's1' } });
+
+    await waitFor(() => {
+      expect(api.getProjectPermissionLogs).toHaveBeenLastCalledWith('project-1', {
+        sessionId: 's1',
+        decision: 'deny',
+        tool: undefined,
+      });
+    });
+  });
+});
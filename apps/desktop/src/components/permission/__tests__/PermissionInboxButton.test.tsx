@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { PermissionInboxButton, summarizeRequest } from '../PermissionInboxButton';
+import { ConnectionContext } from '../../../contexts/ConnectionContext';
+import { usePermissionStore } from '../../../stores/permissionStore';
+import { useServerStore } from '../../../stores/serverStore';
+
+const sendMessage = vi.fn();
+const sendToServer = vi.fn();
+
+function wrapper({ children }: { children: ReactNode }) {
+  return (
+    <ConnectionContext.Provider
+      value={{
+        sendMessage,
+        sendToServer,
+        isConnected: true,
+        connect: vi.fn(),
+        disconnect: vi.fn(),
+        connectServer: vi.fn(),
+        disconnectServer: vi.fn(),
+        isServerConnected: vi.fn(),
+        getConnectedServers: vi.fn(),
+      }}
+    >
+      {children}
+    </ConnectionContext.Provider>
+  );
+}
+
+const bashRequest = {
+  requestId: 'req-1',
+  toolName: 'Bash',
+  detail: '{"command": "npm test"}',
+  toolInput: { command: 'npm test' },
+  timeoutSec: 0,
+  serverId: 'server-a',
+  sessionId: 's1',
+  sessionName: 'Refactor',
+  projectName: 'Web',
+};
+
+const writeRequest = {
+  requestId: 'req-2',
+  toolName: 'Write',
+  detail: '{"file_path": "/etc/hosts"}',
+  toolInput: { file_path: '/etc/hosts' },
+  risk: { level: 'high' as const, reasons: ['Writes outside the project root'] },
+  timeoutSec: 0,
+  serverId: 'server-b',
+  sessionId: 's2',
+  sessionName: 'Ops',
+  projectName: 'Infra',
+};
+
+describe('PermissionInboxButton', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    usePermissionStore.setState({ pendingRequests: [bashRequest, writeRequest], pendingRequest: null });
+    useServerStore.setState({
+      servers: [
+        { id: 'server-a', name: 'Laptop', address: 'localhost:3100', isDefault: true, createdAt: 0 },
+        { id: 'server-b', name: 'Build box', address: 'build:3100', isDefault: false, createdAt: 0 },
+      ],
+    });
+  });
+
+  it('shows the number of pending requests', () => {
+    render(<PermissionInboxButton />, { wrapper });
+
+    expect(screen.getByTestId('permission-inbox-badge')).toHaveTextContent('2');
+  });
+
+  it('hides the badge when nothing is pending', () => {
+    usePermissionStore.setState({ pendingRequests: [] });
+    render(<PermissionInboxButton />, { wrapper });
+
+    expect(screen.queryByTestId('permission-inbox-badge')).not.toBeInTheDocument();
+  });
+
+  it('lists every request with its server, project, session and tool summary', () => {
+    render(<PermissionInboxButton />, { wrapper });
+    fireEvent.click(screen.getByTestId('permission-inbox-button'));
+
+    expect(screen.getByText('Laptop / Web / Refactor')).toBeInTheDocument();
+    expect(screen.getByText('Build box / Infra / Ops')).toBeInTheDocument();
+    expect(screen.getByText('npm test')).toBeInTheDocument();
+    expect(screen.getByText('/etc/hosts')).toBeInTheDocument();
+    expect(screen.getByText('high')).toBeInTheDocument();
+  });
+
+  it('sends each decision to the server the request came from', () => {
+    render(<PermissionInboxButton />, { wrapper });
+    fireEvent.click(screen.getByTestId('permission-inbox-button'));
+
+    fireEvent.click(screen.getAllByText('Deny')[1]);
+
+    expect(sendToServer).toHaveBeenCalledWith('server-b', expect.objectContaining({
+      type: 'permission_decision',
+      requestId: 'req-2',
+      allow: false,
+    }));
+    expect(usePermissionStore.getState().pendingRequests.map((r) => r.requestId)).toEqual(['req-1']);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('opens a request in the permission modal for review', () => {
+    render(<PermissionInboxButton />, { wrapper });
+    fireEvent.click(screen.getByTestId('permission-inbox-button'));
+
+    fireEvent.click(screen.getAllByText('Review')[0]);
+
+    expect(usePermissionStore.getState().pendingRequest?.requestId).toBe('req-1');
+  });
+
+  it('summarizes requests by their main input', () => {
+    expect(summarizeRequest(bashRequest)).toBe('npm test');
+    expect(summarizeRequest({ ...bashRequest, toolInput: undefined, detail: '\nfirst line\nsecond' })).toBe('first line');
+  });
+});
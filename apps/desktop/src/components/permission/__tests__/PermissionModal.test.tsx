@@ -106,6 +106,24 @@ describe('PermissionModal', () => {
     expect(mockOnDecision).toHaveBeenCalledWith('req-1', false);
   });
 
+  it('leaves the decision to the server when onTimeout is provided', () => {
+    const onTimeout = vi.fn();
+    render(
+      <PermissionModal
+        request={{ ...defaultRequest, timeoutSec: 3 }}
+        onDecision={mockOnDecision}
+        onTimeout={onTimeout}
+      />
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+
+    expect(onTimeout).toHaveBeenCalledWith('req-1');
+    expect(mockOnDecision).not.toHaveBeenCalled();
+  });
+
   it('calls onDecision with allow=true when Allow clicked', () => {
     render(
       <PermissionModal request={defaultRequest} onDecision={mockOnDecision} />
@@ -225,10 +243,106 @@ describe('PermissionModal', () => {
     );
 
     expect(
-      screen.getByText('Remember this decision for this session')
+      screen.getByText('Remember this decision for this project')
     ).toBeInTheDocument();
   });
 
+  it('does not offer editing when the provider cannot apply it', () => {
+    render(
+      <PermissionModal
+        request={{ ...defaultRequest, toolInput: { command: 'ls -la' } }}
+        onDecision={mockOnDecision}
+      />
+    );
+
+    expect(screen.queryByText('Edit input before allowing')).not.toBeInTheDocument();
+  });
+
+  it('allows with an edited command', () => {
+    render(
+      <PermissionModal
+        request={{ ...defaultRequest, toolInput: { command: 'ls -la', description: 'List' }, editable: true }}
+        onDecision={mockOnDecision}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Edit input before allowing'));
+    fireEvent.change(screen.getByLabelText('Tool input'), { target: { value: 'ls -la src' } });
+
+    // Edited approvals are not remembered
+    expect(screen.getByRole('checkbox')).toBeDisabled();
+
+    fireEvent.click(screen.getByText('Allow'));
+    expect(mockOnDecision).toHaveBeenCalledWith('req-1', true, false, { command: 'ls -la src', description: 'List' });
+  });
+
+  it('edits inputs without a main field as JSON', () => {
+    render(
+      <PermissionModal
+        request={{ ...defaultRequest, toolName: 'TodoWrite', toolInput: { todos: [] }, editable: true }}
+        onDecision={mockOnDecision}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Edit input before allowing'));
+    fireEvent.change(screen.getByLabelText('Tool input'), { target: { value: '{"todos": [' } });
+    expect(screen.getByText('Invalid JSON')).toBeInTheDocument();
+    expect(screen.getByText('Allow')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Tool input'), { target: { value: '[{"todos": []}]' } });
+    expect(screen.getByText('Input must be a JSON object')).toBeInTheDocument();
+    expect(screen.getByText('Allow')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Tool input'), { target: { value: 'null' } });
+    expect(screen.getByText('Allow')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Tool input'), { target: { value: '{"todos": ["a"]}' } });
+    fireEvent.click(screen.getByText('Allow'));
+    expect(mockOnDecision).toHaveBeenCalledWith('req-1', true, false, { todos: ['a'] });
+  });
+
+  it('sends the original input when edits are discarded', () => {
+    render(
+      <PermissionModal
+        request={{ ...defaultRequest, toolInput: { command: 'ls -la' }, editable: true }}
+        onDecision={mockOnDecision}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Edit input before allowing'));
+    fireEvent.change(screen.getByLabelText('Tool input'), { target: { value: 'rm -rf /' } });
+    fireEvent.click(screen.getByText('Discard edits'));
+    fireEvent.click(screen.getByText('Allow'));
+
+    expect(mockOnDecision).toHaveBeenCalledWith('req-1', true, false);
+  });
+
+  it('shows the risk of the request with its reasons', () => {
+    render(
+      <PermissionModal
+        request={{
+          ...defaultRequest,
+          risk: { level: 'critical', reasons: ['Pipes a downloaded script into a shell'] },
+        }}
+        onDecision={mockOnDecision}
+      />
+    );
+
+    expect(screen.getByTestId('permission-risk')).toHaveTextContent('critical risk');
+    expect(screen.getByText('Pipes a downloaded script into a shell')).toBeInTheDocument();
+  });
+
+  it('shows no risk banner for low risk requests', () => {
+    render(
+      <PermissionModal
+        request={{ ...defaultRequest, risk: { level: 'low', reasons: [] } }}
+        onDecision={mockOnDecision}
+      />
+    );
+
+    expect(screen.queryByTestId('permission-risk')).not.toBeInTheDocument();
+  });
+
   it('cleans up interval on unmount', () => {
     const clearIntervalSpy = vi.spyOn(globalThis, 'clearInterval');
 
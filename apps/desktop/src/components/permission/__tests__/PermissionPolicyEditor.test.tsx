@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PermissionPolicyEditor, DEFAULT_PERMISSION_POLICY, isValidRulePattern } from '../PermissionPolicyEditor';
+
+describe('PermissionPolicyEditor', () => {
+  it('shows the tool lists of the policy', () => {
+    render(
+      <PermissionPolicyEditor
+        policy={{ ...DEFAULT_PERMISSION_POLICY, allowedTools: ['Read', 'Glob'], disallowedTools: ['Bash'] }}
+        onChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByPlaceholderText('Read, Glob, Grep')).toHaveValue('Read, Glob');
+    expect(screen.getByPlaceholderText('Bash, Write')).toHaveValue('Bash');
+  });
+
+  it('notes where Cursor cannot deny critical-risk actions', () => {
+    const policy = { ...DEFAULT_PERMISSION_POLICY, denyCritical: true };
+    const { rerender } = render(<PermissionPolicyEditor policy={policy} onChange={vi.fn()} providerType="claude" />);
+    expect(screen.queryByText(/only denied in Default mode/)).not.toBeInTheDocument();
+
+    rerender(<PermissionPolicyEditor policy={policy} onChange={vi.fn()} providerType="cursor" />);
+    expect(screen.getByText(/only denied in Default mode/)).toBeInTheDocument();
+  });
+
+  it('warns that tool calls in a forced Cursor resume may run before they are stopped', () => {
+    const { rerender } = render(
+      <PermissionPolicyEditor policy={DEFAULT_PERMISSION_POLICY} onChange={vi.fn()} providerType="codex" />
+    );
+    expect(screen.queryByText(/may already have partly run/)).not.toBeInTheDocument();
+
+    rerender(<PermissionPolicyEditor policy={DEFAULT_PERMISSION_POLICY} onChange={vi.fn()} providerType="cursor" />);
+    expect(screen.getByText(/may already have partly run/)).toBeInTheDocument();
+  });
+
+  it('parses comma separated tool names', () => {
+    const onChange = vi.fn();
+    render(<PermissionPolicyEditor policy={DEFAULT_PERMISSION_POLICY} onChange={onChange} />);
+
+    fireEvent.change(screen.getByPlaceholderText('Bash, Write'), { target: { value: 'Bash, Write,, ' } });
+
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_PERMISSION_POLICY, disallowedTools: ['Bash', 'Write'] });
+  });
+
+  it('updates auto-approve and timeout', () => {
+    const onChange = vi.fn();
+    render(<PermissionPolicyEditor policy={DEFAULT_PERMISSION_POLICY} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText('Approve all other tools without asking'));
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_PERMISSION_POLICY, autoApprove: true });
+
+    fireEvent.click(screen.getByLabelText(/Deny critical-risk actions/));
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_PERMISSION_POLICY, denyCritical: true });
+
+    fireEvent.change(screen.getByRole('spinbutton'), { target: { value: '-5' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_PERMISSION_POLICY, timeoutSeconds: 0 });
+
+    fireEvent.change(screen.getByRole('spinbutton'), { target: { value: '30' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_PERMISSION_POLICY, timeoutSeconds: 30 });
+  });
+
+  it('adds, edits and reorders pattern rules', () => {
+    const onChange = vi.fn();
+    const rules = [
+      { pattern: 'Bash(git status*)', decision: 'allow' as const },
+      { pattern: 'Bash(rm -rf*)', decision: 'deny' as const },
+    ];
+    render(<PermissionPolicyEditor policy={{ ...DEFAULT_PERMISSION_POLICY, rules }} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('+ Add rule'));
+    expect(onChange).toHaveBeenLastCalledWith({
+      ...DEFAULT_PERMISSION_POLICY,
+      rules: [...rules, { pattern: '', decision: 'allow' }],
+    });
+
+    fireEvent.change(screen.getByLabelText('Rule 1 decision'), { target: { value: 'deny' } });
+    expect(onChange).toHaveBeenLastCalledWith({
+      ...DEFAULT_PERMISSION_POLICY,
+      rules: [{ ...rules[0], decision: 'deny' }, rules[1]],
+    });
+
+    fireEvent.click(screen.getAllByTitle('Move up')[1]);
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_PERMISSION_POLICY, rules: [rules[1], rules[0]] });
+
+    fireEvent.click(screen.getAllByTitle('Remove rule')[0]);
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_PERMISSION_POLICY, rules: [rules[1]] });
+  });
+
+  it('validates the shape of rule patterns', () => {
+    expect(isValidRulePattern('Bash')).toBe(true);
+    expect(isValidRulePattern('Read(~/.ssh/**)')).toBe(true);
+    expect(isValidRulePattern('Bash(ls')).toBe(false);
+    expect(isValidRulePattern('two words')).toBe(false);
+  });
+});
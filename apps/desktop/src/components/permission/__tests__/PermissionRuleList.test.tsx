@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { PermissionRuleList } from '../PermissionRuleList';
+import * as api from '../../../services/api';
+
+vi.mock('../../../services/api', () => ({
+  getPermissionRules: vi.fn(),
+  deletePermissionRule: vi.fn(),
+}));
+
+describe('PermissionRuleList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getPermissionRules).mockResolvedValue([
+      { id: 'r1', projectId: 'project-1', tool: 'Bash', input: 'npm test', decision: 'allow', createdAt: 2000 },
+      { id: 'r2', projectId: 'project-1', tool: 'Write', input: '/etc/hosts', decision: 'deny', createdAt: 1000 },
+    ]);
+    vi.mocked(api.deletePermissionRule).mockResolvedValue(undefined);
+  });
+
+  it('lists the remembered decisions of the project', async () => {
+    render(<PermissionRuleList projectId="project-1" />);
+
+    expect(await screen.findByText('npm test')).toBeInTheDocument();
+    expect(screen.getByText('/etc/hosts')).toBeInTheDocument();
+    expect(screen.getByText('allow')).toBeInTheDocument();
+    expect(screen.getByText('deny')).toBeInTheDocument();
+    expect(api.getPermissionRules).toHaveBeenCalledWith('project-1');
+  });
+
+  it('revokes a rule', async () => {
+    render(<PermissionRuleList projectId="project-1" />);
+    await screen.findByText('npm test');
+
+    fireEvent.click(screen.getAllByText('Revoke')[0]);
+
+    await waitFor(() => {
+      expect(screen.queryByText('npm test')).not.toBeInTheDocument();
+    });
+    expect(api.deletePermissionRule).toHaveBeenCalledWith('project-1', 'r1');
+    expect(screen.getByText('/etc/hosts')).toBeInTheDocument();
+  });
+
+  it('shows a hint when nothing is remembered', async () => {
+    vi.mocked(api.getPermissionRules).mockResolvedValue([]);
+
+    render(<PermissionRuleList projectId="project-1" />);
+
+    expect(await screen.findByText(/No remembered decisions/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PermissionRuleTester, buildSampleInput } from '../PermissionRuleTester';
+import * as api from '../../../services/api';
+
+vi.mock('../../../services/api', () => ({
+  testPermissionPolicy: vi.fn(),
+}));
+
+const policy = {
+  allowedTools: [],
+  disallowedTools: [],
+  autoApprove: false,
+  timeoutSeconds: 0,
+  rules: [
+    { pattern: 'Bash(git status*)', decision: 'allow' as const },
+    { pattern: 'Bash(rm -rf*)', decision: 'deny' as const },
+  ],
+};
+
+describe('PermissionRuleTester', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the rule that would fire', async () => {
+    vi.mocked(api.testPermissionPolicy).mockResolvedValue({ decision: 'deny', source: 'rule', ruleIndex: 1 });
+    render(<PermissionRuleTester projectId="project-1" policy={policy} />);
+
+    fireEvent.change(screen.getByLabelText('Sample input'), { target: { value: 'rm -rf build' } });
+    fireEvent.click(screen.getByText('Test'));
+
+    expect(await screen.findByText('Rule 2 (Bash(rm -rf*)) would deny')).toBeInTheDocument();
+    expect(api.testPermissionPolicy).toHaveBeenCalledWith('project-1', policy, 'Bash', { command: 'rm -rf build' });
+  });
+
+  it('says when the user would be asked', async () => {
+    vi.mocked(api.testPermissionPolicy).mockResolvedValue({ source: 'none' });
+    render(<PermissionRuleTester projectId="project-1" policy={policy} />);
+
+    fireEvent.click(screen.getByText('Test'));
+
+    expect(await screen.findByText('No rule matches; you would be asked')).toBeInTheDocument();
+  });
+
+  it('builds the sample tool input', () => {
+    expect(buildSampleInput('Bash', ' ls ')).toEqual({ command: 'ls' });
+    expect(buildSampleInput('Write', 'src/a.ts')).toEqual({ file_path: 'src/a.ts' });
+    expect(buildSampleInput('Grep', '{"pattern":"x","path":"src"}')).toEqual({ pattern: 'x', path: 'src' });
+  });
+});
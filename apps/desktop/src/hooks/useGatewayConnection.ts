@@ -15,6 +15,7 @@ import { useProjectStore } from '../stores/projectStore';
 import { usePermissionStore } from '../stores/permissionStore';
 import { GatewayTransport } from './transport/GatewayTransport';
 import { toGatewayServerId, isGatewayTarget, parseBackendId } from '../stores/gatewayStore';
+import { budgetWarningText } from '../utils/budget';
 
 const RECONNECT_INTERVAL = 3000;
 const MAX_RECONNECT_ATTEMPTS = 10;
@@ -47,8 +48,10 @@ export function useGatewayConnection() {
   const {
     addMessage,
     appendToLastMessage,
+    appendThinkingToLastMessage,
     setLoading,
     setCurrentRunId,
+    acceptRunEvent,
     addToolCall,
     updateToolCallResult,
     clearToolCalls,
@@ -58,7 +61,7 @@ export function useGatewayConnection() {
   } = useChatStore();
 
   const { selectedSessionId } = useProjectStore();
-  const { setPendingRequest } = usePermissionStore();
+  const { addRequest, resolveRequest } = usePermissionStore();
 
   // Keep session ref in sync
   useEffect(() => {
@@ -84,6 +87,12 @@ export function useGatewayConnection() {
       msg = message;
     }
 
+    // Skip run events that were already applied (replay after reattach)
+    if ('seq' in msg && msg.seq !== undefined &&
+        !acceptRunEvent(msg.runId, msg.seq, msg.type === 'run_started')) {
+      return;
+    }
+
     switch (msg.type) {
       case 'auth_result':
         if (msg.success) {
@@ -107,6 +116,12 @@ export function useGatewayConnection() {
         }
         break;
 
+      case 'thinking_delta':
+        if (serverId === currentActiveId && currentSessionId) {
+          appendThinkingToLastMessage(currentSessionId, msg.content);
+        }
+        break;
+
       case 'run_started':
         if (serverId === currentActiveId) {
           setLoading(true);
@@ -141,11 +156,39 @@ export function useGatewayConnection() {
           setCurrentRunId(null);
           if (currentSessionId) {
             finalizeToolCallsToMessage(currentSessionId);
+            // Failures with a code, like budget stops, are explained in the chat
+            if (msg.code) {
+              addMessage(currentSessionId, {
+                id: crypto.randomUUID(),
+                sessionId: currentSessionId,
+                role: 'system',
+                content: msg.error,
+                createdAt: Date.now()
+              });
+            }
           }
           console.error(`[GatewayConn:${backendId}] Run failed:`, msg.error);
         }
         break;
 
+      case 'run_cancelled':
+        if (serverId === currentActiveId) {
+          setLoading(false);
+          setCurrentRunId(null);
+          if (currentSessionId) {
+            finalizeToolCallsToMessage(currentSessionId);
+          }
+        }
+        break;
+
+      case 'run_attached':
+        // Nothing is running for this session (anymore); stop waiting for a run
+        if (serverId === currentActiveId && msg.sessionId === currentSessionId && !msg.isRunning) {
+          setLoading(false);
+          setCurrentRunId(null);
+        }
+        break;
+
       case 'tool_use':
         if (serverId === currentActiveId) {
           addToolCall(msg.toolUseId, msg.toolName, msg.toolInput);
@@ -159,12 +202,35 @@ export function useGatewayConnection() {
         break;
 
       case 'permission_request':
-        if (serverId === currentActiveId) {
-          setPendingRequest({
-            requestId: msg.requestId,
-            toolName: msg.toolName,
-            detail: msg.detail,
-            timeoutSec: msg.timeoutSeconds
+        // Requests of every backend are queued for the inbox, not only the active one's
+        addRequest({
+          requestId: msg.requestId,
+          toolName: msg.toolName,
+          detail: msg.detail,
+          toolInput: msg.toolInput,
+          editable: msg.editable,
+          risk: msg.risk,
+          timeoutSec: msg.timeoutSeconds,
+          serverId,
+          sessionId: msg.sessionId,
+          sessionName: msg.sessionName,
+          projectName: msg.projectName
+        });
+        break;
+
+      case 'permission_resolved':
+        // Decided on another client or timed out on the server
+        resolveRequest(msg.requestId);
+        break;
+
+      case 'budget_warning':
+        if (serverId === currentActiveId && currentSessionId) {
+          addMessage(currentSessionId, {
+            id: crypto.randomUUID(),
+            sessionId: currentSessionId,
+            role: 'system',
+            content: budgetWarningText(msg.usage, msg.threshold),
+            createdAt: Date.now()
           });
         }
         break;
@@ -185,13 +251,16 @@ export function useGatewayConnection() {
   }, [
     addMessage,
     appendToLastMessage,
+    appendThinkingToLastMessage,
     setLoading,
     setCurrentRunId,
+    acceptRunEvent,
     addToolCall,
     updateToolCallResult,
     clearToolCalls,
     finalizeToolCallsToMessage,
-    setPendingRequest,
+    addRequest,
+    resolveRequest,
     setSystemInfo,
     clearSystemInfo,
     setServerConnectionStatus,
@@ -17,6 +17,7 @@ import type { Transport } from './transport/BaseTransport';
 import { getApiKeyInfo } from '../services/api';
 import { useGatewayConnection } from './useGatewayConnection';
 import { isGatewayTarget, parseBackendId } from '../stores/gatewayStore';
+import { budgetWarningText } from '../utils/budget';
 
 const RECONNECT_INTERVAL = 3000;
 const MAX_RECONNECT_ATTEMPTS = 10;
@@ -42,8 +43,10 @@ export function useMultiServerSocket() {
   const {
     addMessage,
     appendToLastMessage,
+    appendThinkingToLastMessage,
     setLoading,
     setCurrentRunId,
+    acceptRunEvent,
     addToolCall,
     updateToolCallResult,
     clearToolCalls,
@@ -63,7 +66,7 @@ export function useMultiServerSocket() {
     setApiKey
   } = useServerStore();
 
-  const { setPendingRequest } = usePermissionStore();
+  const { addRequest, resolveRequest } = usePermissionStore();
 
   // Keep ref in sync with state
   useEffect(() => {
@@ -88,6 +91,12 @@ export function useMultiServerSocket() {
         message = rawMessage as ServerMessage;
       }
 
+      // Skip run events that were already applied (replay after reattach)
+      if ('seq' in message && message.seq !== undefined &&
+          !acceptRunEvent(message.runId, message.seq, message.type === 'run_started')) {
+        return;
+      }
+
       switch (message.type) {
         case 'auth_result':
           setServerConnectionStatus(serverId, 'connected');
@@ -125,6 +134,12 @@ export function useMultiServerSocket() {
           }
           break;
 
+        case 'thinking_delta':
+          if (serverId === activeServerId && currentSessionId) {
+            appendThinkingToLastMessage(currentSessionId, message.content);
+          }
+          break;
+
         case 'run_started':
           if (serverId === activeServerId) {
             setLoading(true);
@@ -159,11 +174,39 @@ export function useMultiServerSocket() {
             setCurrentRunId(null);
             if (currentSessionId) {
               finalizeToolCallsToMessage(currentSessionId);
+              // Failures with a code, like budget stops, are explained in the chat
+              if (message.code) {
+                addMessage(currentSessionId, {
+                  id: crypto.randomUUID(),
+                  sessionId: currentSessionId,
+                  role: 'system',
+                  content: message.error,
+                  createdAt: Date.now()
+                });
+              }
             }
             console.error(`[Socket:${serverId}] Run failed:`, message.error);
           }
           break;
 
+        case 'run_cancelled':
+          if (serverId === activeServerId) {
+            setLoading(false);
+            setCurrentRunId(null);
+            if (currentSessionId) {
+              finalizeToolCallsToMessage(currentSessionId);
+            }
+          }
+          break;
+
+        case 'run_attached':
+          // Nothing is running for this session (anymore); stop waiting for a run
+          if (serverId === activeServerId && message.sessionId === currentSessionId && !message.isRunning) {
+            setLoading(false);
+            setCurrentRunId(null);
+          }
+          break;
+
         case 'tool_use':
           if (serverId === activeServerId) {
             addToolCall(message.toolUseId, message.toolName, message.toolInput);
@@ -177,12 +220,35 @@ export function useMultiServerSocket() {
           break;
 
         case 'permission_request':
-          if (serverId === activeServerId) {
-            setPendingRequest({
-              requestId: message.requestId,
-              toolName: message.toolName,
-              detail: message.detail,
-              timeoutSec: message.timeoutSeconds
+          // Requests of every server are queued for the inbox, not only the active one's
+          addRequest({
+            requestId: message.requestId,
+            toolName: message.toolName,
+            detail: message.detail,
+            toolInput: message.toolInput,
+            editable: message.editable,
+            risk: message.risk,
+            timeoutSec: message.timeoutSeconds,
+            serverId,
+            sessionId: message.sessionId,
+            sessionName: message.sessionName,
+            projectName: message.projectName
+          });
+          break;
+
+        case 'permission_resolved':
+          // Decided on another client or timed out on the server
+          resolveRequest(message.requestId);
+          break;
+
+        case 'budget_warning':
+          if (serverId === activeServerId && currentSessionId) {
+            addMessage(currentSessionId, {
+              id: crypto.randomUUID(),
+              sessionId: currentSessionId,
+              role: 'system',
+              content: budgetWarningText(message.usage, message.threshold),
+              createdAt: Date.now()
             });
           }
           break;
@@ -206,13 +272,16 @@ export function useMultiServerSocket() {
     servers,
     addMessage,
     appendToLastMessage,
+    appendThinkingToLastMessage,
     setLoading,
     setCurrentRunId,
+    acceptRunEvent,
     addToolCall,
     updateToolCallResult,
     clearToolCalls,
     finalizeToolCallsToMessage,
-    setPendingRequest,
+    addRequest,
+    resolveRequest,
     setSystemInfo,
     clearSystemInfo,
     setServerConnectionStatus,
@@ -0,0 +1,34 @@
+import { useCallback } from 'react';
+import type { ClientMessage } from '@my-claudia/shared';
+import { useConnection } from '../contexts/ConnectionContext';
+import { usePermissionStore } from '../stores/permissionStore';
+
+/**
+ * Send a permission decision to the server the request came from
+ * and drop the request from the queue.
+ */
+export function usePermissionDecision() {
+  const { sendMessage, sendToServer } = useConnection();
+  const resolveRequest = usePermissionStore((state) => state.resolveRequest);
+
+  return useCallback(
+    (requestId: string, allow: boolean, remember?: boolean, updatedInput?: unknown) => {
+      const request = usePermissionStore.getState().pendingRequests.find((r) => r.requestId === requestId);
+      const message: ClientMessage = {
+        type: 'permission_decision',
+        requestId,
+        allow,
+        remember,
+        updatedInput
+      };
+
+      if (request?.serverId) {
+        sendToServer(request.serverId, message);
+      } else {
+        sendMessage(message);
+      }
+      resolveRequest(requestId);
+    },
+    [sendMessage, sendToServer, resolveRequest]
+  );
+}
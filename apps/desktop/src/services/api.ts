@@ -1,8 +1,17 @@
 import type {
+  AgentSettings,
   Project,
   Session,
   Message,
   ProviderConfig,
+  ProviderCapabilities,
+  ProviderRun,
+  PermissionLog,
+  PermissionLogFilter,
+  PermissionRule,
+  PermissionPolicy,
+  PermissionPolicyResult,
+  StreamJsonConfig,
   BackendServer,
   SlashCommand,
   ApiResponse,
@@ -12,7 +21,10 @@ import type {
   ApiKeyInfo,
   ServerInfo,
   ServerGatewayConfig,
-  ServerGatewayStatus
+  ServerGatewayStatus,
+  UsageReport,
+  UsageReportFilter,
+  BudgetUsage
 } from '@my-claudia/shared';
 import { useServerStore } from '../stores/serverStore';
 import { useGatewayStore, isGatewayTarget, parseBackendId } from '../stores/gatewayStore';
@@ -197,6 +209,59 @@ export async function deleteProject(id: string): Promise<void> {
   }
 }
 
+export async function getProjectPermissionLogs(
+  projectId: string,
+  filter: PermissionLogFilter = {}
+): Promise<PermissionLog[]> {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+
+  const query = params.toString() ? `?${params.toString()}` : '';
+  const result = await fetchApi<PermissionLog[]>(`/api/projects/${projectId}/permissions${query}`);
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to fetch permission logs');
+  }
+  return result.data;
+}
+
+export async function testPermissionPolicy(
+  projectId: string,
+  policy: PermissionPolicy,
+  toolName: string,
+  toolInput: unknown
+): Promise<PermissionPolicyResult> {
+  const result = await fetchApi<PermissionPolicyResult>(`/api/projects/${projectId}/permission-policy/test`, {
+    method: 'POST',
+    body: JSON.stringify({ policy, toolName, toolInput })
+  });
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to test permission policy');
+  }
+  return result.data;
+}
+
+export async function getPermissionRules(projectId: string): Promise<PermissionRule[]> {
+  const result = await fetchApi<PermissionRule[]>(`/api/projects/${projectId}/permission-rules`);
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to fetch permission rules');
+  }
+  return result.data;
+}
+
+export async function deletePermissionRule(projectId: string, ruleId: string): Promise<void> {
+  const result = await fetchApi<void>(`/api/projects/${projectId}/permission-rules/${ruleId}`, {
+    method: 'DELETE'
+  });
+  if (!result.success) {
+    throw new Error(result.error?.message || 'Failed to revoke permission rule');
+  }
+}
+
 // ============================================
 // Sessions API
 // ============================================
@@ -281,6 +346,26 @@ export async function getSessionMessages(
   return result.data;
 }
 
+export async function getSessionRuns(sessionId: string, limit?: number): Promise<ProviderRun[]> {
+  const query = limit ? `?limit=${limit}` : '';
+  const result = await fetchApi<ProviderRun[]>(`/api/sessions/${sessionId}/runs${query}`);
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to fetch runs');
+  }
+  return result.data;
+}
+
+export async function getSessionPermissionLogs(sessionId: string, limit?: number): Promise<PermissionLog[]> {
+  const query = limit ? `?limit=${limit}` : '';
+  const result = await fetchApi<PermissionLog[]>(`/api/sessions/${sessionId}/permissions${query}`);
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to fetch permission logs');
+  }
+  return result.data;
+}
+
 // ============================================
 // Providers API
 // ============================================
@@ -293,11 +378,21 @@ export async function getProviders(): Promise<ProviderConfig[]> {
   return result.data;
 }
 
+export async function getProvider(id: string): Promise<ProviderConfig> {
+  const result = await fetchLocalApi<ProviderConfig>(`/api/providers/${id}`);
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to fetch provider');
+  }
+  return result.data;
+}
+
 export async function createProvider(data: {
   name: string;
   type?: string;
   cliPath?: string;
   env?: Record<string, string>;
+  streamJson?: StreamJsonConfig;
+  agentSettings?: AgentSettings;
   isDefault?: boolean;
 }): Promise<ProviderConfig> {
   const result = await fetchLocalApi<ProviderConfig>('/api/providers', {
@@ -365,6 +460,60 @@ export async function getProviderTypeCommands(
   return result.data;
 }
 
+export async function getProviderTypeCapabilities(providerType: string): Promise<ProviderCapabilities> {
+  const result = await fetchLocalApi<ProviderCapabilities>(`/api/providers/type/${providerType}/capabilities`);
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to fetch provider capabilities');
+  }
+  return result.data;
+}
+
+// ============================================
+// Usage API
+// ============================================
+
+function usageQuery(filter: UsageReportFilter): string {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return params.toString() ? `?${params.toString()}` : '';
+}
+
+export async function getUsageReport(filter: UsageReportFilter = {}): Promise<UsageReport> {
+  const result = await fetchApi<UsageReport>(`/api/usage${usageQuery(filter)}`);
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to fetch usage report');
+  }
+  return result.data;
+}
+
+// Current usage of the daily and monthly limits of a project budget
+export async function getProjectBudget(projectId: string): Promise<BudgetUsage[]> {
+  const result = await fetchApi<BudgetUsage[]>(`/api/projects/${projectId}/budget`);
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Failed to fetch project budget');
+  }
+  return result.data;
+}
+
+// One CSV row per run of the active server
+export async function exportUsageCsv(filter: UsageReportFilter = {}): Promise<string> {
+  const response = await fetch(`${getBaseUrl()}/api/usage/runs.csv${usageQuery(filter)}`, {
+    headers: getAuthHeaders()
+  });
+
+  if (response.status === 401) {
+    throw new AuthError('Authentication required');
+  }
+  if (!response.ok) {
+    throw new Error(`Export failed with status ${response.status}`);
+  }
+  return response.text();
+}
+
 // ============================================
 // Files API (for @ mentions)
 // ============================================
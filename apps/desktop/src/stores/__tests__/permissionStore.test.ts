@@ -5,6 +5,7 @@ describe('permissionStore', () => {
   beforeEach(() => {
     // Reset store state before each test
     usePermissionStore.setState({
+      pendingRequests: [],
       pendingRequest: null,
     });
   });
@@ -53,4 +54,49 @@ describe('permissionStore', () => {
 
     expect(usePermissionStore.getState().pendingRequest).toBeNull();
   });
+
+  it('resolveRequest clears the matching request', () => {
+    usePermissionStore.getState().setPendingRequest(createRequest({ requestId: 'req-1' }));
+    usePermissionStore.getState().resolveRequest('req-1');
+
+    expect(usePermissionStore.getState().pendingRequest).toBeNull();
+  });
+
+  it('resolveRequest keeps a different pending request', () => {
+    const request = createRequest({ requestId: 'req-2' });
+    usePermissionStore.getState().setPendingRequest(request);
+    usePermissionStore.getState().resolveRequest('req-1');
+
+    expect(usePermissionStore.getState().pendingRequest).toEqual(request);
+  });
+
+  it('addRequest queues requests without showing them', () => {
+    usePermissionStore.getState().addRequest(createRequest({ requestId: 'req-1', serverId: 'local' }));
+    usePermissionStore.getState().addRequest(createRequest({ requestId: 'req-2', serverId: 'other' }));
+    usePermissionStore.getState().addRequest(createRequest({ requestId: 'req-1', serverId: 'local' }));
+
+    const state = usePermissionStore.getState();
+    expect(state.pendingRequests.map((r) => r.requestId)).toEqual(['req-1', 'req-2']);
+    expect(state.pendingRequests[0].receivedAt).toEqual(expect.any(Number));
+    expect(state.pendingRequest).toBeNull();
+  });
+
+  it('resolveRequest drops the request from the queue', () => {
+    usePermissionStore.getState().addRequest(createRequest({ requestId: 'req-1' }));
+    usePermissionStore.getState().addRequest(createRequest({ requestId: 'req-2' }));
+    usePermissionStore.getState().setPendingRequest(usePermissionStore.getState().pendingRequests[1]);
+
+    usePermissionStore.getState().resolveRequest('req-2');
+
+    const state = usePermissionStore.getState();
+    expect(state.pendingRequests.map((r) => r.requestId)).toEqual(['req-1']);
+    expect(state.pendingRequest).toBeNull();
+  });
+
+  it('clearRequest keeps the request in the queue', () => {
+    usePermissionStore.getState().setPendingRequest(createRequest({ requestId: 'req-1' }));
+    usePermissionStore.getState().clearRequest();
+
+    expect(usePermissionStore.getState().pendingRequests.map((r) => r.requestId)).toEqual(['req-1']);
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { useChatStore } from './chatStore';
+import { useChatStore, getMessageToolCalls } from './chatStore';
 import type { Message } from '@my-claudia/shared';
 
 describe('chatStore', () => {
@@ -10,6 +10,7 @@ describe('chatStore', () => {
       pagination: {},
       isLoading: false,
       currentRunId: null,
+      lastEventSeq: 0,
     });
   });
 
@@ -119,6 +120,50 @@ describe('chatStore', () => {
         'AI Response'
       );
     });
+
+    it('keeps the identity of earlier messages so they skip re-rendering', () => {
+      const message1 = createMessage({ id: '1', role: 'user', content: 'User' });
+      const message2 = createMessage({ id: '2', role: 'assistant', content: '' });
+
+      useChatStore.getState().setMessages('session-1', [message1, message2]);
+      useChatStore.getState().appendToLastMessage('session-1', 'Hel');
+      useChatStore.getState().appendToLastMessage('session-1', 'lo');
+
+      const messages = useChatStore.getState().messages['session-1'];
+      expect(messages[0]).toBe(message1);
+      expect(messages[1].content).toBe('Hello');
+    });
+  });
+
+  describe('appendThinkingToLastMessage', () => {
+    it('collects thinking in the metadata of the last assistant message', () => {
+      useChatStore.getState().setMessages('session-1', [
+        createMessage({
+          role: 'assistant',
+          content: 'Answer',
+          metadata: { usage: { inputTokens: 1, outputTokens: 2 } },
+        }),
+      ]);
+
+      useChatStore.getState().appendThinkingToLastMessage('session-1', 'First, ');
+      useChatStore.getState().appendThinkingToLastMessage('session-1', 'then');
+
+      const [message] = useChatStore.getState().messages['session-1'];
+      expect(message.content).toBe('Answer');
+      expect(message.metadata).toEqual({
+        usage: { inputTokens: 1, outputTokens: 2 },
+        thinking: 'First, then',
+      });
+    });
+
+    it('ignores thinking when the last message is from the user', () => {
+      const user = createMessage({ role: 'user' });
+      useChatStore.getState().setMessages('session-1', [user]);
+
+      useChatStore.getState().appendThinkingToLastMessage('session-1', 'stray');
+
+      expect(useChatStore.getState().messages['session-1'][0]).toBe(user);
+    });
   });
 
   describe('clearMessages', () => {
@@ -166,6 +211,32 @@ describe('chatStore', () => {
     });
   });
 
+  describe('acceptRunEvent', () => {
+    it('skips events of the current run that were already applied', () => {
+      useChatStore.setState({ currentRunId: 'run-1', lastEventSeq: 0 });
+      const { acceptRunEvent } = useChatStore.getState();
+
+      expect(acceptRunEvent('run-1', 1, false)).toBe(true);
+      expect(acceptRunEvent('run-1', 2, false)).toBe(true);
+      expect(acceptRunEvent('run-1', 2, false)).toBe(false);
+      expect(acceptRunEvent('run-1', 1, false)).toBe(false);
+      expect(useChatStore.getState().lastEventSeq).toBe(2);
+    });
+
+    it('accepts run_started to restart a replay', () => {
+      useChatStore.setState({ currentRunId: 'run-1', lastEventSeq: 5 });
+
+      expect(useChatStore.getState().acceptRunEvent('run-1', 1, true)).toBe(true);
+      expect(useChatStore.getState().acceptRunEvent('run-1', 2, false)).toBe(true);
+    });
+
+    it('accepts events of other runs', () => {
+      useChatStore.setState({ currentRunId: 'run-1', lastEventSeq: 5 });
+
+      expect(useChatStore.getState().acceptRunEvent('run-2', 3, false)).toBe(true);
+    });
+  });
+
   describe('pagination', () => {
     it('sets pagination with setMessages', () => {
       const messages = [createMessage()];
@@ -221,4 +292,45 @@ describe('chatStore', () => {
       expect(pagination?.newestTimestamp).toBe(timestamp);
     });
   });
+
+  describe('getMessageToolCalls', () => {
+    it('prefers the live tool calls of the message', () => {
+      const message = {
+        ...createMessage({ role: 'assistant' }),
+        toolCalls: [{ id: 't1', toolName: 'Read', toolInput: {}, status: 'running' as const }],
+      };
+
+      expect(getMessageToolCalls(message)).toBe(message.toolCalls);
+    });
+
+    it('restores tool calls saved in the metadata', () => {
+      const message = createMessage({
+        id: 'msg-1',
+        role: 'assistant',
+        metadata: {
+          toolCalls: [
+            { id: 't1', name: 'Bash', input: { command: 'ls' }, output: 'a.txt', startedAt: 100, completedAt: 150 },
+            { name: 'Read', input: { file_path: '/x' }, output: 'no such file', isError: true },
+          ],
+        },
+      });
+
+      const toolCalls = getMessageToolCalls(message);
+
+      expect(toolCalls).toHaveLength(2);
+      expect(toolCalls[0]).toMatchObject({
+        id: 't1',
+        toolName: 'Bash',
+        status: 'completed',
+        result: 'a.txt',
+        startedAt: 100,
+        completedAt: 150,
+      });
+      expect(toolCalls[1]).toMatchObject({ id: 'msg-1-1', toolName: 'Read', status: 'error', isError: true });
+    });
+
+    it('returns an empty list for messages without tool calls', () => {
+      expect(getMessageToolCalls(createMessage())).toEqual([]);
+    });
+  });
 });
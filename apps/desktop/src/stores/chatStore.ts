@@ -17,6 +17,8 @@ export interface ToolCallState {
   status: 'running' | 'completed' | 'error';
   result?: unknown;
   isError?: boolean;
+  startedAt?: number;
+  completedAt?: number;
 }
 
 // Extended message with tool calls for display
@@ -24,6 +26,23 @@ export interface MessageWithToolCalls extends Message {
   toolCalls?: ToolCallState[];
 }
 
+// Tool calls of a message: the live ones of the current run, or the ones saved in its metadata
+export function getMessageToolCalls(message: MessageWithToolCalls): ToolCallState[] {
+  if (message.toolCalls) {
+    return message.toolCalls;
+  }
+  return (message.metadata?.toolCalls || []).map((tc, index) => ({
+    id: tc.id || `${message.id}-${index}`,
+    toolName: tc.name,
+    toolInput: tc.input,
+    status: tc.isError ? 'error' : 'completed',
+    result: tc.output,
+    isError: tc.isError,
+    startedAt: tc.startedAt,
+    completedAt: tc.completedAt,
+  }));
+}
+
 interface ChatState {
   // Messages grouped by session ID
   messages: Record<string, MessageWithToolCalls[]>;
@@ -31,6 +50,8 @@ interface ChatState {
   pagination: Record<string, PaginationInfo>;
   isLoading: boolean;
   currentRunId: string | null;
+  // Sequence number of the last applied event of the current run
+  lastEventSeq: number;
   // Active tool calls for current run (keyed by tool_use_id)
   activeToolCalls: Record<string, ToolCallState>;
   // Tool calls history for current run (preserves order)
@@ -45,11 +66,13 @@ interface ChatState {
   prependMessages: (sessionId: string, messages: MessageWithToolCalls[], pagination?: Omit<PaginationInfo, 'isLoadingMore'>) => void;
   addMessage: (sessionId: string, message: MessageWithToolCalls) => void;
   appendToLastMessage: (sessionId: string, content: string) => void;
+  appendThinkingToLastMessage: (sessionId: string, content: string) => void;
   clearMessages: (sessionId: string) => void;
 
   setLoading: (loading: boolean) => void;
   setLoadingMore: (sessionId: string, loading: boolean) => void;
   setCurrentRunId: (runId: string | null) => void;
+  acceptRunEvent: (runId: string | undefined, seq: number, isRunStart: boolean) => boolean;
 
   // Tool call actions
   addToolCall: (toolUseId: string, toolName: string, toolInput: unknown) => void;
@@ -80,6 +103,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
   pagination: {},
   isLoading: false,
   currentRunId: null,
+  lastEventSeq: 0,
   activeToolCalls: {},
   toolCallsHistory: [],
   currentSystemInfo: null,
@@ -146,6 +170,25 @@ export const useChatStore = create<ChatState>((set, get) => ({
       };
     }),
 
+  appendThinkingToLastMessage: (sessionId, content) =>
+    set((state) => {
+      const sessionMessages = state.messages[sessionId] || [];
+      if (sessionMessages.length === 0) return state;
+
+      const lastMessage = sessionMessages[sessionMessages.length - 1];
+      if (lastMessage.role !== 'assistant') return state;
+
+      const metadata = lastMessage.metadata || {};
+      const updatedMessages = [
+        ...sessionMessages.slice(0, -1),
+        { ...lastMessage, metadata: { ...metadata, thinking: (metadata.thinking || '') + content } },
+      ];
+
+      return {
+        messages: { ...state.messages, [sessionId]: updatedMessages },
+      };
+    }),
+
   clearMessages: (sessionId) =>
     set((state) => ({
       messages: { ...state.messages, [sessionId]: [] },
@@ -167,6 +210,18 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
   setCurrentRunId: (runId) => set({ currentRunId: runId }),
 
+  // Returns false for events of the current run that were already applied, which
+  // happens when a replay after reattaching overlaps with live events.
+  // run_started always passes: it begins a (re)play from scratch.
+  acceptRunEvent: (runId, seq, isRunStart) => {
+    const { currentRunId, lastEventSeq } = get();
+    if (!isRunStart && runId === currentRunId && seq <= lastEventSeq) {
+      return false;
+    }
+    set({ lastEventSeq: seq });
+    return true;
+  },
+
   // Tool call actions
   addToolCall: (toolUseId, toolName, toolInput) =>
     set((state) => {
@@ -175,6 +230,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
         toolName,
         toolInput,
         status: 'running',
+        startedAt: Date.now(),
       };
       return {
         activeToolCalls: {
@@ -195,6 +251,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
         status: isError ? 'error' as const : 'completed' as const,
         result,
         isError,
+        completedAt: Date.now(),
       };
 
       return {
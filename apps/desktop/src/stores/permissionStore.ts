@@ -1,24 +1,66 @@
 import { create } from 'zustand';
+import type { PermissionRisk } from '@my-claudia/shared';
 
 export interface PermissionRequest {
   requestId: string;
   toolName: string;
   detail: string;
+  toolInput?: unknown;
+  editable?: boolean;  // The input can be edited before approving
+  risk?: PermissionRisk;
   timeoutSec: number;
+  // Where the request comes from
+  serverId?: string;
+  sessionId?: string;
+  sessionName?: string;
+  projectName?: string;
+  receivedAt?: number;
 }
 
 interface PermissionState {
+  // Every undecided request, oldest first
+  pendingRequests: PermissionRequest[];
+  // The request shown in the permission modal
   pendingRequest: PermissionRequest | null;
 
   // Actions
+  // Queue a request for the inbox
+  addRequest: (request: PermissionRequest) => void;
+  // Show a request in the modal (null closes the modal)
   setPendingRequest: (request: PermissionRequest | null) => void;
+  // Close the modal; the request stays in the inbox
   clearRequest: () => void;
+  // Drop a request that was decided or timed out
+  resolveRequest: (requestId: string) => void;
 }
 
-export const usePermissionStore = create<PermissionState>((set) => ({
+export const usePermissionStore = create<PermissionState>((set, get) => ({
+  pendingRequests: [],
   pendingRequest: null,
 
-  setPendingRequest: (request) => set({ pendingRequest: request }),
+  addRequest: (request) => {
+    const { pendingRequests } = get();
+    if (pendingRequests.some((r) => r.requestId === request.requestId)) return;
+
+    set({
+      pendingRequests: [...pendingRequests, { ...request, receivedAt: request.receivedAt ?? Date.now() }],
+    });
+  },
+
+  setPendingRequest: (request) => {
+    if (request && !get().pendingRequests.some((r) => r.requestId === request.requestId)) {
+      set({ pendingRequests: [...get().pendingRequests, request] });
+    }
+    set({ pendingRequest: request });
+  },
 
   clearRequest: () => set({ pendingRequest: null }),
+
+  resolveRequest: (requestId) => {
+    const { pendingRequests, pendingRequest } = get();
+    set({
+      pendingRequests: pendingRequests.filter((r) => r.requestId !== requestId),
+      pendingRequest: pendingRequest?.requestId === requestId ? null : pendingRequest,
+    });
+  },
 }));
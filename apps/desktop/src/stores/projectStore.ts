@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { Project, Session, SlashCommand } from '@my-claudia/shared';
+import type { Project, Session, SlashCommand, ProviderCapabilities } from '@my-claudia/shared';
 
 interface ProjectState {
   projects: Project[];
@@ -7,6 +7,7 @@ interface ProjectState {
   selectedProjectId: string | null;
   selectedSessionId: string | null;
   providerCommands: Record<string, SlashCommand[]>;
+  providerCapabilities: Record<string, ProviderCapabilities>;
 
   // Actions
   setProjects: (projects: Project[]) => void;
@@ -23,6 +24,7 @@ interface ProjectState {
   selectSession: (id: string | null) => void;
 
   setProviderCommands: (providerId: string, commands: SlashCommand[]) => void;
+  setProviderCapabilities: (providerId: string, capabilities: ProviderCapabilities) => void;
 }
 
 export const useProjectStore = create<ProjectState>((set) => ({
@@ -31,6 +33,7 @@ export const useProjectStore = create<ProjectState>((set) => ({
   selectedProjectId: null,
   selectedSessionId: null,
   providerCommands: {},
+  providerCapabilities: {},
 
   setProjects: (projects) => set({ projects }),
 
@@ -94,4 +97,12 @@ export const useProjectStore = create<ProjectState>((set) => ({
         [providerId]: commands,
       },
     })),
+
+  setProviderCapabilities: (providerId, capabilities) =>
+    set((state) => ({
+      providerCapabilities: {
+        ...state.providerCapabilities,
+        [providerId]: capabilities,
+      },
+    })),
 }));
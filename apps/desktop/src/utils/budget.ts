@@ -0,0 +1,16 @@
+import { BUDGET_LIMIT_LABELS } from '@my-claudia/shared';
+import type { BudgetLimit, BudgetUsage } from '@my-claudia/shared';
+
+// Dollars for the USD limits, tokens for the others
+export function formatBudgetAmount(limit: BudgetLimit, amount: number): string {
+  return limit.endsWith('Usd') ? `$${amount.toFixed(2)}` : `${amount.toLocaleString('en-US')} tokens`;
+}
+
+// e.g. "$4.10 of $5.00 (82%)"
+export function formatBudgetUsage(usage: BudgetUsage): string {
+  return `${formatBudgetAmount(usage.limit, usage.used)} of ${formatBudgetAmount(usage.limit, usage.max)} (${Math.floor(usage.percent)}%)`;
+}
+
+export function budgetWarningText(usage: BudgetUsage, threshold: number): string {
+  return `Budget warning: ${BUDGET_LIMIT_LABELS[usage.limit]} passed ${threshold}% (${formatBudgetUsage(usage)})`;
+}
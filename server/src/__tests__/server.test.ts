@@ -0,0 +1,552 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { PROVIDER_CAPABILITIES, type ClientMessage, type ServerMessage } from '@my-claudia/shared';
+import type { ProviderAdapter, ProviderRunOptions } from '../providers/types.js';
+import type { ClaudeMessage, PermissionCallback } from '../providers/claude-sdk.js';
+
+// Keep the API key out of the home directory
+vi.mock('../auth.js', () => ({
+  loadOrCreateApiKey: vi.fn(() => 'mca_test'),
+  regenerateApiKey: vi.fn(),
+  getMaskedApiKey: vi.fn(),
+  getFullApiKey: vi.fn(),
+  validateApiKey: vi.fn(),
+  getAuthConfigPath: vi.fn()
+}));
+
+// Runs are driven by a stub adapter instead of a real provider
+vi.mock('../providers/registry.js', () => ({
+  getProviderAdapter: vi.fn()
+}));
+
+import {
+  handleClientMessage,
+  createVirtualClient,
+  detachClient,
+  activeRuns,
+  type ConnectedClient
+} from '../server.js';
+import { getProviderAdapter } from '../providers/registry.js';
+
+type RunEvents = (
+  options: ProviderRunOptions,
+  onPermissionRequest?: PermissionCallback
+) => AsyncGenerator<ClaudeMessage, void, void>;
+
+function createTestDb(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE providers (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL DEFAULT 'claude',
+      cli_path TEXT,
+      env TEXT,
+      stream_json TEXT,
+      agent_settings TEXT,
+      is_default INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE projects (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      provider_id TEXT,
+      root_path TEXT,
+      permission_policy TEXT,
+      system_prompt TEXT,
+      system_prompt_mode TEXT,
+      agent_settings TEXT,
+      show_thinking INTEGER NOT NULL DEFAULT 1,
+      budget TEXT
+    );
+    CREATE TABLE sessions (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      name TEXT,
+      sdk_session_id TEXT,
+      sdk_session_provider TEXT,
+      system_prompt TEXT,
+      agent_settings TEXT,
+      updated_at INTEGER
+    );
+    CREATE TABLE messages (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      role TEXT NOT NULL,
+      content TEXT NOT NULL,
+      metadata TEXT,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE provider_runs (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      provider_id TEXT,
+      provider_type TEXT NOT NULL,
+      permission_mode TEXT,
+      status TEXT NOT NULL,
+      input TEXT NOT NULL,
+      output TEXT,
+      error TEXT,
+      usage TEXT,
+      started_at INTEGER NOT NULL,
+      ended_at INTEGER
+    );
+    CREATE TABLE permission_logs (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      run_id TEXT,
+      request_id TEXT,
+      tool TEXT NOT NULL,
+      detail TEXT NOT NULL,
+      tool_input TEXT,
+      decision TEXT NOT NULL,
+      remembered INTEGER DEFAULT 0,
+      decided_by TEXT,
+      requested_at INTEGER,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE permission_rules (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      input TEXT,
+      decision TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    INSERT INTO projects (id, name, root_path) VALUES ('project-1', 'Project', '/work/project');
+    INSERT INTO sessions (id, project_id, name) VALUES ('session-1', 'project-1', 'Session');
+  `);
+  return db;
+}
+
+function createStubAdapter(events: RunEvents): ProviderAdapter {
+  return {
+    type: 'claude',
+    name: 'Stub',
+    capabilities: PROVIDER_CAPABILITIES.claude,
+    startRun: (_input, options, onPermissionRequest) => events(options, onPermissionRequest),
+    cancel: vi.fn()
+  };
+}
+
+// A client that keeps every message the server sends it
+function createTestClient(id: string): { client: ConnectedClient; received: ServerMessage[] } {
+  const received: ServerMessage[] = [];
+  return { client: createVirtualClient(id, { send: (message) => received.push(message) }), received };
+}
+
+function runStart(input = 'Hello'): ClientMessage {
+  return { type: 'run_start', clientRequestId: 'request-1', sessionId: 'session-1', input };
+}
+
+// Resolves when the server cancels the run, like a provider that is stopped
+function waitForAbort(signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) resolve();
+    signal.addEventListener('abort', () => resolve());
+  });
+}
+
+// The first message of a type, once the server has sent it
+async function waitForMessage<T extends ServerMessage['type']>(received: ServerMessage[], type: T) {
+  return vi.waitFor(() => {
+    const message = received.find(m => m.type === type);
+    if (!message) throw new Error(`No ${type} message yet`);
+    return message as Extract<ServerMessage, { type: T }>;
+  });
+}
+
+// A run that asks for one Bash command and reports the decision it got
+function createAskingAdapter(decisions: unknown[]): ProviderAdapter {
+  return createStubAdapter(async function* (_options, onPermissionRequest) {
+    const decision = await onPermissionRequest!({
+      requestId: 'perm-1',
+      toolName: 'Bash',
+      toolInput: { command: 'npm test' },
+      detail: 'npm test',
+      timeoutSeconds: 0,
+      editable: true
+    });
+    decisions.push(decision);
+    yield { type: 'result' };
+  });
+}
+
+function getPermissionLogs(db: Database.Database) {
+  return db.prepare(`
+    SELECT request_id, tool, tool_input, decision, remembered, decided_by FROM permission_logs ORDER BY created_at, rowid
+  `).all();
+}
+
+function getRuns(db: Database.Database) {
+  return db.prepare('SELECT status, error FROM provider_runs').all() as Array<{ status: string; error: string | null }>;
+}
+
+describe('server run loop', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db = createTestDb();
+  });
+
+  afterEach(() => {
+    activeRuns.clear();
+    db.close();
+  });
+
+  describe('run_start', () => {
+    it('saves the reply and completes the run', async () => {
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* () {
+        yield { type: 'assistant', content: 'Hi there' };
+        yield { type: 'result', usage: { inputTokens: 10, outputTokens: 5 } };
+      }));
+      const { client, received } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      expect(received.map(m => m.type)).toEqual(['run_started', 'delta', 'run_completed']);
+      expect(getRuns(db)).toEqual([{ status: 'completed', error: null }]);
+      const reply = db.prepare(`SELECT content FROM messages WHERE role = 'assistant'`).get() as { content: string };
+      expect(reply.content).toBe('Hi there');
+    });
+
+    it('fails a run that ends without a result', async () => {
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* () {
+        yield { type: 'assistant', content: 'Partial' };
+      }));
+      const { client, received } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      expect(received.at(-1)).toMatchObject({ type: 'run_failed', error: 'Run ended without a result' });
+      expect(getRuns(db)).toEqual([{ status: 'failed', error: 'Run ended without a result' }]);
+      expect(activeRuns.size).toBe(0);
+    });
+  });
+
+  describe('run_cancel', () => {
+    it('stops the provider and records the run as cancelled', async () => {
+      const adapter = createStubAdapter(async function* (options) {
+        yield { type: 'assistant', content: 'Working' };
+        await waitForAbort(options.abortController!.signal);
+        yield { type: 'assistant', content: 'Too late' };
+      });
+      vi.mocked(getProviderAdapter).mockReturnValue(adapter);
+      const { client, received } = createTestClient('client-1');
+
+      const run = handleClientMessage(client, runStart(), db);
+      const { runId } = await waitForMessage(received, 'run_started');
+      await waitForMessage(received, 'delta');
+      await handleClientMessage(client, { type: 'run_cancel', runId }, db);
+      await run;
+
+      expect(adapter.cancel).toHaveBeenCalledWith(runId);
+      expect(received.at(-1)).toMatchObject({ type: 'run_cancelled', runId });
+      expect(getRuns(db)).toEqual([{ status: 'cancelled', error: null }]);
+      const reply = db.prepare(`SELECT content, metadata FROM messages WHERE role = 'assistant'`).get() as { content: string; metadata: string };
+      expect(reply.content).toBe('Working');
+      expect(JSON.parse(reply.metadata)).toEqual({ cancelled: true });
+      expect(activeRuns.size).toBe(0);
+    });
+  });
+
+  describe('run_attach', () => {
+    it('replays the buffered events to a client that attaches after a detach', async () => {
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* (_options, onPermissionRequest) {
+        const request = { toolName: 'Bash', detail: 'npm test', timeoutSeconds: 0 };
+        await onPermissionRequest!({ ...request, requestId: 'perm-1', toolInput: { command: 'npm test' } });
+        yield { type: 'assistant', content: 'Tests pass' };
+        await onPermissionRequest!({ ...request, requestId: 'perm-2', toolInput: { command: 'npm run build' } });
+        yield { type: 'result' };
+      }));
+      const first = createTestClient('client-1');
+      const second = createTestClient('client-2');
+
+      const run = handleClientMessage(first.client, runStart(), db);
+      const { runId } = await waitForMessage(first.received, 'run_started');
+      await waitForMessage(first.received, 'permission_request');
+      await handleClientMessage(first.client, { type: 'permission_decision', requestId: 'perm-1', allow: true }, db);
+      await vi.waitFor(() => expect(first.received).toContainEqual(
+        expect.objectContaining({ type: 'permission_request', requestId: 'perm-2' })
+      ));
+
+      detachClient('client-1');
+      await handleClientMessage(second.client, { type: 'run_attach', sessionId: 'session-1' }, db);
+
+      // The decided request is not replayed, the pending one is
+      const replayed = second.received.flatMap(m => m.type === 'permission_request' ? [m.requestId] : []);
+      expect(replayed).toEqual(['perm-2']);
+      expect(second.received.map(m => m.type)).toEqual(
+        ['run_started', 'permission_resolved', 'delta', 'permission_request', 'run_attached']
+      );
+      expect(second.received.at(-1)).toEqual({ type: 'run_attached', sessionId: 'session-1', runId, isRunning: true });
+
+      await handleClientMessage(second.client, { type: 'permission_decision', requestId: 'perm-2', allow: true }, db);
+      await run;
+
+      expect(second.received.at(-1)?.type).toBe('run_completed');
+      expect(first.received.map(m => m.type)).not.toContain('run_completed');
+    });
+
+    it('replays a finished run only when asked for by ID', async () => {
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* () {
+        yield { type: 'assistant', content: 'Done' };
+        yield { type: 'result' };
+      }));
+      const first = createTestClient('client-1');
+      await handleClientMessage(first.client, runStart(), db);
+      const { runId } = await waitForMessage(first.received, 'run_started');
+
+      const second = createTestClient('client-2');
+      await handleClientMessage(second.client, { type: 'run_attach', sessionId: 'session-1' }, db);
+      expect(second.received).toEqual([{ type: 'run_attached', sessionId: 'session-1', isRunning: false }]);
+
+      const third = createTestClient('client-3');
+      await handleClientMessage(third.client, { type: 'run_attach', sessionId: 'session-1', runId, afterSeq: 1 }, db);
+      expect(third.received.map(m => m.type)).toEqual(['delta', 'run_completed', 'run_attached']);
+      expect(third.received.at(-1)).toEqual({ type: 'run_attached', sessionId: 'session-1', runId, isRunning: false });
+    });
+  });
+
+  describe('project budget', () => {
+    it('refuses to start a run when a daily limit is used up', async () => {
+      db.prepare(`UPDATE projects SET budget = ?`).run(JSON.stringify({ dailyTokens: 1000 }));
+      db.prepare(`
+        INSERT INTO provider_runs (id, session_id, provider_type, status, input, usage, started_at)
+        VALUES ('earlier', 'session-1', 'claude', 'completed', 'Hi', ?, ?)
+      `).run(JSON.stringify({ inputTokens: 800, outputTokens: 200 }), Date.now());
+      const adapter = createStubAdapter(async function* () {
+        yield { type: 'result' };
+      });
+      const startRun = vi.spyOn(adapter, 'startRun');
+      vi.mocked(getProviderAdapter).mockReturnValue(adapter);
+      const { client, received } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      expect(received).toEqual([expect.objectContaining({
+        type: 'run_failed',
+        code: 'BUDGET_EXCEEDED',
+        error: 'Project budget exceeded: daily token budget: 1,000 tokens of 1,000 tokens used'
+      })]);
+      expect(startRun).not.toHaveBeenCalled();
+      expect(getRuns(db)).toHaveLength(1);
+    });
+
+    it('stops a run that uses up the per-run cap while streaming', async () => {
+      db.prepare(`UPDATE projects SET budget = ?`).run(JSON.stringify({ runTokens: 1000, warnAt: [50] }));
+      const adapter = createStubAdapter(async function* (options) {
+        yield { type: 'assistant', content: 'Reading' };
+        yield { type: 'usage', usage: { inputTokens: 500, outputTokens: 100 } };
+        yield { type: 'usage', usage: { inputTokens: 900, outputTokens: 200 } };
+        await waitForAbort(options.abortController!.signal);
+      });
+      vi.mocked(getProviderAdapter).mockReturnValue(adapter);
+      const { client, received } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      const error = 'Run stopped: per-run token cap: 1,100 tokens of 1,000 tokens used';
+      expect(received.filter(m => m.type === 'budget_warning')).toEqual([
+        expect.objectContaining({ usage: expect.objectContaining({ used: 600 }), threshold: 50 })
+      ]);
+      expect(received.at(-1)).toMatchObject({ type: 'run_failed', code: 'RUN_BUDGET_EXCEEDED', error });
+      expect(adapter.cancel).toHaveBeenCalled();
+      expect(getRuns(db)).toEqual([{ status: 'failed', error }]);
+      const reply = db.prepare(`SELECT metadata FROM messages WHERE role = 'assistant'`).get() as { metadata: string };
+      expect(JSON.parse(reply.metadata)).toEqual({ cancelled: true, usage: { inputTokens: 900, outputTokens: 200 } });
+    });
+
+    it('records a run that went over the per-run cap with its result usage', async () => {
+      db.prepare(`UPDATE projects SET budget = ?`).run(JSON.stringify({ runTokens: 1000 }));
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* () {
+        yield { type: 'assistant', content: 'Done' };
+        yield { type: 'result', usage: { inputTokens: 900, outputTokens: 300 } };
+      }));
+      const { client, received } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      expect(await waitForMessage(received, 'budget_warning')).toMatchObject({
+        usage: { limit: 'runTokens', used: 1200, max: 1000 },
+        threshold: 80
+      });
+      expect(received.at(-1)?.type).toBe('run_completed');
+      expect(getRuns(db)).toEqual([{
+        status: 'completed',
+        error: 'Run went over the budget: per-run token cap: 1,200 tokens of 1,000 tokens used'
+      }]);
+    });
+  });
+
+  describe('provider session resume', () => {
+    beforeEach(() => {
+      db.prepare(`UPDATE sessions SET sdk_session_id = 'claude-session' WHERE id = 'session-1'`).run();
+    });
+
+    it('resumes with the session ID of the same provider type', async () => {
+      const sessionIds: Array<string | undefined> = [];
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* (options) {
+        sessionIds.push(options.sessionId);
+        yield { type: 'result' };
+      }));
+      const { client } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      expect(sessionIds).toEqual(['claude-session']);
+    });
+
+    it('starts a new provider session after the project switched provider types', async () => {
+      db.prepare(`INSERT INTO providers (id, name, type, created_at, updated_at) VALUES ('codex-1', 'Codex', 'codex', 0, 0)`).run();
+      db.prepare(`UPDATE projects SET provider_id = 'codex-1'`).run();
+      const sessionIds: Array<string | undefined> = [];
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* (options) {
+        sessionIds.push(options.sessionId);
+        yield { type: 'init', sessionId: 'codex-thread' };
+        yield { type: 'result' };
+      }));
+      const { client } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      expect(sessionIds).toEqual([undefined]);
+      expect(db.prepare('SELECT sdk_session_id, sdk_session_provider FROM sessions').get())
+        .toEqual({ sdk_session_id: 'codex-thread', sdk_session_provider: 'codex' });
+    });
+  });
+
+  describe('permission_decision', () => {
+    it('denies a request whose edited input is not an object', async () => {
+      const decisions: unknown[] = [];
+      vi.mocked(getProviderAdapter).mockReturnValue(createAskingAdapter(decisions));
+      const { client, received } = createTestClient('client-1');
+
+      const run = handleClientMessage(client, runStart(), db);
+      await waitForMessage(received, 'permission_request');
+      await handleClientMessage(client, {
+        type: 'permission_decision',
+        requestId: 'perm-1',
+        allow: true,
+        updatedInput: ['npm', 'test']
+      }, db);
+      await run;
+
+      expect(decisions).toEqual([{ behavior: 'deny', message: 'The edited input is not an object' }]);
+      expect(received).toContainEqual({ type: 'error', code: 'INVALID_MESSAGE', message: 'updatedInput must be an object' });
+      expect(await waitForMessage(received, 'permission_resolved')).toMatchObject({ decision: 'deny' });
+      expect(received.at(-1)?.type).toBe('run_completed');
+    });
+  });
+
+  describe('permission audit', () => {
+    it('logs the decision of the user who answered', async () => {
+      vi.mocked(getProviderAdapter).mockReturnValue(createAskingAdapter([]));
+      const { client, received } = createTestClient('client-1');
+
+      const run = handleClientMessage(client, runStart(), db);
+      await waitForMessage(received, 'permission_request');
+      await handleClientMessage(client, { type: 'permission_decision', requestId: 'perm-1', allow: false }, db);
+      await run;
+
+      expect(getPermissionLogs(db)).toEqual([{
+        request_id: 'perm-1',
+        tool: 'Bash',
+        tool_input: JSON.stringify({ command: 'npm test' }),
+        decision: 'deny',
+        remembered: 0,
+        decided_by: 'client-1'
+      }]);
+    });
+
+    it('logs requests that timed out', async () => {
+      const decisions: unknown[] = [];
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* (_options, onPermissionRequest) {
+        decisions.push(await onPermissionRequest!({
+          requestId: 'perm-1',
+          toolName: 'Bash',
+          toolInput: { command: 'npm test' },
+          detail: 'npm test',
+          timeoutSeconds: 0.01
+        }));
+        yield { type: 'result' };
+      }));
+      const { client, received } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      expect(decisions).toEqual([{ behavior: 'deny', message: 'Permission request timed out' }]);
+      expect(received).toContainEqual(expect.objectContaining({ type: 'permission_resolved', decision: 'timeout' }));
+      expect(getPermissionLogs(db)).toEqual([expect.objectContaining({ decision: 'timeout', decided_by: null })]);
+    });
+
+    it('logs the tool uses the policy decided without asking', async () => {
+      vi.mocked(getProviderAdapter).mockReturnValue(createStubAdapter(async function* (options) {
+        options.onPolicyDecision!({
+          requestId: 'perm-1',
+          toolName: 'Read',
+          toolInput: { file_path: 'README.md' },
+          detail: 'README.md',
+          timeoutSeconds: 0
+        }, 'allow', 'policy:allowedTools');
+        yield { type: 'result' };
+      }));
+      const { client } = createTestClient('client-1');
+
+      await handleClientMessage(client, runStart(), db);
+
+      expect(getPermissionLogs(db)).toEqual([expect.objectContaining({
+        tool: 'Read',
+        decision: 'allow',
+        decided_by: 'policy:allowedTools'
+      })]);
+    });
+  });
+
+  describe('remembered decisions', () => {
+    it('stores a remembered decision and applies it to the next request', async () => {
+      const decisions: unknown[] = [];
+      vi.mocked(getProviderAdapter).mockReturnValue(createAskingAdapter(decisions));
+      const { client, received } = createTestClient('client-1');
+
+      const run = handleClientMessage(client, runStart(), db);
+      await waitForMessage(received, 'permission_request');
+      await handleClientMessage(client, { type: 'permission_decision', requestId: 'perm-1', allow: true, remember: true }, db);
+      await run;
+
+      const rule = db.prepare('SELECT id, project_id, tool, input, decision FROM permission_rules').get() as { id: string };
+      expect(rule).toMatchObject({ project_id: 'project-1', tool: 'Bash', input: 'npm test', decision: 'allow' });
+
+      const second = createTestClient('client-2');
+      await handleClientMessage(second.client, runStart('Again'), db);
+
+      expect(decisions).toEqual([{ behavior: 'allow' }, { behavior: 'allow' }]);
+      expect(second.received.map(m => m.type)).not.toContain('permission_request');
+      expect(getPermissionLogs(db)).toEqual([
+        expect.objectContaining({ decision: 'allow', remembered: 1, decided_by: 'client-1' }),
+        expect.objectContaining({ decision: 'allow', remembered: 0, decided_by: `rule:${rule.id}` })
+      ]);
+    });
+
+    it('does not remember an approval with an edited input', async () => {
+      vi.mocked(getProviderAdapter).mockReturnValue(createAskingAdapter([]));
+      const { client, received } = createTestClient('client-1');
+
+      const run = handleClientMessage(client, runStart(), db);
+      await waitForMessage(received, 'permission_request');
+      await handleClientMessage(client, {
+        type: 'permission_decision',
+        requestId: 'perm-1',
+        allow: true,
+        remember: true,
+        updatedInput: { command: 'npm test -- --run' }
+      }, db);
+      await run;
+
+      expect(db.prepare('SELECT * FROM permission_rules').all()).toEqual([]);
+      expect(getPermissionLogs(db)).toEqual([expect.objectContaining({ decision: 'allow', remembered: 0 })]);
+    });
+  });
+});
@@ -118,6 +118,7 @@ async function connectToGateway(config: GatewayConfig): Promise<void> {
   // Clean up virtual client on disconnect
   gatewayClient.onClientDisconnected((clientId) => {
     virtualClients.delete(clientId);
+    serverContext?.detachClient(clientId);
     console.log(`[Gateway] Cleaned up virtual client: ${clientId}`);
   });
 
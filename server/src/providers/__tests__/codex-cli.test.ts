@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { codexAdapter, buildCodexArgs } from '../codex-cli.js';
+import type { ClaudeMessage } from '../claude-sdk.js';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const fakeCli = path.join(fixturesDir, 'fake-cli.mjs');
+
+async function collect(generator: AsyncGenerator<ClaudeMessage, void, void>): Promise<ClaudeMessage[]> {
+  const messages: ClaudeMessage[] = [];
+  for await (const msg of generator) {
+    messages.push(msg);
+  }
+  return messages;
+}
+
+describe('codex-cli', () => {
+  let tmpDir: string;
+  let recordFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codex-test-'));
+    recordFile = path.join(tmpDir, 'record.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('buildCodexArgs', () => {
+    it('runs exec in JSON mode with prompt from stdin', () => {
+      const args = buildCodexArgs({ runId: 'r1', cwd: '/project' });
+
+      expect(args.slice(0, 2)).toEqual(['exec', '--json']);
+      expect(args).toContain('--cd');
+      expect(args[args.indexOf('--cd') + 1]).toBe('/project');
+      expect(args[args.length - 1]).toBe('-');
+    });
+
+    it('resumes an existing thread', () => {
+      const args = buildCodexArgs({ runId: 'r1', cwd: '/project', sessionId: 'thread-1' });
+
+      expect(args.slice(-3)).toEqual(['resume', 'thread-1', '-']);
+    });
+
+    it('adds the additional directories', () => {
+      const args = buildCodexArgs({ runId: 'r1', cwd: '/project', additionalDirectories: ['/libs/a', '/libs/b'] });
+
+      expect(args).toEqual(expect.arrayContaining(['--add-dir', '/libs/a', '--add-dir', '/libs/b']));
+      expect(args[args.length - 1]).toBe('-');
+    });
+
+    it('maps permission modes to sandbox settings', () => {
+      expect(buildCodexArgs({ runId: 'r1', cwd: '/p', permissionMode: 'plan' }))
+        .toEqual(expect.arrayContaining(['--sandbox', 'read-only']));
+      expect(buildCodexArgs({ runId: 'r1', cwd: '/p', permissionMode: 'default' }))
+        .toEqual(expect.arrayContaining(['--sandbox', 'workspace-write']));
+      expect(buildCodexArgs({ runId: 'r1', cwd: '/p', permissionMode: 'bypassPermissions' }))
+        .toContain('--dangerously-bypass-approvals-and-sandbox');
+    });
+  });
+
+  describe('codexAdapter', () => {
+    it('translates recorded events into internal messages', async () => {
+      const messages = await collect(codexAdapter.startRun('List files', {
+        runId: 'run-1',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        env: { FAKE_CLI_FIXTURE: path.join(fixturesDir, 'codex-exec.jsonl') },
+      }));
+
+      expect(messages.map(m => m.type)).toEqual([
+        'init',
+        'tool_use', 'tool_result',
+        'tool_use', 'tool_result',
+        'tool_use', 'tool_result',
+        'assistant', 'assistant',
+        'result',
+      ]);
+
+      expect(messages[0].sessionId).toBe('0199a213-81c0-7800-8aa1-bbab2a035a53');
+      expect(messages[0].systemInfo?.cwd).toBe(tmpDir);
+
+      expect(messages[1]).toMatchObject({
+        toolUseId: 'item_1',
+        toolName: 'Bash',
+        toolInput: { command: 'bash -lc ls' },
+      });
+      expect(messages[2]).toMatchObject({
+        toolUseId: 'item_1',
+        toolResult: 'README.md\nsrc\n',
+        isToolError: false,
+      });
+      expect(messages[4]).toMatchObject({ toolUseId: 'item_2', isToolError: true });
+
+      // File changes only arrive completed, so tool_use is synthesized
+      expect(messages[5]).toMatchObject({ toolUseId: 'item_3', toolName: 'Edit' });
+      expect(messages[6]).toMatchObject({ toolUseId: 'item_3', toolResult: 'update: src/index.ts' });
+
+      expect(messages[7].content).toBe('The repo has a README and a src folder.');
+      expect(messages[8].content).toBe('\n\nI updated src/index.ts.');
+
+      expect(messages[9]).toMatchObject({
+        isComplete: true,
+        usage: { inputTokens: 24763, outputTokens: 122, cacheReadTokens: 24448 },
+      });
+    });
+
+    it('passes prompt via stdin, cwd and env to the CLI', async () => {
+      await collect(codexAdapter.startRun(JSON.stringify({ text: 'Fix the bug' }), {
+        runId: 'run-2',
+        cwd: tmpDir,
+        sessionId: 'thread-9',
+        cliPath: fakeCli,
+        env: { FAKE_CLI_RECORD: recordFile },
+      }));
+
+      const [record] = JSON.parse(fs.readFileSync(recordFile, 'utf-8'));
+      expect(record.stdin).toBe('Fix the bug');
+      expect(record.cwd).toBe(fs.realpathSync(tmpDir));
+      expect(record.args).toEqual(expect.arrayContaining(['exec', '--json', 'resume', 'thread-9']));
+    });
+
+    it('throws with stderr when the CLI exits with an error', async () => {
+      await expect(collect(codexAdapter.startRun('Hello', {
+        runId: 'run-3',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        env: { FAKE_CLI_EXIT_CODE: '1', FAKE_CLI_STDERR: 'Not logged in' },
+      }))).rejects.toThrow('Not logged in');
+    });
+
+    it('throws when a turn fails', async () => {
+      const fixture = path.join(tmpDir, 'failed.jsonl');
+      fs.writeFileSync(fixture, [
+        JSON.stringify({ type: 'thread.started', thread_id: 't1' }),
+        JSON.stringify({ type: 'turn.failed', error: { message: 'stream disconnected' } }),
+      ].join('\n'));
+
+      await expect(collect(codexAdapter.startRun('Hello', {
+        runId: 'run-4',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        env: { FAKE_CLI_FIXTURE: fixture },
+      }))).rejects.toThrow('stream disconnected');
+    });
+
+    it('reports a missing binary', async () => {
+      await expect(collect(codexAdapter.startRun('Hello', {
+        runId: 'run-5',
+        cwd: tmpDir,
+        cliPath: path.join(tmpDir, 'no-such-codex'),
+      }))).rejects.toThrow(/Failed to start/);
+    });
+  });
+});
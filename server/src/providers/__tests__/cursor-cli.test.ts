@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { cursorAdapter, buildCursorArgs } from '../cursor-cli.js';
+import type { ClaudeMessage } from '../claude-sdk.js';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const fakeCli = path.join(fixturesDir, 'fake-cli.mjs');
+
+async function collect(generator: AsyncGenerator<ClaudeMessage, void, void>): Promise<ClaudeMessage[]> {
+  const messages: ClaudeMessage[] = [];
+  for await (const msg of generator) {
+    messages.push(msg);
+  }
+  return messages;
+}
+
+describe('cursor-cli', () => {
+  let tmpDir: string;
+  let recordFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-test-'));
+    recordFile = path.join(tmpDir, 'record.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('buildCursorArgs', () => {
+    it('uses print mode with stream-json output and the prompt last', () => {
+      const args = buildCursorArgs('Hello', { runId: 'r1', cwd: '/project' }, false);
+
+      expect(args).toEqual(['--print', '--output-format', 'stream-json', 'Hello']);
+    });
+
+    it('adds resume, model and force flags', () => {
+      const args = buildCursorArgs('Hello', {
+        runId: 'r1',
+        cwd: '/project',
+        sessionId: 'chat-1',
+        env: { CURSOR_MODEL: 'gpt-5' },
+      }, true);
+
+      expect(args).toEqual(expect.arrayContaining(['--resume', 'chat-1', '--model', 'gpt-5', '--force']));
+    });
+
+    it('prefers the model from the agent settings', () => {
+      const args = buildCursorArgs('Hello', {
+        runId: 'r1',
+        cwd: '/project',
+        model: 'sonnet-4.5',
+        env: { CURSOR_MODEL: 'gpt-5' },
+      }, false);
+
+      expect(args).toEqual(expect.arrayContaining(['--model', 'sonnet-4.5']));
+      expect(args).not.toContain('gpt-5');
+    });
+  });
+
+  describe('cursorAdapter', () => {
+    it('translates stream-json events into internal messages', async () => {
+      const messages = await collect(cursorAdapter.startRun('Read the README and add a line', {
+        runId: 'run-1',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        env: {
+          FAKE_CLI_FIXTURE: path.join(fixturesDir, 'cursor-stream.jsonl'),
+          FAKE_CLI_RECORD: recordFile,
+        },
+      }));
+
+      expect(messages.map(m => m.type)).toEqual([
+        'init', 'assistant', 'tool_use', 'tool_result', 'tool_use', 'tool_result', 'assistant', 'result',
+      ]);
+
+      expect(messages[0]).toMatchObject({
+        sessionId: 'c6b62c6f-7ead-4fd6-9922-e952131177ff',
+        systemInfo: {
+          model: 'Claude 4 Sonnet',
+          claudeCodeVersion: '0.0.0-fake',
+          apiKeySource: 'login',
+        },
+      });
+      expect(messages[2]).toMatchObject({ toolUseId: 'toolu_01', toolName: 'Read', toolInput: { path: 'README.md' } });
+      expect(messages[3]).toMatchObject({ toolUseId: 'toolu_01', toolResult: '# Project\n', isToolError: false });
+      expect(messages[4]).toMatchObject({ toolUseId: 'toolu_02', toolName: 'Write' });
+      expect(messages[5].toolResult).toBe('Wrote 2 lines to /project/README.md');
+
+      // Result text repeats streamed assistant text, so it is not forwarded again
+      expect(messages[7]).toMatchObject({ type: 'result', isComplete: true });
+      expect(messages[7].content).toBeUndefined();
+
+      const [record] = JSON.parse(fs.readFileSync(recordFile, 'utf-8'));
+      expect(record.args[record.args.length - 1]).toBe('Read the README and add a line');
+      expect(record.cwd).toBe(fs.realpathSync(tmpDir));
+    });
+
+    it('asks for approval of rejected tool calls and resumes with --force', async () => {
+      const onPermissionRequest = vi.fn().mockResolvedValue({ behavior: 'allow' });
+
+      const messages = await collect(cursorAdapter.startRun('Run the tests', {
+        runId: 'run-2',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        env: {
+          FAKE_CLI_FIXTURE: [
+            path.join(fixturesDir, 'cursor-rejected.jsonl'),
+            path.join(fixturesDir, 'cursor-approved.jsonl'),
+          ].join(path.delimiter),
+          FAKE_CLI_RECORD: recordFile,
+        },
+      }, onPermissionRequest));
+
+      expect(onPermissionRequest).toHaveBeenCalledWith(expect.objectContaining({
+        toolName: 'Bash',
+        toolInput: { command: 'npm test' },
+      }));
+
+      // One init and one result for the whole run
+      expect(messages.filter(m => m.type === 'init')).toHaveLength(1);
+      expect(messages.filter(m => m.type === 'result')).toHaveLength(1);
+      expect(messages.find(m => m.toolUseId === 'toolu_10' && m.type === 'tool_result')?.isToolError).toBe(true);
+      expect(messages.find(m => m.toolUseId === 'toolu_11' && m.type === 'tool_result')?.toolResult).toBe('All tests passed');
+
+      const invocations = JSON.parse(fs.readFileSync(recordFile, 'utf-8'));
+      expect(invocations).toHaveLength(2);
+      expect(invocations[0].args).not.toContain('--force');
+      expect(invocations[1].args).toEqual(expect.arrayContaining(['--resume', 'chat-1', '--force']));
+    });
+
+    it('stops a forced resume at a tool call that was not approved', async () => {
+      const onPermissionRequest = vi.fn()
+        .mockResolvedValueOnce({ behavior: 'allow' })
+        .mockResolvedValueOnce({ behavior: 'deny' });
+
+      const messages = await collect(cursorAdapter.startRun('Run the tests', {
+        runId: 'run-5',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        env: {
+          FAKE_CLI_FIXTURE: [
+            path.join(fixturesDir, 'cursor-rejected.jsonl'),
+            path.join(fixturesDir, 'cursor-approved-more.jsonl'),
+            path.join(fixturesDir, 'cursor-rejected-more.jsonl'),
+          ].join(path.delimiter),
+          FAKE_CLI_RECORD: recordFile,
+        },
+      }, onPermissionRequest));
+
+      // The second tool call is asked about instead of running under --force
+      expect(onPermissionRequest).toHaveBeenCalledTimes(2);
+      expect(onPermissionRequest).toHaveBeenLastCalledWith(expect.objectContaining({
+        toolName: 'Bash',
+        toolInput: { command: 'rm -rf dist' },
+      }));
+      expect(messages.find(m => m.toolUseId === 'toolu_11' && m.type === 'tool_result')?.toolResult).toBe('All tests passed');
+      expect(messages.some(m => m.toolUseId === 'toolu_12')).toBe(false);
+
+      const invocations = JSON.parse(fs.readFileSync(recordFile, 'utf-8'));
+      expect(invocations).toHaveLength(3);
+      expect(invocations[1].args).toContain('--force');
+      expect(invocations[2].args).toEqual(expect.arrayContaining(['--resume', 'chat-1']));
+      expect(invocations[2].args).not.toContain('--force');
+    });
+
+    it('matches an approved call whose arguments come back in a different order', async () => {
+      const onPermissionRequest = vi.fn().mockResolvedValue({ behavior: 'allow' });
+
+      const messages = await collect(cursorAdapter.startRun('Write the notes', {
+        runId: 'run-7',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        env: {
+          FAKE_CLI_FIXTURE: [
+            path.join(fixturesDir, 'cursor-rejected-write.jsonl'),
+            path.join(fixturesDir, 'cursor-approved-write.jsonl'),
+          ].join(path.delimiter),
+          FAKE_CLI_RECORD: recordFile,
+        },
+      }, onPermissionRequest));
+
+      expect(onPermissionRequest).toHaveBeenCalledTimes(1);
+      expect(messages.find(m => m.toolUseId === 'toolu_21' && m.type === 'tool_result')?.toolResult)
+        .toBe('Wrote 1 lines to /work/shared/notes.md');
+      expect(JSON.parse(fs.readFileSync(recordFile, 'utf-8'))).toHaveLength(2);
+    });
+
+    it('decides rejected tool calls from the permission policy without asking', async () => {
+      const onPermissionRequest = vi.fn();
+      const onPolicyDecision = vi.fn();
+
+      await collect(cursorAdapter.startRun('Run the tests', {
+        runId: 'run-4',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        permissionPolicy: { allowedTools: ['Bash'], disallowedTools: [], autoApprove: false, timeoutSeconds: 0 },
+        onPolicyDecision,
+        env: {
+          FAKE_CLI_FIXTURE: [
+            path.join(fixturesDir, 'cursor-rejected.jsonl'),
+            path.join(fixturesDir, 'cursor-approved.jsonl'),
+          ].join(path.delimiter),
+          FAKE_CLI_RECORD: recordFile,
+        },
+      }, onPermissionRequest));
+
+      expect(onPermissionRequest).not.toHaveBeenCalled();
+      expect(onPolicyDecision).toHaveBeenCalledWith(
+        expect.objectContaining({ toolName: 'Bash', toolInput: { command: 'npm test' } }),
+        'allow',
+        'policy:allowedTools'
+      );
+      const invocations = JSON.parse(fs.readFileSync(recordFile, 'utf-8'));
+      expect(invocations[1].args).toContain('--force');
+    });
+
+    it('rates writes to the additional directories as part of the project', async () => {
+      const onPermissionRequest = vi.fn().mockResolvedValue({ behavior: 'deny' });
+      const run = (additionalDirectories?: string[]) => collect(cursorAdapter.startRun('Write the notes', {
+        runId: 'run-6',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        additionalDirectories,
+        env: { FAKE_CLI_FIXTURE: path.join(fixturesDir, 'cursor-rejected-write.jsonl') },
+      }, onPermissionRequest));
+
+      await run();
+      await run(['/work/shared']);
+
+      expect(onPermissionRequest.mock.calls[0][0].risk.reasons).toContain('Writes outside the project root');
+      expect(onPermissionRequest.mock.calls[1][0].risk).toEqual({ level: 'low', reasons: [] });
+    });
+
+    it('does not resume when the user denies', async () => {
+      const onPermissionRequest = vi.fn().mockResolvedValue({ behavior: 'deny' });
+
+      const messages = await collect(cursorAdapter.startRun('Run the tests', {
+        runId: 'run-3',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        env: {
+          FAKE_CLI_FIXTURE: path.join(fixturesDir, 'cursor-rejected.jsonl'),
+          FAKE_CLI_RECORD: recordFile,
+        },
+      }, onPermissionRequest));
+
+      expect(onPermissionRequest).toHaveBeenCalledTimes(1);
+      expect(messages[messages.length - 1].type).toBe('result');
+      expect(JSON.parse(fs.readFileSync(recordFile, 'utf-8'))).toHaveLength(1);
+    });
+
+    it('passes --force in acceptEdits mode', async () => {
+      await collect(cursorAdapter.startRun('Hello', {
+        runId: 'run-4',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        permissionMode: 'acceptEdits',
+        env: { FAKE_CLI_RECORD: recordFile },
+      }));
+
+      const [record] = JSON.parse(fs.readFileSync(recordFile, 'utf-8'));
+      expect(record.args).toContain('--force');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+// Fake provider CLI for adapter tests.
+//
+// FAKE_CLI_FIXTURE   JSONL file(s) replayed to stdout. Several files may be
+//                    joined with the path delimiter; invocation N replays file N.
+// FAKE_CLI_RECORD    JSON file collecting { args, stdin, cwd } per invocation.
+// FAKE_CLI_STDERR    Text written to stderr.
+// FAKE_CLI_EXIT_CODE Exit code (default 0).
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { delimiter } from 'path';
+
+if (process.argv[2] === '--version') {
+  console.log(process.env.FAKE_CLI_VERSION || '0.0.0-fake');
+  process.exit(0);
+}
+
+let stdin = '';
+process.stdin.on('data', (chunk) => { stdin += chunk; });
+process.stdin.on('end', () => {
+  const recordFile = process.env.FAKE_CLI_RECORD;
+  const invocations = recordFile && existsSync(recordFile)
+    ? JSON.parse(readFileSync(recordFile, 'utf-8'))
+    : [];
+
+  if (recordFile) {
+    invocations.push({ args: process.argv.slice(2), stdin, cwd: process.cwd() });
+    writeFileSync(recordFile, JSON.stringify(invocations));
+  }
+
+  if (process.env.FAKE_CLI_FIXTURE) {
+    const fixtures = process.env.FAKE_CLI_FIXTURE.split(delimiter);
+    const fixture = fixtures[Math.min(invocations.length - 1, fixtures.length - 1)] || fixtures[0];
+    process.stdout.write(readFileSync(fixture, 'utf-8'));
+  }
+
+  if (process.env.FAKE_CLI_STDERR) {
+    process.stderr.write(process.env.FAKE_CLI_STDERR);
+  }
+
+  process.exitCode = Number(process.env.FAKE_CLI_EXIT_CODE || 0);
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  createOpenAICompatibleAdapter,
+  resolveOpenAICompatibleConfig,
+} from '../openai-compatible.js';
+import type { ClaudeMessage } from '../claude-sdk.js';
+
+async function collect(generator: AsyncGenerator<ClaudeMessage, void, void>): Promise<ClaudeMessage[]> {
+  const messages: ClaudeMessage[] = [];
+  for await (const msg of generator) {
+    messages.push(msg);
+  }
+  return messages;
+}
+
+interface RecordedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+describe('openai-compatible', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let respond: (res: http.ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body: JSON.parse(body || '{}') });
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  function streamChunks(chunks: unknown[]) {
+    return (res: http.ServerResponse) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const chunk of chunks) {
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    };
+  }
+
+  describe('resolveOpenAICompatibleConfig', () => {
+    it('reads base URL, model and key from env', () => {
+      expect(resolveOpenAICompatibleConfig(
+        { BASE_URL: 'http://localhost:1234/v1/', MODEL: 'llama', API_KEY: 'k' },
+        {}
+      )).toEqual({ baseUrl: 'http://localhost:1234/v1', model: 'llama', apiKey: 'k' });
+    });
+
+    it('falls back to provider defaults', () => {
+      expect(resolveOpenAICompatibleConfig(
+        { OPENROUTER_API_KEY: 'or-key' },
+        { baseUrl: 'https://openrouter.ai/api/v1', model: 'openrouter/auto', apiKeyEnv: 'OPENROUTER_API_KEY' }
+      )).toEqual({ baseUrl: 'https://openrouter.ai/api/v1', model: 'openrouter/auto', apiKey: 'or-key' });
+    });
+
+    it('requires a base URL and model', () => {
+      expect(() => resolveOpenAICompatibleConfig({ MODEL: 'm' }, {})).toThrow('BASE_URL');
+      expect(() => resolveOpenAICompatibleConfig({ BASE_URL: 'http://x' }, {})).toThrow('MODEL');
+    });
+  });
+
+  describe('adapter', () => {
+    const adapter = createOpenAICompatibleAdapter('custom', 'Test');
+
+    it('streams deltas and reports usage', async () => {
+      respond = streamChunks([
+        { choices: [{ delta: { role: 'assistant', content: '' } }] },
+        { choices: [{ delta: { content: 'Hello' } }] },
+        { choices: [{ delta: { content: ', world' }, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } },
+      ]);
+
+      const messages = await collect(adapter.startRun('Hi', {
+        runId: 'run-1',
+        cwd: '/project',
+        env: { BASE_URL: baseUrl, MODEL: 'test-model', API_KEY: 'secret' },
+      }));
+
+      expect(messages).toEqual([
+        { type: 'init', systemInfo: { model: 'test-model', cwd: '/project' } },
+        { type: 'assistant', content: 'Hello' },
+        { type: 'assistant', content: ', world' },
+        { type: 'result', isComplete: true, usage: { inputTokens: 12, outputTokens: 3 } },
+      ]);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+      expect(requests[0].body).toMatchObject({
+        model: 'test-model',
+        stream: true,
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+    });
+
+    it('sends the system prompt as the system message', async () => {
+      respond = streamChunks([{ choices: [{ delta: { content: 'ok' } }] }]);
+
+      const messages = await collect(adapter.startRun('Hi', {
+        runId: 'run-3',
+        cwd: '/project',
+        env: { BASE_URL: baseUrl, MODEL: 'test-model' },
+        systemPrompt: 'Be brief.',
+      }));
+
+      expect(messages[0]).toEqual({
+        type: 'init',
+        systemInfo: { model: 'test-model', cwd: '/project', systemPrompt: 'Be brief.', systemPromptMode: 'replace' },
+      });
+      expect(requests[0].body.messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+      ]);
+    });
+
+    it('sends earlier turns as history', async () => {
+      respond = streamChunks([{ choices: [{ delta: { content: 'ok' } }] }]);
+
+      await collect(adapter.startRun(JSON.stringify({ text: 'And now?' }), {
+        runId: 'run-2',
+        cwd: '/project',
+        env: { BASE_URL: baseUrl, MODEL: 'test-model' },
+        history: [
+          { role: 'user', content: 'First' },
+          { role: 'assistant', content: 'Answer' },
+        ],
+      }));
+
+      expect(requests[0].body.messages).toEqual([
+        { role: 'user', content: 'First' },
+        { role: 'assistant', content: 'Answer' },
+        { role: 'user', content: 'And now?' },
+      ]);
+      expect(requests[0].headers.authorization).toBeUndefined();
+    });
+
+    it('throws the API error message on failure', async () => {
+      respond = (res) => {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Invalid API key' } }));
+      };
+
+      await expect(collect(adapter.startRun('Hi', {
+        runId: 'run-3',
+        cwd: '/project',
+        env: { BASE_URL: baseUrl, MODEL: 'test-model' },
+      }))).rejects.toThrow('Invalid API key');
+    });
+
+    it('stops quietly when cancelled', async () => {
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'partial' } }] })}\n\n`);
+        // Never ends; the client aborts
+      };
+
+      const messages: ClaudeMessage[] = [];
+      for await (const msg of adapter.startRun('Hi', {
+        runId: 'run-4',
+        cwd: '/project',
+        env: { BASE_URL: baseUrl, MODEL: 'test-model' },
+      })) {
+        messages.push(msg);
+        if (msg.type === 'assistant') {
+          adapter.cancel('run-4');
+        }
+      }
+
+      expect(messages.map(m => m.type)).toEqual(['init', 'assistant']);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parsePermissionPattern, matchPermissionRule, findPermissionRuleIndex } from '../permission-rules.js';
+import { evaluatePermissionPolicy } from '../permission-policy.js';
+
+const context = { cwd: '/project', homeDir: '/home/me' };
+
+describe('permission-rules', () => {
+  describe('parsePermissionPattern', () => {
+    it('splits the tool and the input pattern', () => {
+      expect(parsePermissionPattern('Bash(git status*)')).toEqual({ tool: 'Bash', spec: 'git status*' });
+      expect(parsePermissionPattern('Read')).toEqual({ tool: 'Read', spec: undefined });
+      expect(parsePermissionPattern('Read(*)')).toEqual({ tool: 'Read', spec: undefined });
+    });
+
+    it('rejects malformed patterns', () => {
+      expect(parsePermissionPattern('')).toBeUndefined();
+      expect(parsePermissionPattern('Bash(ls')).toBeUndefined();
+    });
+  });
+
+  describe('commands', () => {
+    const allowStatus = { pattern: 'Bash(git status*)', decision: 'allow' as const };
+    const denyRm = { pattern: 'Bash(rm -rf*)', decision: 'deny' as const };
+
+    it('matches commands by prefix pattern', () => {
+      expect(matchPermissionRule(allowStatus, 'Bash', { command: 'git status' })).toBe(true);
+      expect(matchPermissionRule(allowStatus, 'Bash', { command: 'git status --short' })).toBe(true);
+      expect(matchPermissionRule(allowStatus, 'Bash', { command: 'git stash' })).toBe(false);
+      expect(matchPermissionRule(allowStatus, 'Read', { command: 'git status' })).toBe(false);
+    });
+
+    it('does not allow commands chained after an allowed one', () => {
+      expect(matchPermissionRule(allowStatus, 'Bash', { command: 'git status && rm -rf /' })).toBe(false);
+      expect(matchPermissionRule(allowStatus, 'Bash', { command: 'git status $(rm -rf /)' })).toBe(false);
+    });
+
+    it('denies when any chained or nested command matches', () => {
+      expect(matchPermissionRule(denyRm, 'Bash', { command: 'rm -rf build' })).toBe(true);
+      expect(matchPermissionRule(denyRm, 'Bash', { command: 'cd /tmp && rm -rf build' })).toBe(true);
+      expect(matchPermissionRule(denyRm, 'Bash', { command: 'echo $(rm -rf build)' })).toBe(true);
+      expect(matchPermissionRule(denyRm, 'Bash', { command: 'rm build' })).toBe(false);
+    });
+  });
+
+  describe('paths', () => {
+    it('resolves relative patterns against the project root', () => {
+      const rule = { pattern: 'Write(src/**)', decision: 'allow' as const };
+
+      expect(matchPermissionRule(rule, 'Write', { file_path: '/project/src/a/b.ts' }, context)).toBe(true);
+      expect(matchPermissionRule(rule, 'Write', { file_path: 'src/a.ts' }, context)).toBe(true);
+      expect(matchPermissionRule(rule, 'Write', { file_path: '/project/test/a.ts' }, context)).toBe(false);
+      expect(matchPermissionRule(rule, 'Write', { file_path: '/project/src/../package.json' }, context)).toBe(false);
+    });
+
+    it('expands ~ to the home directory', () => {
+      const rule = { pattern: 'Read(~/.ssh/**)', decision: 'deny' as const };
+
+      expect(matchPermissionRule(rule, 'Read', { file_path: '/home/me/.ssh/id_rsa' }, context)).toBe(true);
+      expect(matchPermissionRule(rule, 'Read', { file_path: '/project/.ssh/id_rsa' }, context)).toBe(false);
+    });
+
+    it('keeps a single * within one directory', () => {
+      const rule = { pattern: 'Edit(src/*.ts)', decision: 'allow' as const };
+
+      expect(matchPermissionRule(rule, 'Edit', { file_path: '/project/src/a.ts' }, context)).toBe(true);
+      expect(matchPermissionRule(rule, 'Edit', { file_path: '/project/src/lib/a.ts' }, context)).toBe(false);
+    });
+  });
+
+  it('matches other tools against their main input', () => {
+    const rule = { pattern: 'WebFetch(https://docs.example.com/*)', decision: 'allow' as const };
+
+    expect(matchPermissionRule(rule, 'WebFetch', { url: 'https://docs.example.com/a/b' })).toBe(true);
+    expect(matchPermissionRule(rule, 'WebFetch', { url: 'https://evil.example.com/' })).toBe(false);
+  });
+
+  it('returns the first matching rule', () => {
+    const rules = [
+      { pattern: 'Bash(rm -rf*)', decision: 'deny' as const },
+      { pattern: 'Bash', decision: 'allow' as const }
+    ];
+
+    expect(findPermissionRuleIndex(rules, 'Bash', { command: 'rm -rf /' })).toBe(0);
+    expect(findPermissionRuleIndex(rules, 'Bash', { command: 'ls' })).toBe(1);
+    expect(findPermissionRuleIndex(rules, 'Read', { file_path: '/a' })).toBe(-1);
+  });
+
+  describe('evaluatePermissionPolicy', () => {
+    it('checks rules before the tool lists', () => {
+      const policy = {
+        allowedTools: ['Bash'],
+        disallowedTools: [],
+        autoApprove: false,
+        timeoutSeconds: 0,
+        rules: [{ pattern: 'Bash(rm*)', decision: 'deny' as const }]
+      };
+
+      expect(evaluatePermissionPolicy(policy, 'Bash', { command: 'rm a' })).toEqual({
+        decision: 'deny',
+        source: 'rule',
+        ruleIndex: 0
+      });
+      expect(evaluatePermissionPolicy(policy, 'Bash', { command: 'ls' })).toEqual({ decision: 'allow', source: 'allowedTools' });
+      expect(evaluatePermissionPolicy(policy, 'Write', { file_path: '/a' })).toEqual({ source: 'none' });
+    });
+  });
+});
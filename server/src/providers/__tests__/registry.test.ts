@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getProviderAdapter, listProviderAdapters, registerProviderAdapter } from '../registry.js';
+import type { ProviderType } from '@my-claudia/shared';
+import { PROVIDER_CAPABILITIES } from '@my-claudia/shared';
+import type { ProviderAdapter } from '../types.js';
+import type { ClaudeMessage } from '../claude-sdk.js';
+
+// Mock the claude-agent-sdk
+vi.mock('@anthropic-ai/claude-agent-sdk', () => ({
+  query: vi.fn(),
+}));
+
+import { query } from '@anthropic-ai/claude-agent-sdk';
+
+describe('provider registry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('registers the Claude adapter by default', () => {
+    const adapter = getProviderAdapter('claude');
+
+    expect(adapter).toBeDefined();
+    expect(adapter?.type).toBe('claude');
+    expect(adapter?.capabilities.supportsPermissions).toBe(true);
+  });
+
+  it('returns undefined for provider types without an adapter', () => {
+    expect(getProviderAdapter('unknown' as ProviderType)).toBeUndefined();
+  });
+
+  it('registers additional adapters by type', async () => {
+    const fakeAdapter: ProviderAdapter = {
+      type: 'fake' as ProviderType,
+      name: 'Fake',
+      capabilities: PROVIDER_CAPABILITIES.custom,
+      async *startRun() {
+        yield { type: 'result', isComplete: true };
+      },
+      cancel: vi.fn(),
+    };
+
+    registerProviderAdapter(fakeAdapter);
+
+    expect(getProviderAdapter('fake' as ProviderType)).toBe(fakeAdapter);
+    expect(listProviderAdapters()).toContain(fakeAdapter);
+  });
+
+  describe('claude adapter', () => {
+    it('passes run options through to the SDK', async () => {
+      vi.mocked(query).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'result' };
+        }
+      } as unknown as ReturnType<typeof query>);
+
+      const adapter = getProviderAdapter('claude')!;
+      for await (const _ of adapter.startRun('Hello', {
+        runId: 'run-1',
+        cwd: '/project',
+        sessionId: 'resume-1',
+        cliPath: '/custom/claude',
+      })) { /* consume */ }
+
+      expect(query).toHaveBeenCalledWith({
+        prompt: 'Hello',
+        options: expect.objectContaining({
+          cwd: '/project',
+          resume: 'resume-1',
+          cli_path: '/custom/claude',
+        })
+      });
+    });
+
+    it('stops streaming after cancel', async () => {
+      const adapter = getProviderAdapter('claude')!;
+
+      vi.mocked(query).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'assistant', message: { content: [{ type: 'text', text: 'one' }] } };
+          adapter.cancel('run-2');
+          yield { type: 'assistant', message: { content: [{ type: 'text', text: 'two' }] } };
+        }
+      } as unknown as ReturnType<typeof query>);
+
+      const messages: ClaudeMessage[] = [];
+      for await (const msg of adapter.startRun('Hello', { runId: 'run-2', cwd: '/project' })) {
+        messages.push(msg);
+      }
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].content).toBe('one');
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { StreamJsonConfig } from '@my-claudia/shared';
+import {
+  customAdapter,
+  getPath,
+  buildStreamJsonArgs,
+  translateStreamJsonEvent,
+} from '../stream-json-cli.js';
+import type { ClaudeMessage } from '../claude-sdk.js';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const fakeCli = path.join(fixturesDir, 'fake-cli.mjs');
+
+const mapping: StreamJsonConfig = {
+  typeField: 'event',
+  events: {
+    init: { match: 'start', sessionId: 'session', model: 'model' },
+    assistant: { match: 'say', text: 'data.text' },
+    toolUse: { match: 'call', id: 'call.id', name: 'call.tool', input: 'call.args' },
+    toolResult: { match: 'return', id: 'call.id', output: 'call.output', isError: 'call.failed' },
+    result: { match: 'done', inputTokens: 'stats.in', outputTokens: 'stats.out' },
+    error: { match: 'fatal', message: 'reason' },
+  },
+};
+
+async function collect(generator: AsyncGenerator<ClaudeMessage, void, void>): Promise<ClaudeMessage[]> {
+  const messages: ClaudeMessage[] = [];
+  for await (const msg of generator) {
+    messages.push(msg);
+  }
+  return messages;
+}
+
+describe('stream-json-cli', () => {
+  let tmpDir: string;
+  let recordFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-json-test-'));
+    recordFile = path.join(tmpDir, 'record.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('getPath', () => {
+    it('resolves dotted paths including array indexes', () => {
+      const event = { message: { content: [{ text: 'hi' }] } };
+      expect(getPath(event, 'message.content.0.text')).toBe('hi');
+      expect(getPath(event, 'message.missing.text')).toBeUndefined();
+      expect(getPath(event, undefined)).toBeUndefined();
+    });
+  });
+
+  describe('buildStreamJsonArgs', () => {
+    it('substitutes {prompt} in arguments', () => {
+      expect(buildStreamJsonArgs({ args: ['run', '--prompt={prompt}'], events: {} }, 'fix it'))
+        .toEqual({ args: ['run', '--prompt=fix it'], stdin: undefined });
+    });
+
+    it('writes the prompt to stdin when no argument uses it', () => {
+      expect(buildStreamJsonArgs({ args: ['--json'], events: {} }, 'fix it'))
+        .toEqual({ args: ['--json'], stdin: 'fix it' });
+    });
+  });
+
+  describe('translateStreamJsonEvent', () => {
+    it('ignores unmapped events', () => {
+      expect(translateStreamJsonEvent(mapping, { event: 'heartbeat' })).toEqual([]);
+    });
+
+    it('throws on mapped error events', () => {
+      expect(() => translateStreamJsonEvent(mapping, { event: 'fatal', reason: 'quota exceeded' }))
+        .toThrow('quota exceeded');
+    });
+  });
+
+  describe('customAdapter', () => {
+    it('runs the CLI and maps its events', async () => {
+      const messages = await collect(customAdapter.startRun('Read a.txt', {
+        runId: 'run-1',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        streamJson: { ...mapping, args: ['--task', '{prompt}'] },
+        env: {
+          FAKE_CLI_FIXTURE: path.join(fixturesDir, 'custom-stream.jsonl'),
+          FAKE_CLI_RECORD: recordFile,
+        },
+      }));
+
+      expect(messages).toEqual([
+        { type: 'init', sessionId: 'wrapper-42', systemInfo: { model: 'in-house-7b' } },
+        { type: 'assistant', content: 'Looking at the file.' },
+        { type: 'tool_use', toolUseId: 'c1', toolName: 'read_file', toolInput: { path: 'a.txt' } },
+        { type: 'tool_result', toolUseId: 'c1', toolResult: 'hello', isToolError: false },
+        { type: 'assistant', content: ' It says hello.' },
+        { type: 'result', isComplete: true, content: undefined, usage: { inputTokens: 40, outputTokens: 12 } },
+      ]);
+
+      const [record] = JSON.parse(fs.readFileSync(recordFile, 'utf-8'));
+      expect(record.args).toEqual(['--task', 'Read a.txt']);
+    });
+
+    it('completes the run when the CLI exits without a result event', async () => {
+      const fixture = path.join(tmpDir, 'no-result.jsonl');
+      fs.writeFileSync(fixture, JSON.stringify({ event: 'say', data: { text: 'hi' } }) + '\n');
+
+      const messages = await collect(customAdapter.startRun('Hello', {
+        runId: 'run-2',
+        cwd: tmpDir,
+        cliPath: fakeCli,
+        streamJson: mapping,
+        env: { FAKE_CLI_FIXTURE: fixture },
+      }));
+
+      expect(messages.map(m => m.type)).toEqual(['assistant', 'result']);
+    });
+
+    it('requires a CLI path when a mapping is configured', async () => {
+      await expect(collect(customAdapter.startRun('Hello', {
+        runId: 'run-3',
+        cwd: tmpDir,
+        streamJson: mapping,
+      }))).rejects.toThrow('CLI path');
+    });
+
+    it('uses the OpenAI-compatible endpoint without a mapping', async () => {
+      await expect(collect(customAdapter.startRun('Hello', {
+        runId: 'run-4',
+        cwd: tmpDir,
+        env: {},
+      }))).rejects.toThrow('BASE_URL');
+    });
+  });
+});
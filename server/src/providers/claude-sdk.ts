@@ -1,6 +1,10 @@
 import { query } from '@anthropic-ai/claude-agent-sdk';
-import type { ProviderConfig, PermissionRequest, PermissionMode, MessageInput, MessageAttachment } from '@my-claudia/shared';
+import type { ProviderConfig, PermissionRequest, PermissionMode, PermissionPolicy, SystemPromptMode, MessageInput, MessageAttachment, UsageInfo } from '@my-claudia/shared';
+import { PROVIDER_CAPABILITIES } from '@my-claudia/shared';
 import { fileStore } from '../storage/fileStore.js';
+import type { ProviderAdapter, ProviderRunOptions } from './types.js';
+import { evaluatePermissionPolicy, getPermissionTimeout, getPolicyDecider, isDeniedAsCritical } from './permission-policy.js';
+import { analyzePermissionRisk } from './permission-risk.js';
 
 export interface ClaudeRunOptions {
   cwd: string;
@@ -10,6 +14,16 @@ export interface ClaudeRunOptions {
   env?: Record<string, string>;
   cliPath?: string;
   permissionMode?: PermissionMode;  // 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan'
+  permissionPolicy?: PermissionPolicy;  // Project policy applied before asking the user
+  onPolicyDecision?: PolicyDecisionCallback;  // Tool uses decided without asking, for the audit log
+  systemPrompt?: string;
+  systemPromptMode?: SystemPromptMode;  // 'append' keeps the Claude Code prompt, 'replace' drops it
+  model?: string;
+  fallbackModel?: string;
+  maxTurns?: number;
+  maxThinkingTokens?: number;
+  additionalDirectories?: string[];  // Accessible besides cwd
+  abortController?: AbortController;  // Aborting stops the SDK query and its CLI process
 }
 
 export interface PermissionDecision {
@@ -22,6 +36,13 @@ export type PermissionCallback = (
   request: PermissionRequest
 ) => Promise<PermissionDecision>;
 
+// Reports a tool use that was allowed or denied without asking the user
+export type PolicyDecisionCallback = (
+  request: PermissionRequest,
+  decision: 'allow' | 'deny',
+  decidedBy: string  // policy:<source>, e.g. policy:allowedTools or policy:rule:0
+) => void;
+
 /**
  * Get file data by ID (from local store or Gateway)
  */
@@ -131,6 +152,8 @@ export async function* runClaude(
     cwd: options.cwd,
     allowedTools: options.allowedTools || [],
     disallowedTools: options.disallowedTools || [],
+    // Stream text as it is generated instead of one block at a time
+    includePartialMessages: true,
   };
 
   // Set permission mode (defaults to 'default' if not specified)
@@ -154,6 +177,77 @@ export async function* runClaude(
     sdkOptions.env = options.env;
   }
 
+  if (options.abortController) {
+    sdkOptions.abortController = options.abortController;
+  }
+
+  // Model and agent flags from the provider, project and session settings
+  if (options.model) {
+    sdkOptions.model = options.model;
+  }
+  if (options.fallbackModel) {
+    sdkOptions.fallbackModel = options.fallbackModel;
+  }
+  if (options.maxTurns) {
+    sdkOptions.maxTurns = options.maxTurns;
+  }
+  if (options.maxThinkingTokens) {
+    sdkOptions.maxThinkingTokens = options.maxThinkingTokens;
+  }
+  if (options.additionalDirectories?.length) {
+    sdkOptions.additionalDirectories = options.additionalDirectories;
+  }
+
+  // Custom instructions on top of, or instead of, the Claude Code system prompt
+  if (options.systemPrompt) {
+    sdkOptions.systemPrompt = options.systemPromptMode === 'replace'
+      ? options.systemPrompt
+      : { type: 'preset', preset: 'claude_code', append: options.systemPrompt };
+  }
+
+  // Paths the policy and the risk rating treat as part of the project
+  const policyContext = { cwd: options.cwd, additionalDirectories: options.additionalDirectories };
+
+  // Describe a tool use for a permission request or the audit log
+  const buildRequest = (toolName: string, toolInput: unknown): PermissionRequest => ({
+    requestId: crypto.randomUUID(),
+    toolName,
+    toolInput,
+    detail: JSON.stringify(toolInput, null, 2),
+    timeoutSeconds: getPermissionTimeout(options.permissionPolicy),  // 0 = wait indefinitely
+    editable: true,
+    risk: analyzePermissionRisk(toolName, toolInput, {
+      rootPath: options.cwd,
+      additionalDirectories: options.additionalDirectories,
+    }),
+  });
+  const recordDecision = (toolName: string, toolInput: unknown, decision: 'allow' | 'deny', decidedBy: string) => {
+    options.onPolicyDecision?.(buildRequest(toolName, toolInput), decision, decidedBy);
+  };
+
+  // Deny critical-risk tool uses in every permission mode; canUseTool is not
+  // consulted for edits in acceptEdits mode or for anything in bypassPermissions
+  if (options.permissionPolicy?.denyCritical) {
+    const policy = options.permissionPolicy;
+    sdkOptions.hooks = {
+      PreToolUse: [{
+        hooks: [async (hookInput: { tool_name: string; tool_input: unknown }) => {
+          if (!isDeniedAsCritical(policy, hookInput.tool_name, hookInput.tool_input, policyContext)) {
+            return {};
+          }
+          recordDecision(hookInput.tool_name, hookInput.tool_input, 'deny', 'policy:risk');
+          return {
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse',
+              permissionDecision: 'deny',
+              permissionDecisionReason: 'Denied as critical risk by the project permission policy'
+            }
+          };
+        }]
+      }]
+    };
+  }
+
   // Permission handling callback
   if (onPermissionRequest) {
     sdkOptions.canUseTool = async (
@@ -163,28 +257,52 @@ export async function* runClaude(
     ) => {
       // Check allowed/disallowed lists first
       if (options.allowedTools?.includes(toolName)) {
+        recordDecision(toolName, toolInput, 'allow', 'policy:allowedTools');
         return { behavior: 'allow', updatedInput: toolInput };
       }
       if (options.disallowedTools?.includes(toolName)) {
+        recordDecision(toolName, toolInput, 'deny', 'policy:disallowedTools');
         return { behavior: 'deny', message: 'Tool is disallowed' };
       }
 
-      // Request user decision
-      const requestId = crypto.randomUUID();
-      const decision = await onPermissionRequest({
-        requestId,
-        toolName,
-        toolInput,
-        detail: JSON.stringify(toolInput, null, 2),
-        timeoutSeconds: 0,  // 0 = no timeout, wait indefinitely for user decision
-      });
+      // Then the project policy
+      const policyResult = evaluatePermissionPolicy(options.permissionPolicy, toolName, toolInput, policyContext);
+      if (policyResult.decision) {
+        recordDecision(toolName, toolInput, policyResult.decision, getPolicyDecider(policyResult));
+      }
+      if (policyResult.decision === 'allow') {
+        return { behavior: 'allow', updatedInput: toolInput };
+      }
+      if (policyResult.decision === 'deny') {
+        return { behavior: 'deny', message: 'Tool is disallowed by the project permission policy' };
+      }
 
-      // SDK requires updatedInput when allowing
-      return {
-        behavior: decision.behavior,
-        updatedInput: decision.behavior === 'allow' ? toolInput : undefined,
-        message: decision.message,
-      };
+      // Ask the user. An edited input is checked against the policy again, and
+      // shown to the user once more when the policy does not decide it.
+      let input = toolInput;
+      for (;;) {
+        const decision = await onPermissionRequest(buildRequest(toolName, input));
+        if (decision.behavior === 'deny') {
+          return { behavior: 'deny', message: decision.message };
+        }
+
+        // SDK requires updatedInput when allowing
+        const updatedInput = decision.updatedInput ?? input;
+        if (JSON.stringify(updatedInput) === JSON.stringify(input)) {
+          return { behavior: 'allow', updatedInput };
+        }
+        const editedResult = evaluatePermissionPolicy(options.permissionPolicy, toolName, updatedInput, policyContext);
+        if (editedResult.decision) {
+          recordDecision(toolName, updatedInput, editedResult.decision, getPolicyDecider(editedResult));
+        }
+        if (editedResult.decision === 'allow') {
+          return { behavior: 'allow', updatedInput };
+        }
+        if (editedResult.decision === 'deny') {
+          return { behavior: 'deny', message: 'The edited input is disallowed by the project permission policy' };
+        }
+        input = updatedInput;
+      }
     };
   }
 
@@ -197,16 +315,40 @@ export async function* runClaude(
     options: sdkOptions,
   });
 
+  // Assistant messages whose text already arrived as stream events
+  const streamedMessageIds = new Set<string>();
+  // Usage of each model call so far, by message id
+  const calls = new Map<string, SdkUsage>();
+  let streamingId: string | undefined;
+  // Prompt size of the latest model call, reported with the result
+  let contextTokens: number | undefined;
+
   // Stream messages
   for await (const message of queryInstance) {
-    const transformed = transformMessage(message);
+    const call = getCallUsage(message, streamingId);
+    if (call) {
+      if ((message as { type?: string }).type === 'stream_event') {
+        streamingId = call.id;
+      }
+      const usage = mergeCallUsage(calls.get(call.id), call.usage);
+      calls.set(call.id, usage);
+      contextTokens = getPromptTokens(usage);
+      // Lets the server enforce the per-run budget while the run streams
+      yield { type: 'usage', usage: sumCallUsage(calls) };
+    }
+
+    const transformed = transformMessage(message, streamedMessageIds);
     // transformMessage can return a single message or array of messages
-    if (Array.isArray(transformed)) {
-      for (const msg of transformed) {
-        yield msg;
+    for (const msg of Array.isArray(transformed) ? transformed : [transformed]) {
+      if (msg.type === 'result' && msg.usage && contextTokens !== undefined) {
+        msg.usage.contextTokens = contextTokens;
       }
-    } else {
-      yield transformed;
+      // Report the custom prompt with the rest of the system info
+      if (msg.systemInfo && options.systemPrompt) {
+        msg.systemInfo.systemPrompt = options.systemPrompt;
+        msg.systemInfo.systemPromptMode = options.systemPromptMode || 'append';
+      }
+      yield msg;
     }
   }
 }
@@ -221,10 +363,12 @@ export interface SystemInfo {
   apiKeySource?: string;
   slashCommands?: string[];
   agents?: string[];
+  systemPrompt?: string;
+  systemPromptMode?: SystemPromptMode;
 }
 
 export interface ClaudeMessage {
-  type: 'init' | 'assistant' | 'result' | 'tool_use' | 'tool_result' | 'error';
+  type: 'init' | 'assistant' | 'thinking' | 'usage' | 'result' | 'tool_use' | 'tool_result' | 'error';
   sessionId?: string;
   content?: string;
   systemInfo?: SystemInfo;  // System info from init message
@@ -234,18 +378,116 @@ export interface ClaudeMessage {
   toolResult?: unknown;
   isToolError?: boolean;
   error?: string;
-  usage?: {
-    inputTokens: number;
-    outputTokens: number;
-  };
+  usage?: UsageInfo;
   isComplete?: boolean;
 }
 
+interface SdkUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+// Usage of one model call: from the complete assistant message, or from the
+// start and running totals of a streamed one
+function getCallUsage(message: unknown, streamingId: string | undefined): { id: string; usage: SdkUsage } | undefined {
+  const msg = message as {
+    type?: string;
+    message?: { id?: string; usage?: SdkUsage };
+    event?: { type?: string; message?: { id?: string; usage?: SdkUsage }; usage?: SdkUsage };
+  };
+  if (msg.type === 'assistant' && msg.message?.id && msg.message.usage) {
+    return { id: msg.message.id, usage: msg.message.usage };
+  }
+  if (msg.type !== 'stream_event') {
+    return undefined;
+  }
+  const event = msg.event;
+  if (event?.type === 'message_start' && event.message?.id && event.message.usage) {
+    return { id: event.message.id, usage: event.message.usage };
+  }
+  if (event?.type === 'message_delta' && streamingId && event.usage) {
+    return { id: streamingId, usage: event.usage };
+  }
+  return undefined;
+}
+
+// The counts of a call only grow while it streams; keep the highest of each
+function mergeCallUsage(previous: SdkUsage | undefined, next: SdkUsage): SdkUsage {
+  const max = (key: keyof SdkUsage) => Math.max(previous?.[key] || 0, next[key] || 0);
+  return {
+    input_tokens: max('input_tokens'),
+    output_tokens: max('output_tokens'),
+    cache_read_input_tokens: max('cache_read_input_tokens'),
+    cache_creation_input_tokens: max('cache_creation_input_tokens'),
+  };
+}
+
+function sumCallUsage(calls: Map<string, SdkUsage>): UsageInfo {
+  const total: UsageInfo = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 };
+  for (const usage of calls.values()) {
+    total.inputTokens += usage.input_tokens || 0;
+    total.outputTokens += usage.output_tokens || 0;
+    total.cacheReadTokens! += usage.cache_read_input_tokens || 0;
+    total.cacheCreationTokens! += usage.cache_creation_input_tokens || 0;
+  }
+  return total;
+}
+
+// Input tokens of one model call, including the cached part of the prompt
+function getPromptTokens(usage: SdkUsage): number {
+  return (usage.input_tokens || 0) + (usage.cache_read_input_tokens || 0) + (usage.cache_creation_input_tokens || 0);
+}
+
+// Usage, cost, turns and duration of the SDK result message
+function getResultUsage(msg: Record<string, unknown>): UsageInfo | undefined {
+  const usage = msg.usage as SdkUsage | undefined;
+  if (!usage) return undefined;
+  const info: UsageInfo = {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+  };
+  if (typeof usage.cache_read_input_tokens === 'number') info.cacheReadTokens = usage.cache_read_input_tokens;
+  if (typeof usage.cache_creation_input_tokens === 'number') info.cacheCreationTokens = usage.cache_creation_input_tokens;
+  if (typeof msg.total_cost_usd === 'number') info.costUsd = msg.total_cost_usd;
+  if (typeof msg.num_turns === 'number') info.numTurns = msg.num_turns;
+  if (typeof msg.duration_ms === 'number') info.durationMs = msg.duration_ms;
+  return info;
+}
+
+// Turn a partial-message stream event into text or thinking deltas.
+// Remembers the message it belongs to, whose complete version then skips the streamed blocks.
+function transformStreamEvent(event: Record<string, unknown> | undefined, streamedMessageIds: Set<string>): ClaudeMessage[] {
+  if (event?.type === 'message_start') {
+    const id = (event.message as { id?: string } | undefined)?.id;
+    if (id) {
+      streamedMessageIds.add(id);
+    }
+    return [];
+  }
+  if (event?.type !== 'content_block_delta') {
+    return [];
+  }
+  const delta = event.delta as { type: string; text?: string; thinking?: string } | undefined;
+  if (delta?.type === 'text_delta' && delta.text) {
+    return [{ type: 'assistant', content: delta.text }];
+  }
+  if (delta?.type === 'thinking_delta' && delta.thinking) {
+    return [{ type: 'thinking', content: delta.thinking }];
+  }
+  return [];
+}
+
 // Transform a single message from SDK format to our internal format
 // Returns an array because assistant messages may contain multiple tool_use blocks
-function transformMessage(message: unknown): ClaudeMessage | ClaudeMessage[] {
+function transformMessage(message: unknown, streamedMessageIds: Set<string> = new Set()): ClaudeMessage | ClaudeMessage[] {
   const msg = message as Record<string, unknown>;
 
+  if (msg.type === 'stream_event') {
+    return transformStreamEvent(msg.event as Record<string, unknown> | undefined, streamedMessageIds);
+  }
+
   // Debug log message type
   console.log('[Claude SDK] Message type:', msg.type, 'subtype:', (msg as { subtype?: string }).subtype);
 
@@ -279,6 +521,7 @@ function transformMessage(message: unknown): ClaudeMessage | ClaudeMessage[] {
       const contentBlocks = msgContent?.content as Array<{
         type: string;
         text?: string;
+        thinking?: string;
         id?: string;
         name?: string;
         input?: unknown;
@@ -288,16 +531,28 @@ function transformMessage(message: unknown): ClaudeMessage | ClaudeMessage[] {
         return { type: 'assistant', content: '' };
       }
 
+      // Text and thinking of a streamed message were already yielded as deltas
+      const streamed = streamedMessageIds.has(msgContent?.id as string);
+
       // Process all content blocks and generate multiple messages if needed
       const messages: ClaudeMessage[] = [];
 
       for (const block of contentBlocks) {
+        if (streamed && (block.type === 'text' || block.type === 'thinking')) {
+          continue;
+        }
         if (block.type === 'text' && block.text) {
           // Text content
           messages.push({
             type: 'assistant',
             content: block.text,
           });
+        } else if (block.type === 'thinking' && block.thinking) {
+          // Extended thinking; redacted_thinking blocks carry nothing readable
+          messages.push({
+            type: 'thinking',
+            content: block.thinking,
+          });
         } else if (block.type === 'tool_use') {
           // Tool use block - Claude is calling a tool
           messages.push({
@@ -369,23 +624,13 @@ function transformMessage(message: unknown): ClaudeMessage | ClaudeMessage[] {
           type: 'result',
           content: resultContent,
           isComplete: true,
-          usage: (msg as { usage?: { input_tokens: number; output_tokens: number } }).usage
-            ? {
-                inputTokens: (msg as { usage: { input_tokens: number } }).usage.input_tokens,
-                outputTokens: (msg as { usage: { output_tokens: number } }).usage.output_tokens,
-              }
-            : undefined,
+          usage: getResultUsage(msg),
         };
       }
       return {
         type: 'result',
         isComplete: true,
-        usage: (msg as { usage?: { input_tokens: number; output_tokens: number } }).usage
-          ? {
-              inputTokens: (msg as { usage: { input_tokens: number } }).usage.input_tokens,
-              outputTokens: (msg as { usage: { output_tokens: number } }).usage.output_tokens,
-            }
-          : undefined,
+        usage: getResultUsage(msg),
       };
 
     default:
@@ -420,3 +665,45 @@ export function createClaudeAdapter(provider: ProviderConfig) {
     },
   };
 }
+
+// Abort controllers of runs currently streaming through the Claude adapter
+const claudeRuns = new Map<string, AbortController>();
+
+/**
+ * Claude Agent SDK adapter, registered for the 'claude' provider type
+ */
+export const claudeAdapter: ProviderAdapter = {
+  type: 'claude',
+  name: 'Claude',
+  capabilities: PROVIDER_CAPABILITIES.claude,
+
+  async *startRun(
+    input: string,
+    options: ProviderRunOptions,
+    onPermissionRequest?: PermissionCallback
+  ) {
+    const { runId, ...runOptions } = options;
+    const abortController = options.abortController || new AbortController();
+    claudeRuns.set(runId, abortController);
+    try {
+      for await (const msg of runClaude(input, { ...runOptions, abortController }, onPermissionRequest)) {
+        // Stop streaming once the run has been cancelled
+        if (abortController.signal.aborted) {
+          return;
+        }
+        yield msg;
+      }
+    } catch (error) {
+      // The SDK throws when its query is aborted; cancelled runs end quietly
+      if (abortController.signal.aborted) return;
+      throw error;
+    } finally {
+      claudeRuns.delete(runId);
+    }
+  },
+
+  cancel(runId: string) {
+    claudeRuns.get(runId)?.abort();
+    claudeRuns.delete(runId);
+  },
+};
@@ -0,0 +1,99 @@
+import { spawn, type ChildProcess } from 'child_process';
+import * as readline from 'readline';
+import type { MessageInput } from '@my-claudia/shared';
+
+export interface CliProcessOptions {
+  command: string;
+  args: string[];
+  cwd: string;
+  env?: Record<string, string>;
+  stdin?: string;  // Written to the process and then closed
+}
+
+/**
+ * Extract the prompt text from run input.
+ * Input is either plain text or a JSON-encoded MessageInput with attachments.
+ */
+export function getPromptText(input: string): string {
+  try {
+    const messageInput = JSON.parse(input) as MessageInput;
+    if (typeof messageInput === 'object' && messageInput !== null && 'text' in messageInput) {
+      return messageInput.text;
+    }
+  } catch {
+    // Not JSON, treat as plain text
+  }
+  return input;
+}
+
+/**
+ * Spawn a CLI that writes line-delimited JSON to stdout and yield each parsed line.
+ *
+ * Non-JSON lines are logged and skipped. Throws if the process cannot be started
+ * or exits with a non-zero code; the error message includes stderr output.
+ * The process is killed if the consumer stops iterating early.
+ */
+export async function* streamJsonLines(
+  options: CliProcessOptions,
+  onSpawn?: (child: ChildProcess) => void
+): AsyncGenerator<Record<string, unknown>, void, void> {
+  const child = spawn(options.command, options.args, {
+    cwd: options.cwd,
+    // Provider env extends the server env so PATH etc. stay available
+    env: { ...process.env, ...options.env },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  onSpawn?.(child);
+
+  let stderr = '';
+  child.stderr?.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+
+  let spawnError: Error | undefined;
+  const exited = new Promise<number | null>((resolve) => {
+    child.on('error', (error) => {
+      spawnError = error;
+      resolve(null);
+    });
+    child.on('close', (code) => resolve(code));
+  });
+
+  if (options.stdin !== undefined) {
+    child.stdin?.end(options.stdin);
+  } else {
+    child.stdin?.end();
+  }
+
+  try {
+    const lines = readline.createInterface({ input: child.stdout!, crlfDelay: Infinity });
+    for await (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      let event: unknown;
+      try {
+        event = JSON.parse(trimmed);
+      } catch {
+        console.warn(`[CLI] Ignoring non-JSON output from ${options.command}:`, trimmed);
+        continue;
+      }
+      if (typeof event === 'object' && event !== null) {
+        yield event as Record<string, unknown>;
+      }
+    }
+
+    const code = await exited;
+    if (spawnError) {
+      throw new Error(`Failed to start ${options.command}: ${spawnError.message}`);
+    }
+    // Killed processes (cancelled runs) report a null exit code
+    if (code !== 0 && code !== null) {
+      throw new Error(stderr.trim() || `${options.command} exited with code ${code}`);
+    }
+  } finally {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill('SIGTERM');
+    }
+  }
+}
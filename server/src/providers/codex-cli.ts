@@ -0,0 +1,246 @@
+import type { ChildProcess } from 'child_process';
+import type { PermissionMode } from '@my-claudia/shared';
+import { PROVIDER_CAPABILITIES } from '@my-claudia/shared';
+import type { ClaudeMessage } from './claude-sdk.js';
+import type { ProviderAdapter, ProviderRunOptions } from './types.js';
+import { getPromptText, streamJsonLines } from './cli-process.js';
+
+/**
+ * Codex CLI adapter
+ *
+ * Runs `codex exec --json` (non-interactive mode) and translates its JSONL
+ * event stream into the internal ClaudeMessage events.
+ *
+ * Event shapes (one JSON object per line):
+ *   { type: 'thread.started', thread_id }
+ *   { type: 'item.started' | 'item.updated' | 'item.completed', item: { id, type, ... } }
+ *   { type: 'turn.completed', usage: { input_tokens, cached_input_tokens, output_tokens } }
+ *   { type: 'turn.failed', error: { message } }
+ *   { type: 'error', message }
+ */
+
+interface CodexItem {
+  id: string;
+  type: string;
+  text?: string;
+  // command_execution
+  command?: string;
+  aggregated_output?: string;
+  exit_code?: number | null;
+  status?: string;
+  // file_change
+  changes?: Array<{ path: string; kind: string }>;
+  // mcp_tool_call
+  server?: string;
+  tool?: string;
+  arguments?: unknown;
+  result?: unknown;
+  error?: { message?: string } | null;
+  // web_search
+  query?: string;
+  // todo_list
+  items?: Array<{ text: string; completed: boolean }>;
+}
+
+// Codex exec cannot prompt for approval, so permission modes map to sandbox levels
+function getSandboxArgs(permissionMode?: PermissionMode): string[] {
+  switch (permissionMode) {
+    case 'plan':
+      return ['--sandbox', 'read-only'];
+    case 'bypassPermissions':
+      return ['--dangerously-bypass-approvals-and-sandbox'];
+    default:
+      return ['--sandbox', 'workspace-write'];
+  }
+}
+
+export function buildCodexArgs(options: ProviderRunOptions): string[] {
+  const args = [
+    'exec',
+    '--json',
+    '--skip-git-repo-check',
+    '--cd', options.cwd,
+    ...getSandboxArgs(options.permissionMode),
+  ];
+
+  const model = options.model || options.env?.CODEX_MODEL;
+  if (model) {
+    args.push('--model', model);
+  }
+
+  for (const dir of options.additionalDirectories || []) {
+    args.push('--add-dir', dir);
+  }
+
+  // Prompt is read from stdin ("-") to avoid argument length limits
+  if (options.sessionId) {
+    args.push('resume', options.sessionId, '-');
+  } else {
+    args.push('-');
+  }
+
+  return args;
+}
+
+// Map a Codex item to the tool name/input shown in the UI
+function toToolUse(item: CodexItem): { toolName: string; toolInput: unknown } | null {
+  switch (item.type) {
+    case 'command_execution':
+      return { toolName: 'Bash', toolInput: { command: item.command } };
+    case 'file_change':
+      return { toolName: 'Edit', toolInput: { changes: item.changes } };
+    case 'mcp_tool_call':
+      return { toolName: `mcp__${item.server}__${item.tool}`, toolInput: item.arguments ?? {} };
+    case 'web_search':
+      return { toolName: 'WebSearch', toolInput: { query: item.query } };
+    case 'todo_list':
+      return { toolName: 'TodoWrite', toolInput: { todos: item.items } };
+    default:
+      return null;
+  }
+}
+
+function toToolResult(item: CodexItem): { toolResult: unknown; isToolError: boolean } {
+  switch (item.type) {
+    case 'command_execution':
+      return {
+        toolResult: item.aggregated_output ?? '',
+        isToolError: item.status === 'failed' || (item.exit_code != null && item.exit_code !== 0),
+      };
+    case 'file_change':
+      return {
+        toolResult: (item.changes || []).map(c => `${c.kind}: ${c.path}`).join('\n'),
+        isToolError: item.status === 'failed',
+      };
+    case 'mcp_tool_call':
+      return {
+        toolResult: item.error?.message ?? item.result ?? '',
+        isToolError: item.status === 'failed' || !!item.error,
+      };
+    default:
+      return { toolResult: '', isToolError: item.status === 'failed' };
+  }
+}
+
+/**
+ * Stateful translator from Codex events to ClaudeMessages for one run
+ */
+export function createCodexEventTranslator(options: Pick<ProviderRunOptions, 'cwd' | 'permissionMode'>) {
+  const startedTools = new Set<string>();
+  let hasText = false;
+
+  return function translate(event: Record<string, unknown>): ClaudeMessage[] {
+    switch (event.type) {
+      case 'thread.started':
+        return [{
+          type: 'init',
+          sessionId: event.thread_id as string,
+          systemInfo: {
+            model: (event.model as string | undefined) || 'codex',
+            cwd: options.cwd,
+            permissionMode: options.permissionMode,
+          },
+        }];
+
+      case 'item.started': {
+        const item = event.item as CodexItem;
+        const toolUse = toToolUse(item);
+        if (!toolUse || startedTools.has(item.id)) return [];
+        startedTools.add(item.id);
+        return [{ type: 'tool_use', toolUseId: item.id, ...toolUse }];
+      }
+
+      case 'item.completed': {
+        const item = event.item as CodexItem;
+
+        if (item.type === 'agent_message') {
+          if (!item.text) return [];
+          // Separate consecutive agent messages so they don't run together
+          const content = hasText ? `\n\n${item.text}` : item.text;
+          hasText = true;
+          return [{ type: 'assistant', content }];
+        }
+
+        const toolUse = toToolUse(item);
+        if (!toolUse) return [];
+
+        const messages: ClaudeMessage[] = [];
+        // Some items (e.g. file changes) only arrive completed
+        if (!startedTools.has(item.id)) {
+          startedTools.add(item.id);
+          messages.push({ type: 'tool_use', toolUseId: item.id, ...toolUse });
+        }
+        messages.push({ type: 'tool_result', toolUseId: item.id, ...toToolResult(item) });
+        return messages;
+      }
+
+      case 'turn.completed': {
+        const usage = event.usage as { input_tokens?: number; cached_input_tokens?: number; output_tokens?: number } | undefined;
+        return [{
+          type: 'result',
+          isComplete: true,
+          usage: usage
+            ? {
+                inputTokens: usage.input_tokens || 0,
+                outputTokens: usage.output_tokens || 0,
+                ...(usage.cached_input_tokens ? { cacheReadTokens: usage.cached_input_tokens } : {}),
+              }
+            : undefined,
+        }];
+      }
+
+      case 'turn.failed': {
+        const error = event.error as { message?: string } | undefined;
+        throw new Error(error?.message || 'Codex turn failed');
+      }
+
+      case 'error':
+        throw new Error((event.message as string) || 'Codex error');
+
+      default:
+        return [];
+    }
+  };
+}
+
+// Child processes of runs currently streaming through the Codex adapter
+const codexRuns = new Map<string, ChildProcess>();
+
+export const codexAdapter: ProviderAdapter = {
+  type: 'codex',
+  name: 'Codex',
+  capabilities: PROVIDER_CAPABILITIES.codex,
+
+  async *startRun(input: string, options: ProviderRunOptions) {
+    const translate = createCodexEventTranslator(options);
+
+    try {
+      const events = streamJsonLines(
+        {
+          command: options.cliPath || 'codex',
+          args: buildCodexArgs(options),
+          cwd: options.cwd,
+          env: options.env,
+          stdin: getPromptText(input),
+        },
+        (child) => codexRuns.set(options.runId, child)
+      );
+
+      for await (const event of events) {
+        for (const msg of translate(event)) {
+          yield msg;
+        }
+      }
+    } finally {
+      codexRuns.delete(options.runId);
+    }
+  },
+
+  cancel(runId: string) {
+    const child = codexRuns.get(runId);
+    if (child) {
+      child.kill('SIGTERM');
+      codexRuns.delete(runId);
+    }
+  },
+};
@@ -0,0 +1,375 @@
+import type { ChildProcess } from 'child_process';
+import { execFile } from 'child_process';
+import { PROVIDER_CAPABILITIES } from '@my-claudia/shared';
+import type { ClaudeMessage, PermissionCallback } from './claude-sdk.js';
+import type { ProviderAdapter, ProviderRunOptions } from './types.js';
+import { getPromptText, streamJsonLines } from './cli-process.js';
+import { evaluatePermissionPolicy, getPermissionTimeout, getPolicyDecider } from './permission-policy.js';
+import { analyzePermissionRisk } from './permission-risk.js';
+
+/**
+ * Cursor agent CLI adapter
+ *
+ * Runs `cursor-agent --print --output-format stream-json` and translates its
+ * event stream into the internal ClaudeMessage events.
+ *
+ * Event shapes (one JSON object per line):
+ *   { type: 'system', subtype: 'init', session_id, model, cwd, apiKeySource, permissionMode }
+ *   { type: 'assistant', message: { content: [{ type: 'text', text }] } }
+ *   { type: 'tool_call', subtype: 'started' | 'completed', call_id, tool_call: { <name>ToolCall: { args, result? } } }
+ *   { type: 'result', subtype: 'success', is_error, result, duration_ms }
+ *
+ * In print mode the CLI cannot ask for approval. Tool calls it refuses come back
+ * with a `rejected` result; those are surfaced as permission requests, and if the
+ * user allows them the chat is resumed with --force so the agent can retry. The
+ * forced process is stopped at any other tool call, and the chat resumed without
+ * --force so that call is rejected and asked about in turn.
+ *
+ * The CLI has no per-call approval, so this is a race: the forced process is only
+ * stopped once it reports the other call as started, and by then the tool may have
+ * partly or fully run. The project settings warn about this for Cursor projects.
+ *
+ * In acceptEdits and bypassPermissions mode every process runs with --force, so
+ * nothing is rejected and the permission policy (including denyCritical) is not
+ * consulted; the policy editor points this out for Cursor projects.
+ */
+
+interface CursorToolCall {
+  args?: Record<string, unknown>;
+  result?: {
+    success?: Record<string, unknown>;
+    error?: { message?: string } & Record<string, unknown>;
+    rejected?: { reason?: string } & Record<string, unknown>;
+  };
+}
+
+export interface CursorRejection {
+  toolUseId: string;
+  toolName: string;
+  toolInput: unknown;
+  reason?: string;
+}
+
+// Known Cursor tool call keys mapped to the tool names used elsewhere in the UI
+const TOOL_NAMES: Record<string, string> = {
+  readToolCall: 'Read',
+  writeToolCall: 'Write',
+  editToolCall: 'Edit',
+  deleteToolCall: 'Delete',
+  shellToolCall: 'Bash',
+  grepToolCall: 'Grep',
+  globToolCall: 'Glob',
+  lsToolCall: 'LS',
+  updateTodosToolCall: 'TodoWrite',
+};
+
+function parseToolCall(toolCall: Record<string, unknown>): { toolName: string; call: CursorToolCall } | null {
+  const [key] = Object.keys(toolCall);
+  if (!key) return null;
+
+  // Generic function call: { function: { name, arguments: '<json>' } }
+  if (key === 'function') {
+    const fn = toolCall.function as { name?: string; arguments?: string; result?: CursorToolCall['result'] };
+    let args: Record<string, unknown> = {};
+    try {
+      args = fn.arguments ? JSON.parse(fn.arguments) : {};
+    } catch {
+      args = { arguments: fn.arguments };
+    }
+    return { toolName: fn.name || 'function', call: { args, result: fn.result } };
+  }
+
+  const name = TOOL_NAMES[key]
+    ?? key.replace(/ToolCall$/, '').replace(/^\w/, c => c.toUpperCase());
+  return { toolName: name, call: toolCall[key] as CursorToolCall };
+}
+
+function formatSuccess(toolName: string, success: Record<string, unknown>): unknown {
+  switch (toolName) {
+    case 'Read':
+      return success.content ?? '';
+    case 'Bash':
+      return [success.stdout, success.stderr].filter(Boolean).join('\n');
+    case 'Write':
+      return `Wrote ${success.linesCreated ?? 0} lines to ${success.path ?? ''}`;
+    default:
+      return success;
+  }
+}
+
+export function buildCursorArgs(prompt: string, options: ProviderRunOptions, force: boolean): string[] {
+  const args = ['--print', '--output-format', 'stream-json'];
+
+  const model = options.model || options.env?.CURSOR_MODEL;
+  if (model) {
+    args.push('--model', model);
+  }
+  if (options.sessionId) {
+    args.push('--resume', options.sessionId);
+  }
+  if (force) {
+    args.push('--force');
+  }
+
+  args.push(prompt);
+  return args;
+}
+
+/**
+ * Stateful translator from Cursor events to ClaudeMessages for one CLI process
+ */
+export function createCursorEventTranslator(options: {
+  cwd: string;
+  permissionMode?: string;
+  version?: string;
+}) {
+  let hasText = false;
+  const rejections: CursorRejection[] = [];
+
+  function translate(event: Record<string, unknown>): ClaudeMessage[] {
+    switch (event.type) {
+      case 'system':
+        if (event.subtype !== 'init') return [];
+        return [{
+          type: 'init',
+          sessionId: event.session_id as string,
+          systemInfo: {
+            model: event.model as string | undefined,
+            claudeCodeVersion: options.version,
+            cwd: (event.cwd as string | undefined) || options.cwd,
+            permissionMode: options.permissionMode || (event.permissionMode as string | undefined),
+            apiKeySource: event.apiKeySource as string | undefined,
+          },
+        }];
+
+      case 'assistant': {
+        const message = event.message as { content?: Array<{ type: string; text?: string }> } | undefined;
+        const text = (message?.content || [])
+          .filter(block => block.type === 'text' && block.text)
+          .map(block => block.text)
+          .join('');
+        if (!text) return [];
+        hasText = true;
+        return [{ type: 'assistant', content: text }];
+      }
+
+      case 'tool_call': {
+        const parsed = parseToolCall((event.tool_call || {}) as Record<string, unknown>);
+        if (!parsed) return [];
+        const toolUseId = event.call_id as string;
+        const { toolName, call } = parsed;
+
+        if (event.subtype === 'started') {
+          return [{ type: 'tool_use', toolUseId, toolName, toolInput: call.args ?? {} }];
+        }
+        if (event.subtype !== 'completed') return [];
+
+        const result = call.result || {};
+        if (result.rejected) {
+          rejections.push({ toolUseId, toolName, toolInput: call.args ?? {}, reason: result.rejected.reason });
+          return [{
+            type: 'tool_result',
+            toolUseId,
+            toolResult: `Rejected: ${result.rejected.reason || 'approval required'}`,
+            isToolError: true,
+          }];
+        }
+        if (result.error) {
+          return [{
+            type: 'tool_result',
+            toolUseId,
+            toolResult: result.error.message ?? result.error,
+            isToolError: true,
+          }];
+        }
+        return [{
+          type: 'tool_result',
+          toolUseId,
+          toolResult: result.success ? formatSuccess(toolName, result.success) : '',
+          isToolError: false,
+        }];
+      }
+
+      case 'result':
+        if (event.is_error) {
+          throw new Error((event.result as string) || 'Cursor agent failed');
+        }
+        // Result text repeats the assistant messages; only use it if nothing was streamed
+        return [{
+          type: 'result',
+          isComplete: true,
+          content: hasText ? undefined : (event.result as string | undefined),
+        }];
+
+      default:
+        return [];
+    }
+  }
+
+  return {
+    translate,
+    // Rejected tool calls collected since the last call
+    takeRejections(): CursorRejection[] {
+      return rejections.splice(0, rejections.length);
+    },
+  };
+}
+
+// CLI versions by command, looked up once per server process
+const versionCache = new Map<string, Promise<string | undefined>>();
+
+function getCursorVersion(command: string, env?: Record<string, string>): Promise<string | undefined> {
+  let version = versionCache.get(command);
+  if (!version) {
+    version = new Promise((resolve) => {
+      execFile(command, ['--version'], { env: { ...process.env, ...env }, timeout: 5000 }, (error, stdout) => {
+        resolve(error ? undefined : stdout.trim() || undefined);
+      });
+    });
+    versionCache.set(command, version);
+  }
+  return version;
+}
+
+// JSON with sorted object keys, so a retried call matches whatever order its arguments come in
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : val);
+}
+
+// Remove the approved call matching a tool use; false when the tool use was not approved
+function takeApprovedCall(approved: CursorRejection[], toolName?: string, toolInput?: unknown): boolean {
+  const input = canonicalJson(toolInput ?? {});
+  const index = approved.findIndex(call => call.toolName === toolName && canonicalJson(call.toolInput) === input);
+  if (index === -1) return false;
+  approved.splice(index, 1);
+  return true;
+}
+
+// Child processes of runs currently streaming through the Cursor adapter
+// (null until the first process has been spawned)
+const cursorRuns = new Map<string, ChildProcess | null>();
+
+async function requestApproval(
+  rejection: CursorRejection,
+  onPermissionRequest: PermissionCallback,
+  options: ProviderRunOptions
+): Promise<boolean> {
+  const request = {
+    requestId: crypto.randomUUID(),
+    toolName: rejection.toolName,
+    toolInput: rejection.toolInput,
+    detail: JSON.stringify(rejection.toolInput, null, 2),
+    timeoutSeconds: getPermissionTimeout(options.permissionPolicy),
+    risk: analyzePermissionRisk(rejection.toolName, rejection.toolInput, {
+      rootPath: options.cwd,
+      additionalDirectories: options.additionalDirectories,
+    }),
+  };
+
+  const policyResult = evaluatePermissionPolicy(options.permissionPolicy, rejection.toolName, rejection.toolInput, {
+    cwd: options.cwd,
+    additionalDirectories: options.additionalDirectories,
+  });
+  if (policyResult.decision) {
+    options.onPolicyDecision?.(request, policyResult.decision, getPolicyDecider(policyResult));
+    return policyResult.decision === 'allow';
+  }
+
+  const decision = await onPermissionRequest(request);
+  return decision.behavior === 'allow';
+}
+
+export const cursorAdapter: ProviderAdapter = {
+  type: 'cursor',
+  name: 'Cursor',
+  capabilities: PROVIDER_CAPABILITIES.cursor,
+
+  async *startRun(input: string, options: ProviderRunOptions, onPermissionRequest?: PermissionCallback) {
+    const command = options.cliPath || 'cursor-agent';
+    const version = await getCursorVersion(command, options.env);
+
+    let prompt = getPromptText(input);
+    let sessionId = options.sessionId;
+    const alwaysForce = options.permissionMode === 'acceptEdits' || options.permissionMode === 'bypassPermissions';
+    // Tool calls approved for the current forced resume; undefined when not resuming
+    let forcedCalls: CursorRejection[] | undefined;
+    let initSent = false;
+    cursorRuns.set(options.runId, null);
+
+    try {
+      // Approved rejections resume the chat with --force, so one run may span several processes
+      for (;;) {
+        const translator = createCursorEventTranslator({ cwd: options.cwd, permissionMode: options.permissionMode, version });
+        const approved: CursorRejection[] = [];
+        let result: ClaudeMessage | undefined;
+        let stoppedUnapproved = false;
+
+        const events = streamJsonLines(
+          {
+            command,
+            args: buildCursorArgs(prompt, { ...options, sessionId }, alwaysForce || forcedCalls !== undefined),
+            cwd: options.cwd,
+            env: options.env,
+          },
+          (child) => cursorRuns.set(options.runId, child)
+        );
+
+        processEvents: for await (const event of events) {
+          for (const msg of translator.translate(event)) {
+            // --force would let this tool call run without approval
+            if (forcedCalls && msg.type === 'tool_use' && !takeApprovedCall(forcedCalls, msg.toolName, msg.toolInput)) {
+              stoppedUnapproved = true;
+              break processEvents;
+            }
+            if (msg.type === 'init') {
+              sessionId = msg.sessionId || sessionId;
+              if (initSent) continue;
+              initSent = true;
+            }
+            // Hold the result back until we know whether the chat continues
+            if (msg.type === 'result') {
+              result = msg;
+              continue;
+            }
+            yield msg;
+          }
+
+          if (onPermissionRequest) {
+            for (const rejection of translator.takeRejections()) {
+              if (await requestApproval(rejection, onPermissionRequest, options)) {
+                approved.push(rejection);
+              }
+            }
+          }
+        }
+
+        if (stoppedUnapproved && sessionId && cursorRuns.has(options.runId)) {
+          console.log(`[Cursor] ${options.runId} stopped at a tool call that was not approved; resuming without --force`);
+          prompt = 'Continue the task.';
+          forcedCalls = undefined;
+          continue;
+        }
+
+        if (approved.length === 0 || !sessionId || !cursorRuns.has(options.runId)) {
+          if (result) yield result;
+          return;
+        }
+
+        prompt = 'The user approved the following tool calls. Run them now and continue the task:\n'
+          + approved.map(r => `- ${r.toolName}: ${JSON.stringify(r.toolInput)}`).join('\n');
+        forcedCalls = approved;
+      }
+    } finally {
+      cursorRuns.delete(options.runId);
+    }
+  },
+
+  cancel(runId: string) {
+    const child = cursorRuns.get(runId);
+    cursorRuns.delete(runId);
+    child?.kill('SIGTERM');
+  },
+};
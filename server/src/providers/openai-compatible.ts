@@ -0,0 +1,215 @@
+import type { ProviderType } from '@my-claudia/shared';
+import { PROVIDER_CAPABILITIES } from '@my-claudia/shared';
+import type { ClaudeMessage } from './claude-sdk.js';
+import type { ProviderAdapter, ProviderRunOptions } from './types.js';
+import { getPromptText } from './cli-process.js';
+
+/**
+ * OpenAI-compatible chat provider
+ *
+ * Chat-only adapter for any endpoint implementing POST {baseUrl}/chat/completions
+ * with streaming (server-sent events). Used by the openrouter, glm and custom
+ * provider types. Configuration comes from ProviderConfig.env:
+ *
+ *   BASE_URL  API base URL, e.g. https://openrouter.ai/api/v1
+ *   API_KEY   Bearer token
+ *   MODEL     Model name sent with each request
+ *
+ * The endpoint keeps no session state, so earlier turns are sent with each
+ * request from ProviderRunOptions.history. A custom system prompt is sent as
+ * the system message; there is no default prompt to append it to.
+ */
+
+interface OpenAICompatibleDefaults {
+  baseUrl?: string;
+  model?: string;
+  apiKeyEnv?: string;  // Provider-specific key variable, checked after API_KEY
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  } | null;
+  error?: { message?: string };
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+export function resolveOpenAICompatibleConfig(
+  env: Record<string, string> | undefined,
+  defaults: OpenAICompatibleDefaults
+): OpenAICompatibleConfig {
+  const baseUrl = env?.BASE_URL || env?.OPENAI_BASE_URL || defaults.baseUrl;
+  const model = env?.MODEL || env?.OPENAI_MODEL || defaults.model;
+  const apiKey = env?.API_KEY || env?.OPENAI_API_KEY
+    || (defaults.apiKeyEnv ? env?.[defaults.apiKeyEnv] : undefined);
+
+  if (!baseUrl) {
+    throw new Error('BASE_URL is not configured for this provider');
+  }
+  if (!model) {
+    throw new Error('MODEL is not configured for this provider');
+  }
+
+  return { baseUrl: baseUrl.replace(/\/+$/, ''), apiKey, model };
+}
+
+// Read an SSE response body and yield the JSON payload of each data line
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatCompletionChunk, void, void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+
+        try {
+          yield JSON.parse(data) as ChatCompletionChunk;
+        } catch {
+          console.warn('[OpenAI Compatible] Ignoring malformed event:', data);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function getErrorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text) as { error?: { message?: string } | string };
+    const message = typeof body.error === 'string' ? body.error : body.error?.message;
+    if (message) return message;
+  } catch {
+    // Not JSON
+  }
+  return text || `Request failed with status ${response.status}`;
+}
+
+export function createOpenAICompatibleAdapter(
+  type: ProviderType,
+  name: string,
+  defaults: OpenAICompatibleDefaults = {}
+): ProviderAdapter {
+  // Abort controllers of in-flight requests by run ID
+  const requests = new Map<string, AbortController>();
+
+  return {
+    type,
+    name,
+    capabilities: PROVIDER_CAPABILITIES[type],
+
+    async *startRun(input: string, options: ProviderRunOptions): AsyncGenerator<ClaudeMessage, void, void> {
+      // A model chosen in the agent settings wins over MODEL
+      const config = resolveOpenAICompatibleConfig(
+        options.model ? { ...options.env, MODEL: options.model } : options.env,
+        defaults
+      );
+      const abortController = new AbortController();
+      requests.set(options.runId, abortController);
+
+      try {
+        yield {
+          type: 'init',
+          systemInfo: {
+            model: config.model,
+            cwd: options.cwd,
+            systemPrompt: options.systemPrompt,
+            systemPromptMode: options.systemPrompt ? 'replace' : undefined,
+          },
+        };
+
+        const messages = [
+          ...(options.systemPrompt ? [{ role: 'system', content: options.systemPrompt }] : []),
+          ...(options.history || []),
+          { role: 'user', content: getPromptText(input) },
+        ];
+
+        const response = await fetch(`${config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: config.model,
+            messages,
+            stream: true,
+            stream_options: { include_usage: true },
+          }),
+          signal: abortController.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw new Error(await getErrorMessage(response));
+        }
+
+        let usage: ClaudeMessage['usage'];
+        for await (const chunk of readServerSentEvents(response.body)) {
+          if (chunk.error) {
+            throw new Error(chunk.error.message || 'Provider returned an error');
+          }
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) {
+            yield { type: 'assistant', content };
+          }
+          if (chunk.usage) {
+            usage = {
+              inputTokens: chunk.usage.prompt_tokens || 0,
+              outputTokens: chunk.usage.completion_tokens || 0,
+            };
+          }
+        }
+
+        yield { type: 'result', isComplete: true, usage };
+      } catch (error) {
+        // Cancelled runs end quietly
+        if (abortController.signal.aborted) return;
+        throw error;
+      } finally {
+        requests.delete(options.runId);
+      }
+    },
+
+    cancel(runId: string) {
+      requests.get(runId)?.abort();
+      requests.delete(runId);
+    },
+  };
+}
+
+export const openRouterAdapter = createOpenAICompatibleAdapter('openrouter', 'OpenRouter', {
+  baseUrl: 'https://openrouter.ai/api/v1',
+  model: 'openrouter/auto',
+  apiKeyEnv: 'OPENROUTER_API_KEY',
+});
+
+export const glmAdapter = createOpenAICompatibleAdapter('glm', 'GLM', {
+  baseUrl: 'https://open.bigmodel.cn/api/paas/v4',
+  model: 'glm-4.6',
+  apiKeyEnv: 'GLM_API_KEY',
+});
+
+export const customHttpAdapter = createOpenAICompatibleAdapter('custom', 'Custom (OpenAI compatible)');
@@ -0,0 +1,75 @@
+import type { PermissionPolicy, PermissionPolicyResult } from '@my-claudia/shared';
+import { findPermissionRuleIndex, type PermissionRuleContext } from './permission-rules.js';
+import { analyzePermissionRisk } from './permission-risk.js';
+
+// Whether the policy denies this tool use outright because of its risk
+export function isDeniedAsCritical(
+  policy: PermissionPolicy | undefined,
+  toolName: string,
+  toolInput: unknown,
+  context: PermissionRuleContext = {}
+): boolean {
+  return !!policy?.denyCritical &&
+    analyzePermissionRisk(toolName, toolInput, {
+      rootPath: context.cwd,
+      additionalDirectories: context.additionalDirectories,
+      homeDir: context.homeDir,
+    }).level === 'critical';
+}
+
+/**
+ * Evaluate the project's permission policy for a tool use.
+ * Critical-risk inputs are denied first when denyCritical is set; then pattern
+ * rules are checked in order; then disallowed tools win over allowed ones and
+ * over autoApprove.
+ */
+export function evaluatePermissionPolicy(
+  policy: PermissionPolicy | undefined,
+  toolName: string,
+  toolInput?: unknown,
+  context?: PermissionRuleContext
+): PermissionPolicyResult {
+  if (!policy) {
+    return { source: 'none' };
+  }
+  if (isDeniedAsCritical(policy, toolName, toolInput, context)) {
+    return { decision: 'deny', source: 'risk' };
+  }
+  const ruleIndex = findPermissionRuleIndex(policy.rules, toolName, toolInput, context);
+  if (ruleIndex !== -1) {
+    return { decision: policy.rules![ruleIndex].decision, source: 'rule', ruleIndex };
+  }
+  if (policy.disallowedTools?.includes(toolName)) {
+    return { decision: 'deny', source: 'disallowedTools' };
+  }
+  if (policy.allowedTools?.includes(toolName)) {
+    return { decision: 'allow', source: 'allowedTools' };
+  }
+  if (policy.autoApprove) {
+    return { decision: 'allow', source: 'autoApprove' };
+  }
+  return { source: 'none' };
+}
+
+/**
+ * Decide a tool use from the project's permission policy.
+ * Returns undefined when the policy has no opinion and the user must be asked.
+ */
+export function checkPermissionPolicy(
+  policy: PermissionPolicy | undefined,
+  toolName: string,
+  toolInput?: unknown,
+  context?: PermissionRuleContext
+): 'allow' | 'deny' | undefined {
+  return evaluatePermissionPolicy(policy, toolName, toolInput, context).decision;
+}
+
+// Decider recorded in the audit log for a decision of the policy, e.g. policy:rule:2
+export function getPolicyDecider(result: PermissionPolicyResult): string {
+  return result.source === 'rule' ? `policy:rule:${result.ruleIndex}` : `policy:${result.source}`;
+}
+
+// Seconds to wait for a decision before the request times out (0 = wait indefinitely)
+export function getPermissionTimeout(policy: PermissionPolicy | undefined): number {
+  return Math.max(0, policy?.timeoutSeconds || 0);
+}
@@ -0,0 +1,132 @@
+import os from 'os';
+import path from 'path';
+import type { PermissionRisk, PermissionRiskLevel } from '@my-claudia/shared';
+
+/**
+ * Flag dangerous tool inputs so the user sees why a request deserves a second look.
+ * The analysis is heuristic: a low level means nothing was recognized, not that the input is safe.
+ */
+
+export interface PermissionRiskContext {
+  rootPath?: string;
+  additionalDirectories?: string[];  // Count as part of the project
+  homeDir?: string;
+}
+
+const LEVELS: PermissionRiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+const FILE_WRITE_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+const FILE_READ_TOOLS = ['Read'];
+
+interface CommandCheck {
+  pattern: RegExp;
+  level: PermissionRiskLevel;
+  reason: string;
+}
+
+const COMMAND_CHECKS: CommandCheck[] = [
+  {
+    pattern: /\b(curl|wget)\b[^|;&]*\|\s*(sudo\s+)?(ba|z|da)?sh\b/,
+    level: 'critical',
+    reason: 'Pipes a downloaded script into a shell'
+  },
+  {
+    pattern: /\bgit\s+push\b.*(\s--force(-with-lease)?\b|\s-[a-zA-Z]*f\b|\s\+\S)/,
+    level: 'high',
+    reason: 'Force pushes and can overwrite remote history'
+  },
+  {
+    pattern: /(^|[;&|]\s*)sudo\s/,
+    level: 'medium',
+    reason: 'Runs a command as root'
+  }
+];
+
+const RECURSIVE_DELETE = /\brm\s+(-[a-zA-Z-]*\s+)*(-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)(\s|$)/;
+// The target of a recursive delete is the root, home or current directory
+const DELETE_EVERYTHING = /\brm\s+(-[a-zA-Z-]*\s+)+(\/|~\/?|\$HOME\/?|\*|\.\/?)(\s|$)/;
+
+// Path parts of files that hold secrets
+const CREDENTIAL_PATTERNS = [
+  /(^|\/)\.ssh\//,
+  /(^|\/)\.aws\//,
+  /(^|\/)\.gnupg\//,
+  /(^|\/)\.kube\/config$/,
+  /(^|\/)\.docker\/config\.json$/,
+  /(^|\/)\.(netrc|npmrc|pypirc|git-credentials)$/,
+  /(^|\/)\.env(\.(?!example$|sample$|template$)[^/]*)?$/,
+  /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/,
+  /\.(pem|key|p12|pfx)$/,
+  /(^|\/)credentials(\.json)?$/
+];
+
+function maxLevel(a: PermissionRiskLevel, b: PermissionRiskLevel): PermissionRiskLevel {
+  return LEVELS.indexOf(a) >= LEVELS.indexOf(b) ? a : b;
+}
+
+function isInside(target: string, dir: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function inProject(target: string, context: PermissionRiskContext): boolean {
+  if (!context.rootPath) return false;
+  return [context.rootPath, ...(context.additionalDirectories || [])]
+    .some(dir => isInside(target, path.resolve(context.rootPath!, dir)));
+}
+
+function getInputString(toolInput: unknown, keys: string[]): string | undefined {
+  if (!toolInput || typeof toolInput !== 'object') return undefined;
+  const obj = toolInput as Record<string, unknown>;
+  const key = keys.find(k => typeof obj[k] === 'string');
+  return key ? obj[key] as string : undefined;
+}
+
+export function analyzePermissionRisk(
+  toolName: string,
+  toolInput: unknown,
+  context: PermissionRiskContext = {}
+): PermissionRisk {
+  const risk: PermissionRisk = { level: 'low', reasons: [] };
+  const flag = (level: PermissionRiskLevel, reason: string) => {
+    risk.level = maxLevel(risk.level, level);
+    risk.reasons.push(reason);
+  };
+
+  const command = toolName === 'Bash' ? getInputString(toolInput, ['command']) : undefined;
+  if (command) {
+    if (RECURSIVE_DELETE.test(command)) {
+      if (DELETE_EVERYTHING.test(command)) {
+        flag('critical', 'Recursively deletes the root, home or working directory');
+      } else {
+        flag('high', 'Recursively deletes files');
+      }
+    }
+    for (const check of COMMAND_CHECKS) {
+      if (check.pattern.test(command)) {
+        flag(check.level, check.reason);
+      }
+    }
+  }
+
+  const isWrite = FILE_WRITE_TOOLS.includes(toolName);
+  const filePath = isWrite || FILE_READ_TOOLS.includes(toolName)
+    ? getInputString(toolInput, ['file_path', 'notebook_path', 'path'])  // path: Cursor's file tools
+    : undefined;
+  if (filePath) {
+    const homeDir = context.homeDir ?? os.homedir();
+    const resolved = path.resolve(context.rootPath || homeDir, filePath.replace(/^~(?=\/|$)/, homeDir));
+
+    if (CREDENTIAL_PATTERNS.some(pattern => pattern.test(resolved))) {
+      flag(isWrite ? 'critical' : 'high', isWrite ? 'Modifies a credentials file' : 'Reads a credentials file');
+    } else if (isWrite && path.basename(resolved).startsWith('.')) {
+      flag(inProject(resolved, context) ? 'medium' : 'high', 'Edits a dotfile');
+    }
+
+    if (isWrite && context.rootPath && !inProject(resolved, context)) {
+      flag('high', 'Writes outside the project root');
+    }
+  }
+
+  return risk;
+}
@@ -0,0 +1,143 @@
+import os from 'os';
+import path from 'path';
+import type { PermissionPatternRule } from '@my-claudia/shared';
+import { getRuleInput } from '../storage/permissionRules.js';
+
+/**
+ * Pattern rules for the project permission policy.
+ *
+ *   Bash                 any use of the tool
+ *   Bash(git status*)    commands; `*` matches anything
+ *   Write(src/**)        paths; `*` stays within a directory, `**` crosses them,
+ *                        `~` is the home directory, relative paths start at the project root
+ *   WebFetch(https://*)  other tools match the same input a remembered decision uses
+ */
+
+const PATTERN = /^([^\s()]+)(?:\((.*)\))?$/s;
+const PATH_KEYS = ['file_path', 'notebook_path', 'path'];
+
+// Shell operators that chain or nest commands
+const COMMAND_SEPARATORS = /\s*(?:&&|\|\||\$\(|[;|\n`)])\s*/;
+
+export interface ParsedPermissionPattern {
+  tool: string;
+  spec?: string;
+}
+
+export interface PermissionRuleContext {
+  cwd?: string;
+  additionalDirectories?: string[];  // Count as part of the project when rating risk
+  homeDir?: string;
+}
+
+// Split `Tool(spec)` into its parts; returns undefined for malformed patterns
+export function parsePermissionPattern(pattern: string): ParsedPermissionPattern | undefined {
+  const match = PATTERN.exec(pattern.trim());
+  if (!match) {
+    return undefined;
+  }
+  const spec = match[2]?.trim();
+  return { tool: match[1], spec: spec && spec !== '*' ? spec : undefined };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+function globToRegExp(glob: string, isPath: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (isPath && glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += isPath ? '[^/]*' : '.*';
+      }
+    } else if (char === '?') {
+      source += isPath ? '[^/]' : '.';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+function resolvePath(target: string, context: PermissionRuleContext): string {
+  const homeDir = context.homeDir ?? os.homedir();
+  let resolved = target;
+  if (resolved === '~' || resolved.startsWith('~/')) {
+    resolved = path.join(homeDir, resolved.slice(1));
+  }
+  if (!path.isAbsolute(resolved) && context.cwd) {
+    resolved = path.resolve(context.cwd, resolved);
+  }
+  return path.normalize(resolved);
+}
+
+function matchCommand(spec: string, command: string, decision: PermissionPatternRule['decision']): boolean {
+  const regex = globToRegExp(spec, false);
+  const trimmed = command.trim();
+  const parts = trimmed.split(COMMAND_SEPARATORS).filter(Boolean);
+
+  // Deny when the command or any command chained or nested in it matches
+  if (decision === 'deny') {
+    return regex.test(trimmed) || parts.some(part => regex.test(part));
+  }
+
+  // Allow a chain only when the pattern itself spells it out
+  if (parts.length > 1 && !COMMAND_SEPARATORS.test(spec)) {
+    return false;
+  }
+  return regex.test(trimmed);
+}
+
+function matchSpec(
+  spec: string,
+  toolInput: unknown,
+  decision: PermissionPatternRule['decision'],
+  context: PermissionRuleContext
+): boolean {
+  const obj = toolInput && typeof toolInput === 'object' ? toolInput as Record<string, unknown> : {};
+
+  if (typeof obj.command === 'string') {
+    return matchCommand(spec, obj.command, decision);
+  }
+
+  const pathKey = PATH_KEYS.find(key => typeof obj[key] === 'string');
+  if (pathKey) {
+    const pattern = resolvePath(spec, context);
+    return globToRegExp(pattern, true).test(resolvePath(obj[pathKey] as string, context));
+  }
+
+  return globToRegExp(spec, false).test(getRuleInput(toolInput));
+}
+
+export function matchPermissionRule(
+  rule: PermissionPatternRule,
+  toolName: string,
+  toolInput: unknown,
+  context: PermissionRuleContext = {}
+): boolean {
+  const parsed = parsePermissionPattern(rule.pattern);
+  if (!parsed || !globToRegExp(parsed.tool, false).test(toolName)) {
+    return false;
+  }
+  return parsed.spec === undefined || matchSpec(parsed.spec, toolInput, rule.decision, context);
+}
+
+// Index of the first rule that matches the tool use, or -1
+export function findPermissionRuleIndex(
+  rules: PermissionPatternRule[] | undefined,
+  toolName: string,
+  toolInput: unknown,
+  context: PermissionRuleContext = {}
+): number {
+  return (rules || []).findIndex(rule => matchPermissionRule(rule, toolName, toolInput, context));
+}
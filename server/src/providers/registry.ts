@@ -0,0 +1,33 @@
+import type { ProviderType } from '@my-claudia/shared';
+import type { ProviderAdapter } from './types.js';
+import { claudeAdapter } from './claude-sdk.js';
+import { codexAdapter } from './codex-cli.js';
+import { cursorAdapter } from './cursor-cli.js';
+import { openRouterAdapter, glmAdapter } from './openai-compatible.js';
+import { customAdapter } from './stream-json-cli.js';
+
+/**
+ * Provider adapters keyed by ProviderType.
+ * A provider type without a registered adapter cannot be used to start runs.
+ */
+const adapters = new Map<ProviderType, ProviderAdapter>();
+
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  adapters.set(adapter.type, adapter);
+}
+
+export function getProviderAdapter(type: ProviderType): ProviderAdapter | undefined {
+  return adapters.get(type);
+}
+
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Array.from(adapters.values());
+}
+
+// Built-in adapters
+registerProviderAdapter(claudeAdapter);
+registerProviderAdapter(codexAdapter);
+registerProviderAdapter(cursorAdapter);
+registerProviderAdapter(openRouterAdapter);
+registerProviderAdapter(glmAdapter);
+registerProviderAdapter(customAdapter);
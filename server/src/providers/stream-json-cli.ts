@@ -0,0 +1,171 @@
+import type { ChildProcess } from 'child_process';
+import type { StreamJsonConfig } from '@my-claudia/shared';
+import { PROVIDER_CAPABILITIES } from '@my-claudia/shared';
+import type { ClaudeMessage } from './claude-sdk.js';
+import type { ProviderAdapter, ProviderRunOptions } from './types.js';
+import { getPromptText, streamJsonLines } from './cli-process.js';
+import { customHttpAdapter } from './openai-compatible.js';
+
+/**
+ * Generic stdio "stream-json" adapter
+ *
+ * Runs an arbitrary CLI (ProviderConfig.cliPath) that prints one JSON event
+ * per line, and maps those events to internal ClaudeMessages according to
+ * ProviderConfig.streamJson. Lets in-house agent wrappers plug in without
+ * a dedicated adapter.
+ */
+
+// Resolve a dotted path such as "message.content.0.text" in an event
+export function getPath(event: unknown, fieldPath: string | undefined): unknown {
+  if (!fieldPath) return undefined;
+  let value: unknown = event;
+  for (const key of fieldPath.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function getString(event: unknown, fieldPath: string | undefined): string | undefined {
+  const value = getPath(event, fieldPath);
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function getNumber(event: unknown, fieldPath: string | undefined): number {
+  const value = Number(getPath(event, fieldPath));
+  return Number.isFinite(value) ? value : 0;
+}
+
+export function buildStreamJsonArgs(config: StreamJsonConfig, prompt: string): { args: string[]; stdin?: string } {
+  const args = config.args || [];
+  const usesPromptArg = args.some(arg => arg.includes('{prompt}'));
+  return {
+    args: args.map(arg => arg.split('{prompt}').join(prompt)),
+    stdin: usesPromptArg ? undefined : prompt,
+  };
+}
+
+/**
+ * Translate one event according to the mapping.
+ * Events whose kind is not mapped are ignored.
+ */
+export function translateStreamJsonEvent(config: StreamJsonConfig, event: Record<string, unknown>): ClaudeMessage[] {
+  const kind = getPath(event, config.typeField || 'type');
+  const { init, assistant, toolUse, toolResult, result, error } = config.events;
+
+  if (init && kind === init.match) {
+    return [{
+      type: 'init',
+      sessionId: getString(event, init.sessionId),
+      systemInfo: { model: getString(event, init.model) },
+    }];
+  }
+
+  if (assistant && kind === assistant.match) {
+    const text = getString(event, assistant.text);
+    return text ? [{ type: 'assistant', content: text }] : [];
+  }
+
+  if (toolUse && kind === toolUse.match) {
+    return [{
+      type: 'tool_use',
+      toolUseId: getString(event, toolUse.id),
+      toolName: getString(event, toolUse.name),
+      toolInput: getPath(event, toolUse.input) ?? {},
+    }];
+  }
+
+  if (toolResult && kind === toolResult.match) {
+    return [{
+      type: 'tool_result',
+      toolUseId: getString(event, toolResult.id),
+      toolResult: getPath(event, toolResult.output) ?? '',
+      isToolError: !!getPath(event, toolResult.isError),
+    }];
+  }
+
+  if (result && kind === result.match) {
+    const hasUsage = result.inputTokens || result.outputTokens;
+    return [{
+      type: 'result',
+      isComplete: true,
+      content: getString(event, result.text),
+      usage: hasUsage
+        ? { inputTokens: getNumber(event, result.inputTokens), outputTokens: getNumber(event, result.outputTokens) }
+        : undefined,
+    }];
+  }
+
+  if (error && kind === error.match) {
+    throw new Error(getString(event, error.message) || 'CLI reported an error');
+  }
+
+  return [];
+}
+
+// Child processes of runs currently streaming through the stream-json adapter
+const streamJsonRuns = new Map<string, ChildProcess>();
+
+export const streamJsonAdapter: ProviderAdapter = {
+  type: 'custom',
+  name: 'Custom CLI',
+  capabilities: PROVIDER_CAPABILITIES.custom,
+
+  async *startRun(input: string, options: ProviderRunOptions) {
+    const config = options.streamJson;
+    if (!config || !options.cliPath) {
+      throw new Error('Custom CLI providers need a CLI path and a stream-json mapping');
+    }
+
+    const { args, stdin } = buildStreamJsonArgs(config, getPromptText(input));
+    let completed = false;
+
+    try {
+      const events = streamJsonLines(
+        { command: options.cliPath, args, cwd: options.cwd, env: options.env, stdin },
+        (child) => streamJsonRuns.set(options.runId, child)
+      );
+
+      for await (const event of events) {
+        for (const msg of translateStreamJsonEvent(config, event)) {
+          if (msg.type === 'result') completed = true;
+          yield msg;
+        }
+      }
+
+      // CLIs without a mapped result event still complete the run when they exit
+      if (!completed && streamJsonRuns.has(options.runId)) {
+        yield { type: 'result', isComplete: true };
+      }
+    } finally {
+      streamJsonRuns.delete(options.runId);
+    }
+  },
+
+  cancel(runId: string) {
+    const child = streamJsonRuns.get(runId);
+    streamJsonRuns.delete(runId);
+    child?.kill('SIGTERM');
+  },
+};
+
+/**
+ * Adapter for the 'custom' provider type: a stream-json CLI when the provider
+ * has a mapping configured, otherwise an OpenAI-compatible HTTP endpoint.
+ */
+export const customAdapter: ProviderAdapter = {
+  type: 'custom',
+  name: 'Custom',
+  capabilities: PROVIDER_CAPABILITIES.custom,
+
+  startRun(input, options, onPermissionRequest) {
+    const adapter = options.streamJson ? streamJsonAdapter : customHttpAdapter;
+    return adapter.startRun(input, options, onPermissionRequest);
+  },
+
+  cancel(runId: string) {
+    streamJsonAdapter.cancel(runId);
+    customHttpAdapter.cancel(runId);
+  },
+};
@@ -0,0 +1,66 @@
+import type { ProviderType, PermissionMode, PermissionPolicy, ProviderCapabilities, StreamJsonConfig, SystemPromptMode } from '@my-claudia/shared';
+import type { ClaudeMessage, PermissionCallback, PolicyDecisionCallback } from './claude-sdk.js';
+
+/**
+ * Earlier turn of a conversation, for providers that keep no session state
+ */
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Options for a single run, resolved from the session, project and provider config
+ */
+export interface ProviderRunOptions {
+  runId: string;
+  cwd: string;
+  sessionId?: string;  // Provider-side session ID for resume
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  env?: Record<string, string>;
+  cliPath?: string;
+  streamJson?: StreamJsonConfig;  // Event mapping for custom stream-json CLIs
+  permissionMode?: PermissionMode;
+  permissionPolicy?: PermissionPolicy;  // Decides tool uses before the user is asked
+  onPolicyDecision?: PolicyDecisionCallback;  // Tool uses decided without asking, for the audit log
+  systemPrompt?: string;  // Project or session instructions for the agent
+  systemPromptMode?: SystemPromptMode;  // Append to (default) or replace the provider's own prompt
+  // Resolved agent settings; adapters apply the ones their provider supports
+  model?: string;
+  fallbackModel?: string;
+  maxTurns?: number;
+  maxThinkingTokens?: number;
+  additionalDirectories?: string[];
+  history?: ChatHistoryMessage[];  // Only provided to adapters without resume support
+  abortController?: AbortController;  // Aborted by the server when the run is cancelled
+}
+
+/**
+ * Provider adapter interface
+ *
+ * Every backend (Claude, Cursor, Codex, ...) implements this so that
+ * handleRunStart can drive any of them through the same run loop.
+ * Events are normalized to ClaudeMessage regardless of the backend.
+ */
+export interface ProviderAdapter {
+  readonly type: ProviderType;
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+
+  /**
+   * Start a run and stream its events.
+   * When the provider needs approval for a tool, it calls onPermissionRequest
+   * and waits for the decision the server resolves from the client.
+   */
+  startRun(
+    input: string,
+    options: ProviderRunOptions,
+    onPermissionRequest?: PermissionCallback
+  ): AsyncGenerator<ClaudeMessage, void, void>;
+
+  /**
+   * Stop a run started by this adapter. No-op if the run already finished.
+   */
+  cancel(runId: string): void;
+}
@@ -2,13 +2,15 @@ import { BaseRepository } from './base.js';
 import type { Database } from 'better-sqlite3';
 import type { Project } from '@my-claudia/shared';
 import { v4 as uuidv4 } from 'uuid';
+import { parseAgentSettings, serializeAgentSettings } from '../storage/agentSettings.js';
+import { parseBudget, serializeBudget } from '../storage/budget.js';
 
 /**
  * Repository for Project entity
  *
  * Handles all database operations for projects, including:
  * - Field mapping between snake_case (DB) and camelCase (TypeScript)
- * - JSON serialization for permission_policy
+ * - JSON serialization for permission_policy and budget
  * - Timestamp management
  */
 export class ProjectRepository extends BaseRepository<
@@ -31,7 +33,11 @@ export class ProjectRepository extends BaseRepository<
       providerId: row.provider_id,
       rootPath: row.root_path,
       systemPrompt: row.system_prompt,
+      systemPromptMode: row.system_prompt_mode ?? undefined,
+      agentSettings: parseAgentSettings(row.agent_settings),
+      showThinking: row.show_thinking !== 0,
       permissionPolicy: row.permission_policy ? JSON.parse(row.permission_policy) : undefined,
+      budget: parseBudget(row.budget),
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -46,8 +52,8 @@ export class ProjectRepository extends BaseRepository<
 
     return {
       sql: `
-        INSERT INTO projects (id, name, type, provider_id, root_path, system_prompt, permission_policy, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO projects (id, name, type, provider_id, root_path, system_prompt, system_prompt_mode, agent_settings, show_thinking, permission_policy, budget, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
       params: [
         id,
@@ -56,7 +62,11 @@ export class ProjectRepository extends BaseRepository<
         data.providerId || null,
         data.rootPath || null,
         data.systemPrompt || null,
+        data.systemPromptMode || null,
+        serializeAgentSettings(data.agentSettings),
+        data.showThinking === false ? 0 : 1,
         data.permissionPolicy ? JSON.stringify(data.permissionPolicy) : null,
+        serializeBudget(data.budget),
         now,
         now
       ]
@@ -91,10 +101,26 @@ export class ProjectRepository extends BaseRepository<
       updates.push('system_prompt = ?');
       params.push(data.systemPrompt);
     }
+    if (data.systemPromptMode !== undefined) {
+      updates.push('system_prompt_mode = ?');
+      params.push(data.systemPromptMode);
+    }
+    if (data.agentSettings !== undefined) {
+      updates.push('agent_settings = ?');
+      params.push(serializeAgentSettings(data.agentSettings));
+    }
+    if (data.showThinking !== undefined) {
+      updates.push('show_thinking = ?');
+      params.push(data.showThinking ? 1 : 0);
+    }
     if (data.permissionPolicy !== undefined) {
       updates.push('permission_policy = ?');
       params.push(data.permissionPolicy ? JSON.stringify(data.permissionPolicy) : null);
     }
+    if (data.budget !== undefined) {
+      updates.push('budget = ?');
+      params.push(serializeBudget(data.budget));
+    }
 
     // Always update timestamp
     updates.push('updated_at = ?');
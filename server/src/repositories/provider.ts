@@ -2,6 +2,7 @@ import { BaseRepository } from './base.js';
 import type { Database } from 'better-sqlite3';
 import type { ProviderConfig } from '@my-claudia/shared';
 import { v4 as uuidv4 } from 'uuid';
+import { parseAgentSettings, serializeAgentSettings } from '../storage/agentSettings.js';
 
 /**
  * Repository for ProviderConfig entity (providers table)
@@ -9,7 +10,7 @@ import { v4 as uuidv4 } from 'uuid';
  * Handles all database operations for provider configurations, including:
  * - Field mapping between snake_case (DB) and camelCase (TypeScript)
  * - Boolean conversion for is_default (INTEGER 0/1)
- * - JSON serialization for env (Record<string, string>)
+ * - JSON serialization for env (Record<string, string>), streamJson and agentSettings
  * - Timestamp management
  */
 export class ProviderRepository extends BaseRepository<
@@ -31,6 +32,8 @@ export class ProviderRepository extends BaseRepository<
       type: row.type,
       cliPath: row.cli_path,
       env: row.env ? JSON.parse(row.env) : undefined,
+      streamJson: row.stream_json ? JSON.parse(row.stream_json) : undefined,
+      agentSettings: parseAgentSettings(row.agent_settings),
       isDefault: row.is_default === 1,
       createdAt: row.created_at,
       updatedAt: row.updated_at
@@ -46,8 +49,8 @@ export class ProviderRepository extends BaseRepository<
 
     return {
       sql: `
-        INSERT INTO providers (id, name, type, cli_path, env, is_default, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO providers (id, name, type, cli_path, env, stream_json, agent_settings, is_default, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
       params: [
         id,
@@ -55,6 +58,8 @@ export class ProviderRepository extends BaseRepository<
         data.type || 'claude',
         data.cliPath || null,
         data.env ? JSON.stringify(data.env) : null,
+        data.streamJson ? JSON.stringify(data.streamJson) : null,
+        serializeAgentSettings(data.agentSettings),
         data.isDefault ? 1 : 0,
         now,
         now
@@ -86,6 +91,14 @@ export class ProviderRepository extends BaseRepository<
       updates.push('env = ?');
       params.push(data.env ? JSON.stringify(data.env) : null);
     }
+    if (data.streamJson !== undefined) {
+      updates.push('stream_json = ?');
+      params.push(data.streamJson ? JSON.stringify(data.streamJson) : null);
+    }
+    if (data.agentSettings !== undefined) {
+      updates.push('agent_settings = ?');
+      params.push(serializeAgentSettings(data.agentSettings));
+    }
     if (data.isDefault !== undefined) {
       updates.push('is_default = ?');
       params.push(data.isDefault ? 1 : 0);
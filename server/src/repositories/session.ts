@@ -2,6 +2,7 @@ import { BaseRepository } from './base.js';
 import type { Database } from 'better-sqlite3';
 import type { Session } from '@my-claudia/shared';
 import { v4 as uuidv4 } from 'uuid';
+import { parseAgentSettings, serializeAgentSettings } from '../storage/agentSettings.js';
 
 /**
  * Repository for Session entity
@@ -30,6 +31,8 @@ export class SessionRepository extends BaseRepository<
       name: row.name,
       providerId: row.provider_id,
       sdkSessionId: row.sdk_session_id,
+      systemPrompt: row.system_prompt ?? undefined,
+      agentSettings: parseAgentSettings(row.agent_settings),
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -44,8 +47,8 @@ export class SessionRepository extends BaseRepository<
 
     return {
       sql: `
-        INSERT INTO sessions (id, project_id, name, provider_id, sdk_session_id, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO sessions (id, project_id, name, provider_id, sdk_session_id, system_prompt, agent_settings, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
       params: [
         id,
@@ -53,6 +56,8 @@ export class SessionRepository extends BaseRepository<
         data.name || null,
         data.providerId || null,
         data.sdkSessionId || null,
+        data.systemPrompt || null,
+        serializeAgentSettings(data.agentSettings),
         now,
         now
       ]
@@ -83,6 +88,14 @@ export class SessionRepository extends BaseRepository<
       updates.push('sdk_session_id = ?');
       params.push(data.sdkSessionId);
     }
+    if (data.systemPrompt !== undefined) {
+      updates.push('system_prompt = ?');
+      params.push(data.systemPrompt || null);
+    }
+    if (data.agentSettings !== undefined) {
+      updates.push('agent_settings = ?');
+      params.push(serializeAgentSettings(data.agentSettings));
+    }
 
     // Always update timestamp
     updates.push('updated_at = ?');
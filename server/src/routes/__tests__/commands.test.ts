@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import express from 'express';
 import request from 'supertest';
+import Database from 'better-sqlite3';
 import { createCommandsRoutes } from '../commands.js';
 
 // Mock the fs module
@@ -17,10 +18,10 @@ vi.mock('os', () => ({
 
 import * as fs from 'fs';
 
-function createTestApp() {
+function createTestApp(db?: Database.Database) {
   const app = express();
   app.use(express.json());
-  app.use('/api/commands', createCommandsRoutes());
+  app.use('/api/commands', createCommandsRoutes(db));
   return app;
 }
 
@@ -142,20 +143,132 @@ describe('commands routes', () => {
         expect(res.body.data.data.model).toBe('claude-3-opus');
       });
 
-      it('handles /cost command with token usage', async () => {
-        const res = await request(app)
-          .post('/api/commands/execute')
-          .send({
-            commandName: '/cost',
-            context: { tokenUsage: { used: 5000, total: 100000 } }
-          });
+      describe('/model in a session', () => {
+        let db: Database.Database;
+        let sessionApp: ReturnType<typeof express>;
+
+        beforeEach(() => {
+          db = new Database(':memory:');
+          db.exec(`
+            CREATE TABLE providers (id TEXT PRIMARY KEY, type TEXT NOT NULL, agent_settings TEXT);
+            CREATE TABLE projects (id TEXT PRIMARY KEY, provider_id TEXT, agent_settings TEXT);
+            CREATE TABLE sessions (id TEXT PRIMARY KEY, project_id TEXT NOT NULL, agent_settings TEXT, updated_at INTEGER);
+            INSERT INTO projects (id, agent_settings) VALUES ('project-1', '{"model":"sonnet"}');
+            INSERT INTO sessions (id, project_id) VALUES ('s1', 'project-1');
+          `);
+          sessionApp = createTestApp(db);
+        });
+
+        it('lists the models of the provider', async () => {
+          const res = await request(sessionApp)
+            .post('/api/commands/execute')
+            .send({ commandName: '/model', context: { sessionId: 's1' } });
+
+          expect(res.body.data.data.model).toBe('sonnet');
+          expect(res.body.data.data.models).toEqual(['sonnet', 'opus', 'haiku']);
+          expect(res.body.data.data.message).toContain('sonnet (current)');
+        });
+
+        it('switches the session model and back to the project model', async () => {
+          let res = await request(sessionApp)
+            .post('/api/commands/execute')
+            .send({ commandName: '/model', args: ['opus'], context: { sessionId: 's1' } });
+
+          expect(res.body.data.data.model).toBe('opus');
+          expect(res.body.data.data.sessionAgentSettings).toEqual({ model: 'opus' });
+          const row = db.prepare('SELECT agent_settings FROM sessions WHERE id = ?').get('s1') as { agent_settings: string };
+          expect(JSON.parse(row.agent_settings)).toEqual({ model: 'opus' });
+
+          res = await request(sessionApp)
+            .post('/api/commands/execute')
+            .send({ commandName: '/model', args: ['default'], context: { sessionId: 's1' } });
+
+          expect(res.body.data.data.model).toBe('sonnet');
+          expect(res.body.data.data.sessionAgentSettings).toBeNull();
+        });
+
+        it('cannot switch without a session', async () => {
+          const res = await request(sessionApp)
+            .post('/api/commands/execute')
+            .send({ commandName: '/model', args: ['opus'] });
+
+          expect(res.body.data.data.error).toBe(true);
+        });
+      });
 
-        expect(res.status).toBe(200);
-        expect(res.body.data.type).toBe('builtin');
-        expect(res.body.data.action).toBe('cost');
-        expect(res.body.data.data.tokenUsage.used).toBe(5000);
-        expect(res.body.data.data.tokenUsage.total).toBe(100000);
-        expect(res.body.data.data.tokenUsage.percentage).toBe('5.0');
+      describe('/cost and /context', () => {
+        let db: Database.Database;
+        let sessionApp: ReturnType<typeof express>;
+
+        function addRun(id: string, startedAt: number, usage: object | null) {
+          db.prepare('INSERT INTO provider_runs (id, session_id, usage, started_at) VALUES (?, ?, ?, ?)')
+            .run(id, 's1', usage ? JSON.stringify(usage) : null, startedAt);
+        }
+
+        beforeEach(() => {
+          db = new Database(':memory:');
+          db.exec(`
+            CREATE TABLE provider_runs (id TEXT PRIMARY KEY, session_id TEXT NOT NULL, usage TEXT, started_at INTEGER NOT NULL);
+          `);
+          sessionApp = createTestApp(db);
+        });
+
+        it('sums the usage of the session runs', async () => {
+          addRun('r1', 1000, {
+            inputTokens: 100, outputTokens: 50, cacheReadTokens: 4000, cacheCreationTokens: 500,
+            costUsd: 0.02, numTurns: 2, durationMs: 3000
+          });
+          addRun('r2', 2000, { inputTokens: 20, outputTokens: 10, costUsd: 0.005, numTurns: 1, durationMs: 62000 });
+          addRun('r3', 3000, null);
+
+          const res = await request(sessionApp)
+            .post('/api/commands/execute')
+            .send({ commandName: '/cost', context: { sessionId: 's1', model: 'opus' } });
+
+          expect(res.status).toBe(200);
+          expect(res.body.data.action).toBe('cost');
+          expect(res.body.data.data.usage).toMatchObject({
+            runs: 2,
+            inputTokens: 120,
+            outputTokens: 60,
+            cacheReadTokens: 4000,
+            cacheCreationTokens: 500,
+            costUsd: 0.025,
+            numTurns: 3,
+            durationMs: 65000
+          });
+          expect(res.body.data.data.message).toContain('$0.0250');
+          expect(res.body.data.data.message).toContain('1m 5s');
+        });
+
+        it('reports a session without runs', async () => {
+          const res = await request(sessionApp)
+            .post('/api/commands/execute')
+            .send({ commandName: '/cost', context: { sessionId: 's1' } });
+
+          expect(res.body.data.data.usage.runs).toBe(0);
+          expect(res.body.data.data.message).toBe('No usage recorded for this session yet.');
+        });
+
+        it('needs a session', async () => {
+          const res = await request(sessionApp)
+            .post('/api/commands/execute')
+            .send({ commandName: '/cost' });
+
+          expect(res.body.data.data.error).toBe(true);
+        });
+
+        it('reports the context size of the last run', async () => {
+          addRun('r1', 1000, { inputTokens: 10, outputTokens: 5, contextTokens: 90000 });
+          addRun('r2', 2000, { inputTokens: 30, outputTokens: 5, cacheReadTokens: 9000, cacheCreationTokens: 970 });
+
+          const res = await request(sessionApp)
+            .post('/api/commands/execute')
+            .send({ commandName: '/context', context: { sessionId: 's1' } });
+
+          expect(res.body.data.action).toBe('context');
+          expect(res.body.data.data.tokenUsage).toEqual({ used: 10000, total: 200000, percentage: '5.0' });
+        });
       });
 
       it('handles /memory command', async () => {
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import express from 'express';
 import request from 'supertest';
+import Database from 'better-sqlite3';
 import { createFilesRoutes } from '../files.js';
 import type { StoredFile } from '../../storage/fileStore.js';
 
@@ -51,10 +52,10 @@ vi.mock('../../storage/fileStore.js', () => {
 import * as fs from 'fs';
 import { fileStore } from '../../storage/fileStore.js';
 
-function createTestApp() {
+function createTestApp(db?: Database.Database) {
   const app = express();
   app.use(express.json());
-  app.use('/api/files', createFilesRoutes());
+  app.use('/api/files', createFilesRoutes(db));
   return app;
 }
 
@@ -262,6 +263,73 @@ describe('files routes', () => {
     });
   });
 
+  describe('additional project directories', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+      db = new Database(':memory:');
+      db.exec(`
+        CREATE TABLE providers (id TEXT PRIMARY KEY, agent_settings TEXT);
+        CREATE TABLE projects (id TEXT PRIMARY KEY, provider_id TEXT, root_path TEXT, agent_settings TEXT);
+      `);
+      db.prepare('INSERT INTO projects (id, root_path, agent_settings) VALUES (?, ?, ?)')
+        .run('p1', '/project', JSON.stringify({ additionalDirectories: ['/libs/shared', '../sibling'] }));
+      app = createTestApp(db);
+
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.statSync).mockReturnValue({
+        isDirectory: () => true,
+        isFile: () => false,
+      } as fs.Stats);
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('lists the additional directories at the project root', async () => {
+      vi.mocked(fs.readdirSync).mockReturnValue([
+        { name: 'src', isDirectory: () => true, isFile: () => false },
+      ] as unknown as ReturnType<typeof fs.readdirSync>);
+
+      const res = await request(app).get('/api/files/list?projectRoot=/project');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.entries.map((e: { path: string }) => e.path)).toEqual(['/libs/shared', '/sibling', 'src']);
+    });
+
+    it('browses inside an additional directory', async () => {
+      vi.mocked(fs.readdirSync).mockReturnValue([
+        { name: 'index.ts', isDirectory: () => false, isFile: () => true },
+      ] as unknown as ReturnType<typeof fs.readdirSync>);
+
+      const res = await request(app).get('/api/files/list?projectRoot=/project&relativePath=/libs/shared/src/');
+
+      expect(res.status).toBe(200);
+      expect(fs.readdirSync).toHaveBeenCalledWith('/libs/shared/src', { withFileTypes: true });
+      expect(res.body.data.currentPath).toBe('/libs/shared/src');
+      expect(res.body.data.entries[0].path).toBe('/libs/shared/src/index.ts');
+    });
+
+    it('reads files in an additional directory', async () => {
+      vi.mocked(fs.statSync).mockReturnValue({ isDirectory: () => false, size: 4 } as fs.Stats);
+      vi.mocked(fs.readFileSync).mockReturnValue('code');
+
+      const res = await request(app).get('/api/files/content?projectRoot=/project&relativePath=../sibling/a.ts');
+
+      expect(res.status).toBe(200);
+      expect(fs.readFileSync).toHaveBeenCalledWith('/sibling/a.ts', 'utf-8');
+    });
+
+    it('still rejects paths outside the project and its directories', async () => {
+      const res = await request(app).get('/api/files/content?projectRoot=/project&relativePath=/libs/other/a.ts');
+      expect(res.status).toBe(403);
+
+      const other = await request(app).get('/api/files/list?projectRoot=/other');
+      expect(other.body.data?.entries.some((e: { path: string }) => e.path === '/libs/shared')).toBe(false);
+    });
+  });
+
   describe('GET /api/files/content', () => {
     it('returns 400 when projectRoot or relativePath missing', async () => {
       const res1 = await request(app).get('/api/files/content?projectRoot=/project');
@@ -25,6 +25,7 @@ describe('Import API Integration Tests', () => {
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
         path TEXT,
+        show_thinking INTEGER NOT NULL DEFAULT 1,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
       );
@@ -428,5 +429,50 @@ describe('Import API Integration Tests', () => {
       expect(metadata.toolCalls[0].input.path).toBe('test.txt');
       expect(metadata.toolCalls[0].output).toBe('File content');
     });
+
+    it('keeps thinking in the metadata unless the project turned it off', async () => {
+      db.prepare(`
+        INSERT INTO projects (id, name, path, show_thinking, created_at, updated_at)
+        VALUES (?, ?, ?, 0, ?, ?)
+      `).run('quiet-project', 'Quiet Project', '/quiet', Date.now(), Date.now());
+
+      const line = (uuid: string) => JSON.stringify({
+        type: 'assistant',
+        uuid,
+        timestamp: '2026-01-27T10:00:00.000Z',
+        message: {
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'First thought' },
+            { type: 'text', text: 'Answer' },
+            { type: 'thinking', thinking: 'Second thought' }
+          ]
+        }
+      });
+      vol.fromJSON({
+        [`${mockClaudePath}/projects/test-project/thinking-shown.jsonl`]: line('msg-shown'),
+        [`${mockClaudePath}/projects/test-project/thinking-hidden.jsonl`]: line('msg-hidden')
+      });
+
+      await request(app)
+        .post('/api/import/claude-cli/import')
+        .send({
+          claudeCliPath: mockClaudePath,
+          imports: [
+            { sessionId: 'thinking-shown', projectPath: 'test-project', targetProjectId: 'test-project' },
+            { sessionId: 'thinking-hidden', projectPath: 'test-project', targetProjectId: 'quiet-project' }
+          ],
+          options: { conflictStrategy: 'skip' }
+        })
+        .expect(200);
+
+      const shown = db.prepare('SELECT * FROM messages WHERE id = ?').get('msg-shown') as any;
+      expect(shown.content).toBe('Answer');
+      expect(JSON.parse(shown.metadata).thinking).toBe('First thought\n\nSecond thought');
+
+      const hidden = db.prepare('SELECT * FROM messages WHERE id = ?').get('msg-hidden') as any;
+      expect(hidden.content).toBe('Answer');
+      expect(hidden.metadata).toBeNull();
+    });
   });
 });
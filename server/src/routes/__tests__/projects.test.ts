@@ -0,0 +1,355 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import { createProjectRoutes } from '../projects.js';
+
+// Create in-memory database for testing
+function createTestDb(): Database.Database {
+  const db = new Database(':memory:');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS providers (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      agent_settings TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS projects (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT CHECK(type IN ('chat_only', 'code')) DEFAULT 'code',
+      provider_id TEXT,
+      root_path TEXT,
+      system_prompt TEXT,
+      system_prompt_mode TEXT,
+      show_thinking INTEGER NOT NULL DEFAULT 1,
+      agent_settings TEXT,
+      permission_policy TEXT,
+      budget TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      name TEXT,
+      provider_id TEXT,
+      sdk_session_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS permission_logs (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      detail TEXT NOT NULL,
+      decision TEXT CHECK(decision IN ('allow', 'deny', 'timeout')) NOT NULL,
+      remembered INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      run_id TEXT,
+      request_id TEXT,
+      tool_input TEXT,
+      decided_by TEXT,
+      requested_at INTEGER,
+      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS provider_runs (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      usage TEXT,
+      started_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS permission_rules (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      input TEXT,
+      decision TEXT CHECK(decision IN ('allow', 'deny')) NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+    );
+  `);
+
+  return db;
+}
+
+function createTestApp(db: Database.Database) {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/projects', createProjectRoutes(db));
+  return app;
+}
+
+describe('projects routes', () => {
+  let db: Database.Database;
+  let app: ReturnType<typeof express>;
+
+  beforeAll(() => {
+    db = createTestDb();
+    app = createTestApp(db);
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  beforeEach(() => {
+    db.exec('DELETE FROM provider_runs');
+    db.exec('DELETE FROM permission_rules');
+    db.exec('DELETE FROM permission_logs');
+    db.exec('DELETE FROM sessions');
+    db.exec('DELETE FROM projects');
+
+    const now = Date.now();
+    const insertProject = db.prepare(`
+      INSERT INTO projects (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)
+    `);
+    db.prepare(`
+      INSERT INTO projects (id, name, root_path, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+    `).run('project-1', 'Project One', '/work/one', now, now);
+    insertProject.run('project-2', 'Project Two', now, now);
+
+    const insertSession = db.prepare(`
+      INSERT INTO sessions (id, project_id, name, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+    `);
+    insertSession.run('s1', 'project-1', 'First', now, now);
+    insertSession.run('s2', 'project-1', 'Second', now, now);
+    insertSession.run('s3', 'project-2', 'Elsewhere', now, now);
+
+    const insertLog = db.prepare(`
+      INSERT INTO permission_logs (id, session_id, tool, detail, decision, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    insertLog.run('l1', 's1', 'Bash', 'ls', 'allow', 1000);
+    insertLog.run('l2', 's2', 'Bash', 'rm -rf build', 'deny', 2000);
+    insertLog.run('l3', 's2', 'Write', 'a.txt', 'timeout', 3000);
+    insertLog.run('l4', 's3', 'Bash', 'pwd', 'allow', 4000);
+
+    const insertRule = db.prepare(`
+      INSERT INTO permission_rules (id, project_id, tool, input, decision, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    insertRule.run('r1', 'project-1', 'Bash', 'npm test', 'allow', 1000);
+    insertRule.run('r2', 'project-1', 'Bash', 'rm -rf /', 'deny', 2000);
+    insertRule.run('r3', 'project-2', 'Read', 'a.txt', 'allow', 3000);
+  });
+
+  describe('PUT /api/projects/:id', () => {
+    it('saves the system prompt and its mode', async () => {
+      const res = await request(app)
+        .put('/api/projects/project-1')
+        .send({ name: 'Project One', systemPrompt: 'Be terse.', systemPromptMode: 'replace' });
+
+      expect(res.status).toBe(200);
+
+      const project = await request(app).get('/api/projects/project-1');
+      expect(project.body.data).toMatchObject({ systemPrompt: 'Be terse.', systemPromptMode: 'replace' });
+    });
+
+    it('turns extended thinking off and keeps the setting when it is left out', async () => {
+      let project = await request(app).get('/api/projects/project-1');
+      expect(project.body.data.showThinking).toBe(true);
+
+      await request(app).put('/api/projects/project-1').send({ name: 'Project One', showThinking: false });
+      project = await request(app).get('/api/projects/project-1');
+      expect(project.body.data.showThinking).toBe(false);
+
+      await request(app).put('/api/projects/project-1').send({ name: 'Renamed' });
+      project = await request(app).get('/api/projects/project-1');
+      expect(project.body.data.showThinking).toBe(false);
+    });
+
+    it('saves the agent settings', async () => {
+      await request(app)
+        .put('/api/projects/project-1')
+        .send({ name: 'Project One', agentSettings: { model: 'opus', additionalDirectories: ['/work/lib'] } });
+
+      const project = await request(app).get('/api/projects/project-1');
+      expect(project.body.data.agentSettings).toEqual({ model: 'opus', additionalDirectories: ['/work/lib'] });
+    });
+
+    it('saves the budget without unset limits', async () => {
+      await request(app)
+        .put('/api/projects/project-1')
+        .send({ name: 'Project One', budget: { dailyUsd: 5, monthlyTokens: null, runTokens: 20000, warnAt: [90, 50, 90] } });
+
+      const project = await request(app).get('/api/projects/project-1');
+      expect(project.body.data.budget).toEqual({ dailyUsd: 5, runTokens: 20000, warnAt: [50, 90] });
+    });
+
+    it('rejects an invalid budget', async () => {
+      let res = await request(app)
+        .put('/api/projects/project-1')
+        .send({ name: 'Project One', budget: { dailyTokens: 1.5 } });
+      expect(res.status).toBe(400);
+      expect(res.body.error.message).toBe('budget.dailyTokens must be a positive integer');
+
+      res = await request(app)
+        .put('/api/projects/project-1')
+        .send({ name: 'Project One', budget: { dailyUsd: 5, warnAt: [150] } });
+      expect(res.status).toBe(400);
+    });
+
+    it('rejects an unknown system prompt mode', async () => {
+      const res = await request(app)
+        .put('/api/projects/project-1')
+        .send({ name: 'Project One', systemPrompt: 'Be terse.', systemPromptMode: 'prepend' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('GET /api/projects/:id/budget', () => {
+    it('reports the usage of the daily and monthly limits', async () => {
+      db.prepare('UPDATE projects SET budget = ? WHERE id = ?')
+        .run(JSON.stringify({ dailyTokens: 1000, monthlyUsd: 10, runTokens: 500 }), 'project-1');
+      const insertRun = db.prepare('INSERT INTO provider_runs (id, session_id, usage, started_at) VALUES (?, ?, ?, ?)');
+      const now = Date.now();
+      insertRun.run('run-1', 's1', JSON.stringify({ inputTokens: 300, outputTokens: 100, costUsd: 2 }), now);
+      insertRun.run('run-2', 's2', JSON.stringify({ inputTokens: 50, outputTokens: 50, costUsd: 0.5 }), now);
+      insertRun.run('run-3', 's3', JSON.stringify({ inputTokens: 900, outputTokens: 0, costUsd: 9 }), now);
+
+      const res = await request(app).get('/api/projects/project-1/budget');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual([
+        { limit: 'dailyTokens', used: 500, max: 1000, percent: 50 },
+        { limit: 'monthlyUsd', used: 2.5, max: 10, percent: 25 }
+      ]);
+    });
+
+    it('is empty without a budget', async () => {
+      const res = await request(app).get('/api/projects/project-2/budget');
+
+      expect(res.body.data).toEqual([]);
+    });
+
+    it('returns 404 for an unknown project', async () => {
+      const res = await request(app).get('/api/projects/nope/budget');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/projects/:id/permissions', () => {
+    it('returns decisions of all sessions in the project, newest first', async () => {
+      const res = await request(app).get('/api/projects/project-1/permissions');
+
+      expect(res.status).toBe(200);
+      expect(res.body.success).toBe(true);
+      expect(res.body.data.map((l: { id: string }) => l.id)).toEqual(['l3', 'l2', 'l1']);
+      expect(res.body.data[0].sessionName).toBe('Second');
+    });
+
+    it('filters by tool, decision and session', async () => {
+      const byTool = await request(app).get('/api/projects/project-1/permissions?tool=Bash');
+      expect(byTool.body.data.map((l: { id: string }) => l.id)).toEqual(['l2', 'l1']);
+
+      const byDecision = await request(app).get('/api/projects/project-1/permissions?decision=deny');
+      expect(byDecision.body.data.map((l: { id: string }) => l.id)).toEqual(['l2']);
+
+      const bySession = await request(app).get('/api/projects/project-1/permissions?sessionId=s1');
+      expect(bySession.body.data.map((l: { id: string }) => l.id)).toEqual(['l1']);
+    });
+
+    it('filters by time range', async () => {
+      const res = await request(app).get('/api/projects/project-1/permissions?since=1500&until=2500');
+
+      expect(res.body.data.map((l: { id: string }) => l.id)).toEqual(['l2']);
+    });
+
+    it('rejects an unknown decision filter', async () => {
+      const res = await request(app).get('/api/projects/project-1/permissions?decision=maybe');
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('returns 404 for non-existent project', async () => {
+      const res = await request(app).get('/api/projects/nonexistent/permissions');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('POST /api/projects/:id/permission-policy/test', () => {
+    const policy = {
+      allowedTools: ['Read'],
+      disallowedTools: [],
+      autoApprove: false,
+      timeoutSeconds: 0,
+      rules: [
+        { pattern: 'Bash(rm -rf*)', decision: 'deny' },
+        { pattern: 'Write(src/**)', decision: 'allow' }
+      ]
+    };
+
+    it('reports the rule that decides the tool use', async () => {
+      const res = await request(app)
+        .post('/api/projects/project-1/permission-policy/test')
+        .send({ policy, toolName: 'Write', toolInput: { file_path: '/work/one/src/index.ts' } });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ decision: 'allow', source: 'rule', ruleIndex: 1 });
+    });
+
+    it('falls back to the tool lists', async () => {
+      const res = await request(app)
+        .post('/api/projects/project-1/permission-policy/test')
+        .send({ policy, toolName: 'Write', toolInput: { file_path: '/elsewhere/a.ts' } });
+
+      expect(res.body.data).toEqual({ source: 'none' });
+    });
+
+    it('rejects a request without a tool name', async () => {
+      const res = await request(app)
+        .post('/api/projects/project-1/permission-policy/test')
+        .send({ policy });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('GET /api/projects/:id/permission-rules', () => {
+    it('returns the rules of the project, newest first', async () => {
+      const res = await request(app).get('/api/projects/project-1/permission-rules');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((r: { id: string }) => r.id)).toEqual(['r2', 'r1']);
+      expect(res.body.data[0]).toMatchObject({ projectId: 'project-1', tool: 'Bash', input: 'rm -rf /', decision: 'deny' });
+    });
+
+    it('returns 404 for non-existent project', async () => {
+      const res = await request(app).get('/api/projects/nonexistent/permission-rules');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('DELETE /api/projects/:id/permission-rules/:ruleId', () => {
+    it('revokes a rule', async () => {
+      const res = await request(app).delete('/api/projects/project-1/permission-rules/r1');
+
+      expect(res.status).toBe(200);
+      expect(db.prepare('SELECT id FROM permission_rules WHERE id = ?').get('r1')).toBeUndefined();
+    });
+
+    it('returns 404 for a rule of another project', async () => {
+      const res = await request(app).delete('/api/projects/project-1/permission-rules/r3');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error.code).toBe('NOT_FOUND');
+      expect(db.prepare('SELECT id FROM permission_rules WHERE id = ?').get('r3')).toBeDefined();
+    });
+  });
+});
@@ -3,6 +3,8 @@ import express from 'express';
 import request from 'supertest';
 import Database from 'better-sqlite3';
 import { createProviderRoutes } from '../providers.js';
+import { scanCustomCommands } from '../../utils/command-scanner.js';
+import { LOCAL_COMMANDS, PROVIDER_CAPABILITIES } from '@my-claudia/shared';
 
 // Mock command-scanner to avoid file system operations
 vi.mock('../../utils/command-scanner.js', () => ({
@@ -20,6 +22,8 @@ function createTestDb(): Database.Database {
       type TEXT NOT NULL DEFAULT 'claude',
       cli_path TEXT,
       env TEXT,
+      stream_json TEXT,
+      agent_settings TEXT,
       is_default INTEGER DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
@@ -114,6 +118,7 @@ describe('providers routes', () => {
       expect(res.body.data.id).toBe('p1');
       expect(res.body.data.name).toBe('My Provider');
       expect(res.body.data.cliPath).toBe('/path/to/claude');
+      expect(res.body.data.capabilities).toEqual(PROVIDER_CAPABILITIES.claude);
     });
 
     it('returns 404 for non-existent provider', async () => {
@@ -162,6 +167,21 @@ describe('providers routes', () => {
       expect(JSON.parse(row.env)).toEqual(env);
     });
 
+    it('stores and returns the stream-json mapping', async () => {
+      const streamJson = {
+        args: ['--json', '{prompt}'],
+        events: { assistant: { match: 'text', text: 'content' } },
+      };
+      const res = await request(app)
+        .post('/api/providers')
+        .send({ name: 'Wrapper', type: 'custom', cliPath: '/usr/bin/agent', streamJson });
+
+      expect(res.status).toBe(201);
+
+      const fetched = await request(app).get(`/api/providers/${res.body.data.id}`);
+      expect(fetched.body.data.streamJson).toEqual(streamJson);
+    });
+
     it('unsets other defaults when creating with isDefault=true', async () => {
       // Create first default provider
       const now = Date.now();
@@ -205,6 +225,36 @@ describe('providers routes', () => {
       expect(row.cli_path).toBe('/new/path');
     });
 
+    it('saves agent settings without empty fields', async () => {
+      const now = Date.now();
+      db.prepare(`
+        INSERT INTO providers (id, name, type, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('p1', 'Claude', 'claude', now, now);
+
+      await request(app)
+        .put('/api/providers/p1')
+        .send({ name: 'Claude', agentSettings: { model: 'opus', fallbackModel: '', maxTurns: 12 } });
+
+      const res = await request(app).get('/api/providers/p1');
+      expect(res.body.data.agentSettings).toEqual({ model: 'opus', maxTurns: 12 });
+    });
+
+    it('rejects invalid agent settings', async () => {
+      const now = Date.now();
+      db.prepare(`
+        INSERT INTO providers (id, name, type, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('p1', 'Claude', 'claude', now, now);
+
+      const res = await request(app)
+        .put('/api/providers/p1')
+        .send({ name: 'Claude', agentSettings: { maxTurns: -1 } });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
     it('returns 404 for non-existent provider', async () => {
       const res = await request(app)
         .put('/api/providers/nonexistent')
@@ -288,6 +338,19 @@ describe('providers routes', () => {
       expect(res.status).toBe(404);
       expect(res.body.success).toBe(false);
     });
+
+    it('returns only local commands for providers without slash command support', async () => {
+      const now = Date.now();
+      db.prepare(`
+        INSERT INTO providers (id, name, type, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('p1', 'Codex', 'codex', now, now);
+
+      const res = await request(app).get('/api/providers/p1/commands');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveLength(LOCAL_COMMANDS.length);
+    });
   });
 
   describe('GET /api/providers/type/:type/commands', () => {
@@ -298,6 +361,38 @@ describe('providers routes', () => {
       expect(res.body.success).toBe(true);
       expect(Array.isArray(res.body.data)).toBe(true);
     });
+
+    it('includes custom commands only for providers with slash command support', async () => {
+      vi.mocked(scanCustomCommands).mockReturnValue([
+        { command: '/review', description: 'Review changes', source: 'custom' },
+      ]);
+
+      const claude = await request(app).get('/api/providers/type/claude/commands');
+      const openrouter = await request(app).get('/api/providers/type/openrouter/commands');
+
+      expect(claude.body.data.map((c: { command: string }) => c.command)).toContain('/review');
+      expect(openrouter.body.data).toEqual(LOCAL_COMMANDS);
+
+      vi.mocked(scanCustomCommands).mockReturnValue([]);
+    });
+  });
+
+  describe('GET /api/providers/type/:type/capabilities', () => {
+    it('returns capabilities for provider type', async () => {
+      const res = await request(app).get('/api/providers/type/codex/capabilities');
+
+      expect(res.status).toBe(200);
+      expect(res.body.success).toBe(true);
+      expect(res.body.data).toEqual(PROVIDER_CAPABILITIES.codex);
+      expect(res.body.data.permissionModes).not.toContain('acceptEdits');
+    });
+
+    it('returns 404 for unknown provider type', async () => {
+      const res = await request(app).get('/api/providers/type/unknown/capabilities');
+
+      expect(res.status).toBe(404);
+      expect(res.body.success).toBe(false);
+    });
   });
 
   describe('POST /api/providers/:id/set-default', () => {
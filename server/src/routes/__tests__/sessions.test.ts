@@ -25,6 +25,8 @@ function createTestDb(): Database.Database {
       name TEXT,
       provider_id TEXT,
       sdk_session_id TEXT,
+      system_prompt TEXT,
+      agent_settings TEXT,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL,
       FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
@@ -39,6 +41,38 @@ function createTestDb(): Database.Database {
       created_at INTEGER NOT NULL,
       FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
     );
+
+    CREATE TABLE IF NOT EXISTS provider_runs (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      provider_id TEXT,
+      provider_type TEXT NOT NULL,
+      permission_mode TEXT,
+      status TEXT CHECK(status IN ('running', 'completed', 'failed', 'cancelled')) NOT NULL,
+      input TEXT NOT NULL,
+      output TEXT,
+      error TEXT,
+      usage TEXT,
+      started_at INTEGER NOT NULL,
+      ended_at INTEGER,
+      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS permission_logs (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      detail TEXT NOT NULL,
+      decision TEXT CHECK(decision IN ('allow', 'deny', 'timeout')) NOT NULL,
+      remembered INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      run_id TEXT,
+      request_id TEXT,
+      tool_input TEXT,
+      decided_by TEXT,
+      requested_at INTEGER,
+      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+    );
   `);
 
   return db;
@@ -66,6 +100,8 @@ describe('sessions routes', () => {
 
   beforeEach(() => {
     // Clear all data before each test
+    db.exec('DELETE FROM permission_logs');
+    db.exec('DELETE FROM provider_runs');
     db.exec('DELETE FROM messages');
     db.exec('DELETE FROM sessions');
     db.exec('DELETE FROM projects');
@@ -227,6 +263,43 @@ describe('sessions routes', () => {
       expect(row.sdk_session_id).toBe('sdk-456');
     });
 
+    it('sets and clears the system prompt override', async () => {
+      const now = Date.now();
+      db.prepare(`
+        INSERT INTO sessions (id, project_id, name, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('s1', 'project-1', 'Original', now, now);
+
+      await request(app).put('/api/sessions/s1').send({ systemPrompt: 'Review only.' });
+      let res = await request(app).get('/api/sessions/s1');
+      expect(res.body.data.systemPrompt).toBe('Review only.');
+
+      // Other updates keep the override
+      await request(app).put('/api/sessions/s1').send({ name: 'Renamed' });
+      res = await request(app).get('/api/sessions/s1');
+      expect(res.body.data.systemPrompt).toBe('Review only.');
+
+      await request(app).put('/api/sessions/s1').send({ systemPrompt: '' });
+      res = await request(app).get('/api/sessions/s1');
+      expect(res.body.data.systemPrompt).toBeNull();
+    });
+
+    it('sets and clears the agent settings override', async () => {
+      const now = Date.now();
+      db.prepare(`
+        INSERT INTO sessions (id, project_id, name, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('s1', 'project-1', 'Original', now, now);
+
+      await request(app).put('/api/sessions/s1').send({ agentSettings: { model: 'haiku', maxTurns: 2 } });
+      let res = await request(app).get('/api/sessions/s1');
+      expect(res.body.data.agentSettings).toEqual({ model: 'haiku', maxTurns: 2 });
+
+      await request(app).put('/api/sessions/s1').send({ agentSettings: null });
+      res = await request(app).get('/api/sessions/s1');
+      expect(res.body.data.agentSettings).toBeUndefined();
+    });
+
     it('returns 404 for non-existent session', async () => {
       const res = await request(app)
         .put('/api/sessions/nonexistent')
@@ -361,6 +434,109 @@ describe('sessions routes', () => {
     });
   });
 
+  describe('GET /api/sessions/:id/runs', () => {
+    beforeEach(() => {
+      const now = Date.now();
+      db.prepare(`
+        INSERT INTO sessions (id, project_id, name, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('s1', 'project-1', 'Test Session', now, now);
+    });
+
+    it('returns runs newest first with parsed usage', async () => {
+      const now = Date.now();
+      db.prepare(`
+        INSERT INTO provider_runs (id, session_id, provider_type, permission_mode, status, input, output, usage, started_at, ended_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run('r1', 's1', 'claude', 'default', 'completed', 'Hello', 'Hi!', JSON.stringify({ inputTokens: 10, outputTokens: 5 }), now, now + 100);
+      db.prepare(`
+        INSERT INTO provider_runs (id, session_id, provider_type, status, input, error, started_at, ended_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run('r2', 's1', 'codex', 'failed', 'Again', 'CLI exited with code 1', now + 200, now + 300);
+
+      const res = await request(app).get('/api/sessions/s1/runs');
+
+      expect(res.status).toBe(200);
+      expect(res.body.success).toBe(true);
+      expect(res.body.data.map((r: { id: string }) => r.id)).toEqual(['r2', 'r1']);
+      expect(res.body.data[0].status).toBe('failed');
+      expect(res.body.data[0].error).toBe('CLI exited with code 1');
+      expect(res.body.data[1].usage).toEqual({ inputTokens: 10, outputTokens: 5 });
+    });
+
+    it('limits results to specified limit', async () => {
+      const now = Date.now();
+      for (let i = 0; i < 5; i++) {
+        db.prepare(`
+          INSERT INTO provider_runs (id, session_id, provider_type, status, input, started_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(`r${i}`, 's1', 'claude', 'completed', `Run ${i}`, now + i);
+      }
+
+      const res = await request(app).get('/api/sessions/s1/runs?limit=2');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveLength(2);
+      expect(res.body.data[0].id).toBe('r4');
+    });
+
+    it('returns 404 for non-existent session', async () => {
+      const res = await request(app).get('/api/sessions/nonexistent/runs');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('GET /api/sessions/:id/permissions', () => {
+    beforeEach(() => {
+      const now = Date.now();
+      db.prepare(`
+        INSERT INTO sessions (id, project_id, name, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('s1', 'project-1', 'Test Session', now, now);
+      db.prepare(`
+        INSERT INTO sessions (id, project_id, name, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run('s2', 'project-1', 'Other Session', now, now);
+    });
+
+    it('returns the decisions of the session newest first', async () => {
+      const now = Date.now();
+      const insert = db.prepare(`
+        INSERT INTO permission_logs (id, session_id, run_id, request_id, tool, detail, tool_input, decision, remembered, decided_by, requested_at, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      insert.run('l1', 's1', 'r1', 'req-1', 'Bash', 'ls', JSON.stringify({ command: 'ls' }), 'allow', 1, 'client-1', now - 10, now);
+      insert.run('l2', 's1', 'r1', 'req-2', 'Write', 'a.txt', null, 'timeout', 0, null, now, now + 30000);
+      insert.run('l3', 's2', 'r2', 'req-3', 'Bash', 'pwd', null, 'deny', 0, 'client-1', now, now);
+
+      const res = await request(app).get('/api/sessions/s1/permissions');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((l: { id: string }) => l.id)).toEqual(['l2', 'l1']);
+      expect(res.body.data[0]).toMatchObject({ decision: 'timeout', remembered: false });
+      expect(res.body.data[0].decidedBy).toBeUndefined();
+      expect(res.body.data[1]).toMatchObject({
+        runId: 'r1',
+        requestId: 'req-1',
+        tool: 'Bash',
+        toolInput: { command: 'ls' },
+        decision: 'allow',
+        remembered: true,
+        decidedBy: 'client-1',
+        sessionName: 'Test Session'
+      });
+    });
+
+    it('returns 404 for non-existent session', async () => {
+      const res = await request(app).get('/api/sessions/nonexistent/permissions');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error.code).toBe('NOT_FOUND');
+    });
+  });
+
   describe('POST /api/sessions/:id/messages', () => {
     beforeEach(() => {
       const now = Date.now();
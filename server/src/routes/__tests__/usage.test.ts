@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import Database from 'better-sqlite3';
+import { createUsageRoutes } from '../usage.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const JAN_1 = Date.UTC(2026, 0, 1, 12);
+
+function createTestDb(): Database.Database {
+  const db = new Database(':memory:');
+
+  db.exec(`
+    CREATE TABLE providers (id TEXT PRIMARY KEY, name TEXT NOT NULL, type TEXT NOT NULL);
+    CREATE TABLE projects (id TEXT PRIMARY KEY, name TEXT NOT NULL);
+    CREATE TABLE sessions (id TEXT PRIMARY KEY, project_id TEXT NOT NULL, name TEXT);
+    CREATE TABLE provider_runs (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      provider_id TEXT,
+      provider_type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      input TEXT NOT NULL,
+      usage TEXT,
+      started_at INTEGER NOT NULL
+    );
+
+    INSERT INTO providers (id, name, type) VALUES ('prov-claude', 'Team Claude', 'claude');
+    INSERT INTO projects (id, name) VALUES ('p1', 'Web'), ('p2', 'API');
+    INSERT INTO sessions (id, project_id, name) VALUES ('s1', 'p1', 'Refactor'), ('s2', 'p1', 'Docs'), ('s3', 'p2', 'Fix, "urgent"');
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO provider_runs (id, session_id, provider_id, provider_type, status, input, usage, started_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  insert.run('r1', 's1', 'prov-claude', 'claude', 'completed', 'Split the module',
+    JSON.stringify({ inputTokens: 100, outputTokens: 50, cacheReadTokens: 1000, costUsd: 0.5, numTurns: 3, durationMs: 4000 }), JAN_1);
+  insert.run('r2', 's2', 'prov-claude', 'claude', 'completed', 'Write docs',
+    JSON.stringify({ inputTokens: 20, outputTokens: 10, costUsd: 0.1, numTurns: 1, durationMs: 1000 }), JAN_1 + 1000);
+  insert.run('r3', 's3', null, 'codex', 'completed', 'Fix the bug',
+    JSON.stringify({ inputTokens: 400, outputTokens: 80, cacheReadTokens: 300 }), JAN_1 + DAY);
+  insert.run('r4', 's1', 'prov-claude', 'claude', 'failed', 'Crashed', null, JAN_1 + DAY);
+
+  return db;
+}
+
+function createTestApp(db: Database.Database) {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/usage', createUsageRoutes(db));
+  return app;
+}
+
+describe('usage routes', () => {
+  let app: ReturnType<typeof express>;
+
+  beforeEach(() => {
+    app = createTestApp(createTestDb());
+  });
+
+  describe('GET /api/usage', () => {
+    it('totals the runs that reported usage', async () => {
+      const res = await request(app).get('/api/usage');
+
+      expect(res.status).toBe(200);
+      expect(res.body.success).toBe(true);
+      expect(res.body.data.totals).toEqual({
+        runs: 3,
+        inputTokens: 520,
+        outputTokens: 140,
+        cacheReadTokens: 1300,
+        cacheCreationTokens: 0,
+        costUsd: 0.6,
+        numTurns: 4,
+        durationMs: 5000
+      });
+    });
+
+    it('groups by day, project, provider and session', async () => {
+      const res = await request(app).get('/api/usage');
+      const { byDay, byProject, byProvider, topSessions } = res.body.data;
+
+      expect(byDay.map((g: { key: string; runs: number }) => [g.key, g.runs])).toEqual([
+        ['2026-01-01', 2],
+        ['2026-01-02', 1]
+      ]);
+      expect(byProject.map((g: { label: string; costUsd: number }) => [g.label, g.costUsd])).toEqual([
+        ['Web', 0.6],
+        ['API', 0]
+      ]);
+      expect(byProvider.map((g: { key: string; label: string }) => [g.key, g.label])).toEqual([
+        ['prov-claude', 'Team Claude'],
+        ['codex', 'codex']
+      ]);
+      expect(topSessions.map((g: { label: string }) => g.label)).toEqual(['Refactor', 'Docs', 'Fix, "urgent"']);
+    });
+
+    it('lists the most expensive runs', async () => {
+      const res = await request(app).get('/api/usage').query({ limit: 2 });
+
+      expect(res.body.data.topRuns).toHaveLength(2);
+      expect(res.body.data.topRuns[0]).toMatchObject({
+        id: 'r1',
+        sessionName: 'Refactor',
+        projectName: 'Web',
+        providerType: 'claude',
+        usage: { costUsd: 0.5 }
+      });
+      expect(res.body.data.topSessions).toHaveLength(2);
+    });
+
+    it('filters by time range and project', async () => {
+      let res = await request(app).get('/api/usage').query({ since: JAN_1 + DAY });
+      expect(res.body.data.totals.runs).toBe(1);
+      expect(res.body.data.topRuns[0].id).toBe('r3');
+
+      res = await request(app).get('/api/usage').query({ until: JAN_1 + 1000 });
+      expect(res.body.data.totals.runs).toBe(1);
+
+      res = await request(app).get('/api/usage').query({ projectId: 'p1' });
+      expect(res.body.data.totals.runs).toBe(2);
+      expect(res.body.data.byProject).toHaveLength(1);
+    });
+
+    it('rejects an invalid filter', async () => {
+      const res = await request(app).get('/api/usage').query({ since: 'yesterday' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('GET /api/usage/runs.csv', () => {
+    it('exports one row per run, oldest first', async () => {
+      const res = await request(app).get('/api/usage/runs.csv');
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toContain('text/csv');
+      expect(res.headers['content-disposition']).toContain('usage.csv');
+
+      const lines = res.text.trim().split('\n');
+      expect(lines[0]).toBe(
+        'run_id,started_at,project,session,provider,status,input_tokens,output_tokens,cache_read_tokens,cache_creation_tokens,cost_usd,turns,duration_ms'
+      );
+      expect(lines).toHaveLength(4);
+      expect(lines[1]).toBe('r1,2026-01-01T12:00:00.000Z,Web,Refactor,claude,completed,100,50,1000,,0.5,3,4000');
+      expect(lines[3]).toBe('r3,2026-01-02T12:00:00.000Z,API,"Fix, ""urgent""",codex,completed,400,80,300,,,,');
+    });
+
+    it('applies the filters', async () => {
+      const res = await request(app).get('/api/usage/runs.csv').query({ projectId: 'p2' });
+
+      expect(res.text.trim().split('\n')).toHaveLength(2);
+    });
+  });
+});
@@ -2,8 +2,14 @@ import { Router, Request, Response } from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import type Database from 'better-sqlite3';
 import type { ApiResponse, CommandExecuteRequest, CommandExecuteResponse, SlashCommand } from '@my-claudia/shared';
-import { LOCAL_COMMANDS } from '@my-claudia/shared';
+import { LOCAL_COMMANDS, PROVIDER_CAPABILITIES } from '@my-claudia/shared';
+import { getSessionAgentSettings, resolveAgentSettings, setSessionModel } from '../storage/agentSettings.js';
+import { getSessionUsage } from '../storage/usage.js';
+
+// Context window of the Claude models
+const CONTEXT_WINDOW_TOKENS = 200000;
 
 // Read package.json for version info
 function getPackageInfo(): { name: string; version: string } {
@@ -27,8 +33,153 @@ function formatUptime(seconds: number): string {
   return `${minutes}m`;
 }
 
+function formatTokens(count: number): string {
+  return count.toLocaleString('en-US');
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+// Totals of the runs of the session: tokens, cache, cost, turns and time
+function handleCostCommand(
+  _args: string[],
+  context: CommandExecuteRequest['context'],
+  db?: Database.Database
+): CommandExecuteResponse {
+  if (!db || !context?.sessionId) {
+    return {
+      type: 'builtin',
+      command: '/cost',
+      action: 'cost',
+      data: { error: true, message: 'Open a session to see its usage.' }
+    };
+  }
+
+  const usage = getSessionUsage(db, context.sessionId);
+  const lines = usage.runs === 0
+    ? ['No usage recorded for this session yet.']
+    : [
+        `**Session usage** (${usage.runs} ${usage.runs === 1 ? 'run' : 'runs'}, ${usage.numTurns} turns)`,
+        '',
+        `- **Input:** ${formatTokens(usage.inputTokens)} tokens`,
+        `- **Output:** ${formatTokens(usage.outputTokens)} tokens`,
+        `- **Cache read:** ${formatTokens(usage.cacheReadTokens)} tokens`,
+        `- **Cache write:** ${formatTokens(usage.cacheCreationTokens)} tokens`,
+        `- **Cost:** $${usage.costUsd.toFixed(4)}`,
+        `- **Duration:** ${formatDuration(usage.durationMs)}`
+      ];
+
+  return {
+    type: 'builtin',
+    command: '/cost',
+    action: 'cost',
+    data: {
+      usage,
+      model: context.model || 'unknown',
+      message: lines.join('\n')
+    }
+  };
+}
+
+// How much of the context window the prompt of the session's last model call took
+function handleContextCommand(
+  _args: string[],
+  context: CommandExecuteRequest['context'],
+  db?: Database.Database
+): CommandExecuteResponse {
+  if (!db || !context?.sessionId) {
+    return {
+      type: 'builtin',
+      command: '/context',
+      action: 'context',
+      data: { error: true, message: 'Open a session to see its context usage.' }
+    };
+  }
+
+  const last = getSessionUsage(db, context.sessionId).lastRun;
+  const used = last
+    ? last.contextTokens ?? last.inputTokens + (last.cacheReadTokens || 0) + (last.cacheCreationTokens || 0)
+    : 0;
+  const total = CONTEXT_WINDOW_TOKENS;
+  const percentage = ((used / total) * 100).toFixed(1);
+
+  return {
+    type: 'builtin',
+    command: '/context',
+    action: 'context',
+    data: {
+      tokenUsage: { used, total, percentage },
+      model: context.model || 'unknown',
+      message: last
+        ? `**Context:** ${formatTokens(used)} / ${formatTokens(total)} tokens (${percentage}%)`
+        : 'No usage recorded for this session yet.'
+    }
+  };
+}
+
+// List the models of the session's provider, or switch the session to another model.
+// `/model default` clears the session model so the project or provider model applies again.
+function handleModelCommand(
+  args: string[],
+  context: CommandExecuteRequest['context'],
+  db?: Database.Database
+): CommandExecuteResponse {
+  const settings = db && context?.sessionId ? getSessionAgentSettings(db, context.sessionId, context.providerId) : undefined;
+  const provider = settings?.providerType || context?.provider || 'claude';
+  const models = PROVIDER_CAPABILITIES[provider as keyof typeof PROVIDER_CAPABILITIES]?.models || [];
+  const requested = args[0];
+
+  if (requested && !settings) {
+    return {
+      type: 'builtin',
+      command: '/model',
+      action: 'model',
+      data: { error: true, message: 'Open a session to switch its model.' }
+    };
+  }
+
+  let switched = false;
+  if (db && settings && requested) {
+    settings.session = setSessionModel(db, context!.sessionId!, requested === 'default' ? undefined : requested);
+    settings.effective = resolveAgentSettings(settings.provider, settings.project, settings.session);
+    switched = true;
+  }
+
+  const model = settings?.effective.model || context?.model;
+  const lines = [
+    switched ? `Switched this session to: ${model || 'provider default'}` : `Current model: ${model || 'provider default'}`,
+    `Provider: ${provider}`
+  ];
+  if (models.length > 0) {
+    lines.push(`Available models: ${models.map(m => (m === model ? `${m} (current)` : m)).join(', ')}`);
+  }
+  if (settings && !switched) {
+    lines.push('Use /model <name> to switch this session, or /model default to inherit the project model.');
+  }
+
+  return {
+    type: 'builtin',
+    command: '/model',
+    action: 'model',
+    data: {
+      model,
+      provider,
+      models,
+      ...(switched ? { sessionAgentSettings: settings?.session ?? null } : {}),
+      message: lines.join('\n')
+    }
+  };
+}
+
 // Built-in command handlers
-const builtInHandlers: Record<string, (args: string[], context: CommandExecuteRequest['context']) => CommandExecuteResponse> = {
+const builtInHandlers: Record<string, (
+  args: string[],
+  context: CommandExecuteRequest['context'],
+  db?: Database.Database
+) => CommandExecuteResponse> = {
   '/clear': (_args, _context) => ({
     type: 'builtin',
     command: '/clear',
@@ -92,37 +243,11 @@ Custom commands can be created in:
     };
   },
 
-  '/model': (_args, context) => ({
-    type: 'builtin',
-    command: '/model',
-    action: 'model',
-    data: {
-      model: context?.model || 'claude-sonnet-4-20250514',
-      provider: context?.provider || 'claude',
-      message: `Current model: ${context?.model || 'claude-sonnet-4-20250514'}\nProvider: ${context?.provider || 'claude'}`
-    }
-  }),
+  '/model': handleModelCommand,
 
-  '/cost': (_args, context) => {
-    const tokenUsage = context?.tokenUsage || { used: 0, total: 160000 };
-    const percentage = tokenUsage.total > 0
-      ? ((tokenUsage.used / tokenUsage.total) * 100).toFixed(1)
-      : '0';
+  '/cost': handleCostCommand,
 
-    return {
-      type: 'builtin',
-      command: '/cost',
-      action: 'cost',
-      data: {
-        tokenUsage: {
-          used: tokenUsage.used,
-          total: tokenUsage.total,
-          percentage
-        },
-        model: context?.model || 'unknown'
-      }
-    };
-  },
+  '/context': handleContextCommand,
 
   '/memory': (_args, context) => {
     const projectPath = context?.projectPath;
@@ -223,7 +348,8 @@ async function scanCommandsDirectory(dir: string, namespace: 'project' | 'user')
   return commands;
 }
 
-export function createCommandsRoutes(): Router {
+// db is needed by commands that read or change session settings (/model)
+export function createCommandsRoutes(db?: Database.Database): Router {
   const router = Router();
 
   // POST /api/commands/list - List all available commands
@@ -277,7 +403,7 @@ export function createCommandsRoutes(): Router {
       // Handle built-in commands
       const handler = builtInHandlers[commandName];
       if (handler) {
-        const result = handler(args, context);
+        const result = handler(args, context, db);
         res.json({ success: true, data: result } as ApiResponse<CommandExecuteResponse>);
         return;
       }
@@ -2,8 +2,10 @@ import { Router, Request, Response } from 'express';
 import * as fs from 'fs';
 import * as path from 'path';
 import multer from 'multer';
+import type Database from 'better-sqlite3';
 import type { ApiResponse, DirectoryListingResponse, FileEntry, FileContentResponse } from '@my-claudia/shared';
 import { fileStore } from '../storage/fileStore.js';
+import { getProjectDirectories } from '../storage/agentSettings.js';
 
 // Directories to skip when listing
 const IGNORED_DIRS = new Set([
@@ -27,11 +29,16 @@ const IGNORED_DIRS = new Set([
   '.nyc_output',
 ]);
 
-// Security: Ensure path is within project root (prevent path traversal)
-function isPathSafe(projectRoot: string, targetPath: string): boolean {
+function isInside(dir: string, resolvedPath: string): boolean {
+  const normalizedDir = path.resolve(dir);
+  return resolvedPath.startsWith(normalizedDir + path.sep) || resolvedPath === normalizedDir;
+}
+
+// Security: Ensure path is within project root or one of the project's
+// additional directories (prevent path traversal)
+function isPathSafe(projectRoot: string, targetPath: string, additionalDirectories: string[] = []): boolean {
   const resolvedPath = path.resolve(projectRoot, targetPath);
-  const normalizedRoot = path.resolve(projectRoot);
-  return resolvedPath.startsWith(normalizedRoot + path.sep) || resolvedPath === normalizedRoot;
+  return [projectRoot, ...additionalDirectories].some(dir => isInside(dir, resolvedPath));
 }
 
 // Get file extension for categorization
@@ -57,9 +64,13 @@ const upload = multer({
   }
 });
 
-export function createFilesRoutes(): Router {
+export function createFilesRoutes(db?: Database.Database): Router {
   const router = Router();
 
+  // providerId: the provider the runs use, when it is not the project's
+  const getAdditionalDirectories = (projectRoot: string, providerId?: string): string[] =>
+    db ? getProjectDirectories(db, projectRoot, providerId) : [];
+
   // POST /api/files/upload
   // Upload a file and get fileId
   router.post('/upload', upload.single('file'), (req: Request, res: Response) => {
@@ -101,14 +112,15 @@ export function createFilesRoutes(): Router {
   });
 
   // GET /api/files/list
-  // Query params: projectRoot, relativePath, query, maxResults
+  // Query params: projectRoot, relativePath, query, maxResults, providerId
   router.get('/list', (req: Request, res: Response) => {
     try {
       const {
         projectRoot,
         relativePath = '',
         query = '',
-        maxResults = '50'
+        maxResults = '50',
+        providerId
       } = req.query as Record<string, string>;
 
       if (!projectRoot) {
@@ -119,11 +131,18 @@ export function createFilesRoutes(): Router {
         return;
       }
 
-      // Normalize the relative path (remove leading/trailing slashes)
-      const normalizedRelPath = relativePath.replace(/^\/+|\/+$/g, '');
+      const additionalDirectories = getAdditionalDirectories(projectRoot, providerId);
+
+      // Normalize the relative path (remove leading/trailing slashes); paths in
+      // additional directories are absolute
+      const isAdditional = path.isAbsolute(relativePath) &&
+        additionalDirectories.some(dir => isInside(dir, path.resolve(relativePath)));
+      const normalizedRelPath = isAdditional
+        ? path.resolve(relativePath)
+        : relativePath.replace(/^\/+|\/+$/g, '');
 
       // Security check
-      if (!isPathSafe(projectRoot, normalizedRelPath)) {
+      if (!isPathSafe(projectRoot, normalizedRelPath, additionalDirectories)) {
         res.status(403).json({
           success: false,
           error: { code: 'FORBIDDEN', message: 'Path traversal not allowed' }
@@ -131,7 +150,7 @@ export function createFilesRoutes(): Router {
         return;
       }
 
-      const targetPath = path.join(projectRoot, normalizedRelPath);
+      const targetPath = path.resolve(projectRoot, normalizedRelPath);
 
       // Check if path exists
       if (!fs.existsSync(targetPath)) {
@@ -158,6 +177,15 @@ export function createFilesRoutes(): Router {
       const entries: FileEntry[] = [];
       let hasMore = false;
 
+      // The project root also lists the additional directories
+      if (!normalizedRelPath) {
+        for (const dir of additionalDirectories) {
+          if (fuzzyMatch(query, path.basename(dir)) && !isInside(projectRoot, dir)) {
+            entries.push({ name: path.basename(dir), path: dir, type: 'directory' });
+          }
+        }
+      }
+
       for (const entry of dirEntries) {
         // Skip hidden files (starting with .)
         if (entry.name.startsWith('.')) {
@@ -226,11 +254,11 @@ export function createFilesRoutes(): Router {
   });
 
   // GET /api/files/content
-  // Query params: projectRoot, relativePath
+  // Query params: projectRoot, relativePath, providerId
   // Returns file content for @ mentions
   router.get('/content', (req: Request, res: Response) => {
     try {
-      const { projectRoot, relativePath } = req.query as Record<string, string>;
+      const { projectRoot, relativePath, providerId } = req.query as Record<string, string>;
 
       if (!projectRoot || !relativePath) {
         res.status(400).json({
@@ -241,7 +269,7 @@ export function createFilesRoutes(): Router {
       }
 
       // Security check
-      if (!isPathSafe(projectRoot, relativePath)) {
+      if (!isPathSafe(projectRoot, relativePath, getAdditionalDirectories(projectRoot, providerId))) {
         res.status(403).json({
           success: false,
           error: { code: 'FORBIDDEN', message: 'Path traversal not allowed' }
@@ -249,7 +277,7 @@ export function createFilesRoutes(): Router {
         return;
       }
 
-      const fullPath = path.join(projectRoot, relativePath);
+      const fullPath = path.resolve(projectRoot, relativePath);
 
       // Check if file exists
       if (!fs.existsSync(fullPath)) {
@@ -287,7 +287,8 @@ function parseClaudeSession(
 // Convert Claude message to my-claudia format
 function convertMessage(
   claudeMsg: ClaudeMessage,
-  targetSessionId: string
+  targetSessionId: string,
+  keepThinking = true
 ): Omit<Message, 'id'> & { id: string } {
   const { uuid, timestamp, message } = claudeMsg;
 
@@ -300,7 +301,7 @@ function convertMessage(
   if (typeof message.content === 'string') {
     content = message.content;
   } else if (Array.isArray(message.content)) {
-    // Merge text blocks, ignore thinking
+    // Merge text blocks; thinking goes to the metadata
     content = message.content
       .filter(block => block.type === 'text' && block.text)
       .map(block => block.text)
@@ -319,6 +320,17 @@ function convertMessage(
     };
   }
 
+  // Keep extended thinking unless the project turned it off
+  if (keepThinking && Array.isArray(message.content)) {
+    const thinking = message.content
+      .filter(block => block.type === 'thinking' && block.thinking)
+      .map(block => block.thinking)
+      .join('\n\n');
+    if (thinking) {
+      metadata.thinking = thinking;
+    }
+  }
+
   // Extract tool calls
   if (Array.isArray(message.content)) {
     const toolBlocks = message.content.filter(
@@ -347,6 +359,7 @@ function extractToolCalls(toolBlocks: any[]): any[] {
   for (const block of toolBlocks) {
     if (block.type === 'tool_use') {
       toolUseMap.set(block.id || block.name, {
+        id: block.id,
         name: block.name,
         input: block.input
       });
@@ -354,9 +367,11 @@ function extractToolCalls(toolBlocks: any[]): any[] {
       const toolUse = toolUseMap.get(block.tool_use_id || block.id);
       if (toolUse) {
         toolCalls.push({
+          id: toolUse.id,
           name: toolUse.name,
           input: toolUse.input,
-          output: block.content || block.result
+          output: block.content || block.result,
+          isError: block.is_error || undefined
         });
       }
     }
@@ -442,6 +457,9 @@ async function importSessions(
         );
 
         // 4. Insert messages
+        const project = db.prepare('SELECT show_thinking FROM projects WHERE id = ?')
+          .get(item.targetProjectId) as { show_thinking: number } | undefined;
+        const keepThinking = project?.show_thinking !== 0;
         const insertMessage = db.prepare(`
           INSERT INTO messages (id, session_id, role, content, metadata, created_at)
           VALUES (?, ?, ?, ?, ?, ?)
@@ -449,7 +467,7 @@ async function importSessions(
 
         for (const claudeMsg of sessionData.messages) {
           try {
-            const msg = convertMessage(claudeMsg, item.sessionId);
+            const msg = convertMessage(claudeMsg, item.sessionId, keepThinking);
             insertMessage.run(
               msg.id,
               msg.sessionId,
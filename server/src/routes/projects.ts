@@ -1,7 +1,22 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import type Database from 'better-sqlite3';
-import type { Project, ApiResponse, PermissionPolicy } from '@my-claudia/shared';
+import type { Project, ApiResponse, SystemPromptMode, PermissionPolicy, PermissionLog, PermissionDecision, PermissionRule, PermissionPolicyResult, BudgetUsage } from '@my-claudia/shared';
+import { queryPermissionLogs } from '../storage/permissionLogs.js';
+import { listPermissionRules, deletePermissionRule } from '../storage/permissionRules.js';
+import { evaluatePermissionPolicy } from '../providers/permission-policy.js';
+import { getProjectDirectories, normalizeAgentSettings, parseAgentSettings, serializeAgentSettings, validateAgentSettings } from '../storage/agentSettings.js';
+import { getBudgetUsage, normalizeBudget, parseBudget, serializeBudget, validateBudget } from '../storage/budget.js';
+
+const PERMISSION_DECISIONS: PermissionDecision[] = ['allow', 'deny', 'timeout'];
+const SYSTEM_PROMPT_MODES: SystemPromptMode[] = ['append', 'replace'];
+
+type ProjectRow = Omit<Project, 'agentSettings' | 'showThinking' | 'permissionPolicy' | 'budget'> & {
+  agentSettings: string | null;
+  showThinking: number;
+  permissionPolicy: string | null;
+  budget: string | null;
+};
 
 export function createProjectRoutes(db: Database.Database): Router {
   const router = Router();
@@ -11,15 +26,19 @@ export function createProjectRoutes(db: Database.Database): Router {
     try {
       const projects = db.prepare(`
         SELECT id, name, type, provider_id as providerId, root_path as rootPath,
-               system_prompt as systemPrompt, permission_policy as permissionPolicy,
+               system_prompt as systemPrompt, system_prompt_mode as systemPromptMode,
+               agent_settings as agentSettings, show_thinking as showThinking, permission_policy as permissionPolicy, budget,
                created_at as createdAt, updated_at as updatedAt
         FROM projects
         ORDER BY updated_at DESC
-      `).all() as Array<Project & { permissionPolicy: string }>;
+      `).all() as ProjectRow[];
 
       const result = projects.map(p => ({
         ...p,
-        permissionPolicy: p.permissionPolicy ? JSON.parse(p.permissionPolicy) : undefined
+        agentSettings: parseAgentSettings(p.agentSettings),
+        showThinking: p.showThinking !== 0,
+        permissionPolicy: p.permissionPolicy ? JSON.parse(p.permissionPolicy) : undefined,
+        budget: parseBudget(p.budget)
       }));
 
       res.json({ success: true, data: result } as ApiResponse<Project[]>);
@@ -37,10 +56,11 @@ export function createProjectRoutes(db: Database.Database): Router {
     try {
       const project = db.prepare(`
         SELECT id, name, type, provider_id as providerId, root_path as rootPath,
-               system_prompt as systemPrompt, permission_policy as permissionPolicy,
+               system_prompt as systemPrompt, system_prompt_mode as systemPromptMode,
+               agent_settings as agentSettings, show_thinking as showThinking, permission_policy as permissionPolicy, budget,
                created_at as createdAt, updated_at as updatedAt
         FROM projects WHERE id = ?
-      `).get(req.params.id) as (Project & { permissionPolicy: string }) | undefined;
+      `).get(req.params.id) as ProjectRow | undefined;
 
       if (!project) {
         res.status(404).json({
@@ -54,7 +74,10 @@ export function createProjectRoutes(db: Database.Database): Router {
         success: true,
         data: {
           ...project,
-          permissionPolicy: project.permissionPolicy ? JSON.parse(project.permissionPolicy) : undefined
+          agentSettings: parseAgentSettings(project.agentSettings),
+          showThinking: project.showThinking !== 0,
+          permissionPolicy: project.permissionPolicy ? JSON.parse(project.permissionPolicy) : undefined,
+          budget: parseBudget(project.budget)
         }
       } as ApiResponse<Project>);
     } catch (error) {
@@ -69,7 +92,7 @@ export function createProjectRoutes(db: Database.Database): Router {
   // Create project
   router.post('/', (req: Request, res: Response) => {
     try {
-      const { name, type = 'code', providerId, rootPath, systemPrompt, permissionPolicy } = req.body;
+      const { name, type = 'code', providerId, rootPath, systemPrompt, systemPromptMode, agentSettings, showThinking, permissionPolicy, budget } = req.body;
 
       if (!name) {
         res.status(400).json({
@@ -79,12 +102,29 @@ export function createProjectRoutes(db: Database.Database): Router {
         return;
       }
 
+      if (systemPromptMode && !SYSTEM_PROMPT_MODES.includes(systemPromptMode)) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: `systemPromptMode must be one of: ${SYSTEM_PROMPT_MODES.join(', ')}` }
+        });
+        return;
+      }
+
+      const settingsError = validateAgentSettings(agentSettings) || validateBudget(budget);
+      if (settingsError) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: settingsError }
+        });
+        return;
+      }
+
       const id = uuidv4();
       const now = Date.now();
 
       db.prepare(`
-        INSERT INTO projects (id, name, type, provider_id, root_path, system_prompt, permission_policy, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO projects (id, name, type, provider_id, root_path, system_prompt, system_prompt_mode, agent_settings, show_thinking, permission_policy, budget, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         id,
         name,
@@ -92,7 +132,11 @@ export function createProjectRoutes(db: Database.Database): Router {
         providerId || null,
         rootPath || null,
         systemPrompt || null,
+        systemPromptMode || null,
+        serializeAgentSettings(agentSettings),
+        showThinking === false ? 0 : 1,
         permissionPolicy ? JSON.stringify(permissionPolicy) : null,
+        serializeBudget(budget),
         now,
         now
       );
@@ -104,7 +148,11 @@ export function createProjectRoutes(db: Database.Database): Router {
         providerId,
         rootPath,
         systemPrompt,
+        systemPromptMode,
+        agentSettings: normalizeAgentSettings(agentSettings),
+        showThinking: showThinking !== false,
         permissionPolicy,
+        budget: normalizeBudget(budget),
         createdAt: now,
         updatedAt: now
       };
@@ -122,9 +170,26 @@ export function createProjectRoutes(db: Database.Database): Router {
   // Update project
   router.put('/:id', (req: Request, res: Response) => {
     try {
-      const { name, type, providerId, rootPath, systemPrompt, permissionPolicy } = req.body;
+      const { name, type, providerId, rootPath, systemPrompt, systemPromptMode, agentSettings, showThinking, permissionPolicy, budget } = req.body;
       const now = Date.now();
 
+      if (systemPromptMode && !SYSTEM_PROMPT_MODES.includes(systemPromptMode)) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: `systemPromptMode must be one of: ${SYSTEM_PROMPT_MODES.join(', ')}` }
+        });
+        return;
+      }
+
+      const settingsError = validateAgentSettings(agentSettings) || validateBudget(budget);
+      if (settingsError) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: settingsError }
+        });
+        return;
+      }
+
       const result = db.prepare(`
         UPDATE projects
         SET name = COALESCE(?, name),
@@ -132,7 +197,11 @@ export function createProjectRoutes(db: Database.Database): Router {
             provider_id = ?,
             root_path = ?,
             system_prompt = ?,
+            system_prompt_mode = ?,
+            agent_settings = ?,
+            show_thinking = COALESCE(?, show_thinking),
             permission_policy = ?,
+            budget = ?,
             updated_at = ?
         WHERE id = ?
       `).run(
@@ -141,7 +210,11 @@ export function createProjectRoutes(db: Database.Database): Router {
         providerId !== undefined ? providerId : null,
         rootPath !== undefined ? rootPath : null,
         systemPrompt !== undefined ? systemPrompt : null,
+        systemPromptMode || null,
+        serializeAgentSettings(agentSettings),
+        showThinking !== undefined ? (showThinking ? 1 : 0) : null,
         permissionPolicy ? JSON.stringify(permissionPolicy) : null,
+        serializeBudget(budget),
         now,
         req.params.id
       );
@@ -187,5 +260,156 @@ export function createProjectRoutes(db: Database.Database): Router {
     }
   });
 
+  // Usage of the project's daily and monthly budget limits
+  router.get('/:id/budget', (req: Request, res: Response) => {
+    try {
+      const project = db.prepare('SELECT budget FROM projects WHERE id = ?')
+        .get(req.params.id) as { budget: string | null } | undefined;
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Project not found' }
+        });
+        return;
+      }
+
+      const budget = parseBudget(project.budget);
+      const usage = budget ? getBudgetUsage(db, req.params.id, budget) : [];
+      res.json({ success: true, data: usage } as ApiResponse<BudgetUsage[]>);
+    } catch (error) {
+      console.error('Error fetching budget usage:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to fetch budget usage' }
+      });
+    }
+  });
+
+  // Permission audit log of all sessions in a project, newest first
+  // Query params:
+  //   - sessionId, tool, decision: exact-match filters
+  //   - since, until: decision time range (ms timestamps)
+  //   - limit: number of entries to fetch (default: 100)
+  router.get('/:id/permissions', (req: Request, res: Response) => {
+    try {
+      const decision = req.query.decision as string | undefined;
+      if (decision && !PERMISSION_DECISIONS.includes(decision as PermissionDecision)) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: `Decision must be one of: ${PERMISSION_DECISIONS.join(', ')}` }
+        });
+        return;
+      }
+
+      const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(req.params.id);
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Project not found' }
+        });
+        return;
+      }
+
+      const logs = queryPermissionLogs(db, {
+        projectId: req.params.id,
+        sessionId: req.query.sessionId as string | undefined,
+        tool: req.query.tool as string | undefined,
+        decision: decision as PermissionDecision | undefined,
+        since: req.query.since ? parseInt(req.query.since as string) : undefined,
+        until: req.query.until ? parseInt(req.query.until as string) : undefined,
+        limit: parseInt(req.query.limit as string) || undefined
+      });
+
+      res.json({ success: true, data: logs } as ApiResponse<PermissionLog[]>);
+    } catch (error) {
+      console.error('Error fetching permission logs:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to fetch permission logs' }
+      });
+    }
+  });
+
+  // Show which part of a policy decides a sample tool use (the policy may be unsaved)
+  // Body: { policy, toolName, toolInput }
+  router.post('/:id/permission-policy/test', (req: Request, res: Response) => {
+    try {
+      const { policy, toolName, toolInput } = req.body;
+      if (!policy || typeof policy !== 'object' || typeof toolName !== 'string' || !toolName) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'policy and toolName are required' }
+        });
+        return;
+      }
+
+      const project = db.prepare('SELECT root_path as rootPath FROM projects WHERE id = ?')
+        .get(req.params.id) as { rootPath: string | null } | undefined;
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Project not found' }
+        });
+        return;
+      }
+
+      const result = evaluatePermissionPolicy(policy as PermissionPolicy, toolName, toolInput, {
+        cwd: project.rootPath || undefined,
+        additionalDirectories: project.rootPath ? getProjectDirectories(db, project.rootPath) : undefined
+      });
+      res.json({ success: true, data: result } as ApiResponse<PermissionPolicyResult>);
+    } catch (error) {
+      console.error('Error testing permission policy:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to test permission policy' }
+      });
+    }
+  });
+
+  // Remembered permission decisions of a project, newest first
+  router.get('/:id/permission-rules', (req: Request, res: Response) => {
+    try {
+      const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(req.params.id);
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Project not found' }
+        });
+        return;
+      }
+
+      const rules = listPermissionRules(db, req.params.id);
+      res.json({ success: true, data: rules } as ApiResponse<PermissionRule[]>);
+    } catch (error) {
+      console.error('Error fetching permission rules:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to fetch permission rules' }
+      });
+    }
+  });
+
+  // Revoke a remembered decision
+  router.delete('/:id/permission-rules/:ruleId', (req: Request, res: Response) => {
+    try {
+      if (!deletePermissionRule(db, req.params.id, req.params.ruleId)) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Permission rule not found' }
+        });
+        return;
+      }
+
+      res.json({ success: true } as ApiResponse<void>);
+    } catch (error) {
+      console.error('Error deleting permission rule:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to delete permission rule' }
+      });
+    }
+  });
+
   return router;
 }
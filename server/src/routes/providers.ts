@@ -1,9 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import type Database from 'better-sqlite3';
-import type { ProviderConfig, ApiResponse, SlashCommand } from '@my-claudia/shared';
-import { LOCAL_COMMANDS, CLI_COMMANDS } from '@my-claudia/shared';
+import type { ProviderConfig, ProviderType, ProviderCapabilities, ApiResponse, SlashCommand } from '@my-claudia/shared';
+import { LOCAL_COMMANDS, CLI_COMMANDS, PROVIDER_CAPABILITIES } from '@my-claudia/shared';
 import { scanCustomCommands } from '../utils/command-scanner.js';
+import { normalizeAgentSettings, parseAgentSettings, serializeAgentSettings, validateAgentSettings } from '../storage/agentSettings.js';
 
 // Database row type (different from ProviderConfig due to SQLite types)
 interface ProviderRow {
@@ -12,11 +13,23 @@ interface ProviderRow {
   type: string;
   cliPath: string | null;
   env: string | null;
+  streamJson: string | null;
+  agentSettings: string | null;
   isDefault: number;
   createdAt: number;
   updatedAt: number;
 }
 
+// Local + CLI pass-through + custom commands. CLI commands are only offered
+// to providers that accept slash commands in the prompt.
+function getCommandsForType(type: ProviderType, customCommands: SlashCommand[]): SlashCommand[] {
+  const capabilities = PROVIDER_CAPABILITIES[type];
+  if (capabilities && !capabilities.supportsSlashCommands) {
+    return [...LOCAL_COMMANDS];
+  }
+  return [...LOCAL_COMMANDS, ...CLI_COMMANDS, ...customCommands];
+}
+
 export function createProviderRoutes(db: Database.Database): Router {
   const router = Router();
 
@@ -24,8 +37,8 @@ export function createProviderRoutes(db: Database.Database): Router {
   router.get('/', (_req: Request, res: Response) => {
     try {
       const providers = db.prepare(`
-        SELECT id, name, type, cli_path as cliPath, env,
-               is_default as isDefault, created_at as createdAt, updated_at as updatedAt
+        SELECT id, name, type, cli_path as cliPath, env, stream_json as streamJson,
+               agent_settings as agentSettings, is_default as isDefault, created_at as createdAt, updated_at as updatedAt
         FROM providers
         ORDER BY is_default DESC, name ASC
       `).all() as ProviderRow[];
@@ -36,6 +49,9 @@ export function createProviderRoutes(db: Database.Database): Router {
         type: p.type as ProviderConfig['type'],
         cliPath: p.cliPath || undefined,
         env: p.env ? JSON.parse(p.env) : undefined,
+        streamJson: p.streamJson ? JSON.parse(p.streamJson) : undefined,
+        agentSettings: parseAgentSettings(p.agentSettings),
+        capabilities: PROVIDER_CAPABILITIES[p.type as ProviderType],
         isDefault: p.isDefault === 1,
         createdAt: p.createdAt,
         updatedAt: p.updatedAt
@@ -55,8 +71,8 @@ export function createProviderRoutes(db: Database.Database): Router {
   router.get('/:id', (req: Request, res: Response) => {
     try {
       const row = db.prepare(`
-        SELECT id, name, type, cli_path as cliPath, env,
-               is_default as isDefault, created_at as createdAt, updated_at as updatedAt
+        SELECT id, name, type, cli_path as cliPath, env, stream_json as streamJson,
+               agent_settings as agentSettings, is_default as isDefault, created_at as createdAt, updated_at as updatedAt
         FROM providers WHERE id = ?
       `).get(req.params.id) as ProviderRow | undefined;
 
@@ -74,6 +90,9 @@ export function createProviderRoutes(db: Database.Database): Router {
         type: row.type as ProviderConfig['type'],
         cliPath: row.cliPath || undefined,
         env: row.env ? JSON.parse(row.env) : undefined,
+        streamJson: row.streamJson ? JSON.parse(row.streamJson) : undefined,
+        agentSettings: parseAgentSettings(row.agentSettings),
+        capabilities: PROVIDER_CAPABILITIES[row.type as ProviderType],
         isDefault: row.isDefault === 1,
         createdAt: row.createdAt,
         updatedAt: row.updatedAt
@@ -95,7 +114,7 @@ export function createProviderRoutes(db: Database.Database): Router {
   // Create provider
   router.post('/', (req: Request, res: Response) => {
     try {
-      const { name, type = 'claude', cliPath, env, isDefault } = req.body;
+      const { name, type = 'claude', cliPath, env, streamJson, agentSettings, isDefault } = req.body;
 
       if (!name) {
         res.status(400).json({
@@ -105,6 +124,15 @@ export function createProviderRoutes(db: Database.Database): Router {
         return;
       }
 
+      const settingsError = validateAgentSettings(agentSettings);
+      if (settingsError) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: settingsError }
+        });
+        return;
+      }
+
       const id = uuidv4();
       const now = Date.now();
 
@@ -114,14 +142,16 @@ export function createProviderRoutes(db: Database.Database): Router {
       }
 
       db.prepare(`
-        INSERT INTO providers (id, name, type, cli_path, env, is_default, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO providers (id, name, type, cli_path, env, stream_json, agent_settings, is_default, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         id,
         name,
         type,
         cliPath || null,
         env ? JSON.stringify(env) : null,
+        streamJson ? JSON.stringify(streamJson) : null,
+        serializeAgentSettings(agentSettings),
         isDefault ? 1 : 0,
         now,
         now
@@ -133,6 +163,9 @@ export function createProviderRoutes(db: Database.Database): Router {
         type,
         cliPath,
         env,
+        streamJson,
+        agentSettings: normalizeAgentSettings(agentSettings),
+        capabilities: PROVIDER_CAPABILITIES[type as ProviderType],
         isDefault: isDefault || false,
         createdAt: now,
         updatedAt: now
@@ -151,9 +184,18 @@ export function createProviderRoutes(db: Database.Database): Router {
   // Update provider
   router.put('/:id', (req: Request, res: Response) => {
     try {
-      const { name, type, cliPath, env, isDefault } = req.body;
+      const { name, type, cliPath, env, streamJson, agentSettings, isDefault } = req.body;
       const now = Date.now();
 
+      const settingsError = validateAgentSettings(agentSettings);
+      if (settingsError) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: settingsError }
+        });
+        return;
+      }
+
       // If this provider is becoming default, unset other defaults
       if (isDefault) {
         db.prepare('UPDATE providers SET is_default = 0 WHERE id != ?').run(req.params.id);
@@ -165,6 +207,8 @@ export function createProviderRoutes(db: Database.Database): Router {
             type = COALESCE(?, type),
             cli_path = ?,
             env = ?,
+            stream_json = ?,
+            agent_settings = ?,
             is_default = COALESCE(?, is_default),
             updated_at = ?
         WHERE id = ?
@@ -173,6 +217,8 @@ export function createProviderRoutes(db: Database.Database): Router {
         type || null,
         cliPath !== undefined ? cliPath : null,
         env ? JSON.stringify(env) : null,
+        streamJson ? JSON.stringify(streamJson) : null,
+        serializeAgentSettings(agentSettings),
         isDefault !== undefined ? (isDefault ? 1 : 0) : null,
         now,
         req.params.id
@@ -239,14 +285,10 @@ export function createProviderRoutes(db: Database.Database): Router {
       const projectRoot = req.query.projectRoot as string | undefined;
       const customCommands = scanCustomCommands({ projectRoot });
 
-      // Combine: local + CLI pass-through + custom commands
-      const allCommands: SlashCommand[] = [
-        ...LOCAL_COMMANDS,
-        ...CLI_COMMANDS,
-        ...customCommands
-      ];
-
-      res.json({ success: true, data: allCommands } as ApiResponse<SlashCommand[]>);
+      res.json({
+        success: true,
+        data: getCommandsForType(row.type as ProviderType, customCommands)
+      } as ApiResponse<SlashCommand[]>);
     } catch (error) {
       console.error('Error fetching provider commands:', error);
       res.status(500).json({
@@ -265,14 +307,10 @@ export function createProviderRoutes(db: Database.Database): Router {
       const projectRoot = req.query.projectRoot as string | undefined;
       const customCommands = scanCustomCommands({ projectRoot });
 
-      // Combine: local + CLI pass-through + custom commands
-      const allCommands: SlashCommand[] = [
-        ...LOCAL_COMMANDS,
-        ...CLI_COMMANDS,
-        ...customCommands
-      ];
-
-      res.json({ success: true, data: allCommands } as ApiResponse<SlashCommand[]>);
+      res.json({
+        success: true,
+        data: getCommandsForType(req.params.type as ProviderType, customCommands)
+      } as ApiResponse<SlashCommand[]>);
     } catch (error) {
       console.error('Error fetching provider type commands:', error);
       res.status(500).json({
@@ -282,6 +320,21 @@ export function createProviderRoutes(db: Database.Database): Router {
     }
   });
 
+  // Get capabilities for a provider type (without needing a provider ID)
+  router.get('/type/:type/capabilities', (req: Request, res: Response) => {
+    const capabilities = PROVIDER_CAPABILITIES[req.params.type as ProviderType];
+
+    if (!capabilities) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Unknown provider type' }
+      });
+      return;
+    }
+
+    res.json({ success: true, data: capabilities } as ApiResponse<ProviderCapabilities>);
+  });
+
   // Set provider as default
   router.post('/:id/set-default', (req: Request, res: Response) => {
     try {
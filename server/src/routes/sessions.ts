@@ -1,7 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import type Database from 'better-sqlite3';
-import type { Session, Message, ApiResponse } from '@my-claudia/shared';
+import type { Session, Message, ProviderRun, PermissionLog, ApiResponse } from '@my-claudia/shared';
+import { queryPermissionLogs } from '../storage/permissionLogs.js';
+import { parseAgentSettings, serializeAgentSettings, validateAgentSettings } from '../storage/agentSettings.js';
+
+type SessionRow = Omit<Session, 'agentSettings'> & { agentSettings: string | null };
+
+function mapSession(row: SessionRow): Session {
+  return { ...row, agentSettings: parseAgentSettings(row.agentSettings) };
+}
 
 export function createSessionRoutes(db: Database.Database): Router {
   const router = Router();
@@ -13,7 +21,8 @@ export function createSessionRoutes(db: Database.Database): Router {
 
       let query = `
         SELECT id, project_id as projectId, name, provider_id as providerId,
-               sdk_session_id as sdkSessionId, created_at as createdAt, updated_at as updatedAt
+               sdk_session_id as sdkSessionId, system_prompt as systemPrompt,
+               agent_settings as agentSettings, created_at as createdAt, updated_at as updatedAt
         FROM sessions
       `;
 
@@ -26,7 +35,7 @@ export function createSessionRoutes(db: Database.Database): Router {
 
       query += ' ORDER BY updated_at DESC';
 
-      const sessions = db.prepare(query).all(...params) as Session[];
+      const sessions = (db.prepare(query).all(...params) as SessionRow[]).map(mapSession);
 
       res.json({ success: true, data: sessions } as ApiResponse<Session[]>);
     } catch (error) {
@@ -43,9 +52,10 @@ export function createSessionRoutes(db: Database.Database): Router {
     try {
       const session = db.prepare(`
         SELECT id, project_id as projectId, name, provider_id as providerId,
-               sdk_session_id as sdkSessionId, created_at as createdAt, updated_at as updatedAt
+               sdk_session_id as sdkSessionId, system_prompt as systemPrompt,
+               agent_settings as agentSettings, created_at as createdAt, updated_at as updatedAt
         FROM sessions WHERE id = ?
-      `).get(req.params.id) as Session | undefined;
+      `).get(req.params.id) as SessionRow | undefined;
 
       if (!session) {
         res.status(404).json({
@@ -55,7 +65,7 @@ export function createSessionRoutes(db: Database.Database): Router {
         return;
       }
 
-      res.json({ success: true, data: session } as ApiResponse<Session>);
+      res.json({ success: true, data: mapSession(session) } as ApiResponse<Session>);
     } catch (error) {
       console.error('Error fetching session:', error);
       res.status(500).json({
@@ -118,17 +128,39 @@ export function createSessionRoutes(db: Database.Database): Router {
   // Update session
   router.put('/:id', (req: Request, res: Response) => {
     try {
-      const { name, providerId, sdkSessionId } = req.body;
+      const { name, providerId, sdkSessionId, systemPrompt, agentSettings } = req.body;
       const now = Date.now();
 
+      const settingsError = validateAgentSettings(agentSettings);
+      if (settingsError) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: settingsError }
+        });
+        return;
+      }
+
+      // An empty systemPrompt or agentSettings clears the override; leaving it out keeps the current one
       const result = db.prepare(`
         UPDATE sessions
         SET name = COALESCE(?, name),
             provider_id = COALESCE(?, provider_id),
             sdk_session_id = COALESCE(?, sdk_session_id),
+            system_prompt = CASE WHEN ? THEN ? ELSE system_prompt END,
+            agent_settings = CASE WHEN ? THEN ? ELSE agent_settings END,
             updated_at = ?
         WHERE id = ?
-      `).run(name || null, providerId || null, sdkSessionId || null, now, req.params.id);
+      `).run(
+        name || null,
+        providerId || null,
+        sdkSessionId || null,
+        systemPrompt !== undefined ? 1 : 0,
+        systemPrompt || null,
+        agentSettings !== undefined ? 1 : 0,
+        serializeAgentSettings(agentSettings),
+        now,
+        req.params.id
+      );
 
       if (result.changes === 0) {
         res.status(404).json({
@@ -264,6 +296,76 @@ export function createSessionRoutes(db: Database.Database): Router {
     }
   });
 
+  // Get run history for a session, newest first
+  // Query params:
+  //   - limit: number of runs to fetch (default: 50)
+  router.get('/:id/runs', (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+
+      const session = db.prepare('SELECT id FROM sessions WHERE id = ?').get(req.params.id);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Session not found' }
+        });
+        return;
+      }
+
+      const rows = db.prepare(`
+        SELECT id, session_id as sessionId, provider_id as providerId, provider_type as providerType,
+               permission_mode as permissionMode, status, input, output, error, usage,
+               started_at as startedAt, ended_at as endedAt
+        FROM provider_runs
+        WHERE session_id = ?
+        ORDER BY started_at DESC
+        LIMIT ?
+      `).all(req.params.id, limit) as Array<Omit<ProviderRun, 'usage'> & { usage: string | null }>;
+
+      const runs = rows.map(r => ({
+        ...r,
+        usage: r.usage ? JSON.parse(r.usage) : undefined
+      }));
+
+      res.json({ success: true, data: runs } as ApiResponse<ProviderRun[]>);
+    } catch (error) {
+      console.error('Error fetching runs:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to fetch runs' }
+      });
+    }
+  });
+
+  // Get permission decisions of a session, newest first
+  // Query params:
+  //   - limit: number of entries to fetch (default: 100)
+  router.get('/:id/permissions', (req: Request, res: Response) => {
+    try {
+      const session = db.prepare('SELECT id FROM sessions WHERE id = ?').get(req.params.id);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Session not found' }
+        });
+        return;
+      }
+
+      const logs = queryPermissionLogs(db, {
+        sessionId: req.params.id,
+        limit: parseInt(req.query.limit as string) || undefined
+      });
+
+      res.json({ success: true, data: logs } as ApiResponse<PermissionLog[]>);
+    } catch (error) {
+      console.error('Error fetching permission logs:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to fetch permission logs' }
+      });
+    }
+  });
+
   // Add message to session
   router.post('/:id/messages', (req: Request, res: Response) => {
     try {
@@ -0,0 +1,111 @@
+import { Router, Request, Response } from 'express';
+import type Database from 'better-sqlite3';
+import type { ApiResponse, UsageReport, UsageReportFilter, UsageRunEntry } from '@my-claudia/shared';
+import { getUsageReport, listUsageRuns } from '../storage/usage.js';
+
+const CSV_COLUMNS = [
+  'run_id', 'started_at', 'project', 'session', 'provider', 'status',
+  'input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_creation_tokens',
+  'cost_usd', 'turns', 'duration_ms'
+];
+
+// Read since, until, projectId, providerId and limit from the query string
+function parseFilter(query: Request['query']): UsageReportFilter | string {
+  const filter: UsageReportFilter = {
+    projectId: (query.projectId as string) || undefined,
+    providerId: (query.providerId as string) || undefined
+  };
+
+  for (const key of ['since', 'until', 'limit'] as const) {
+    const value = query[key];
+    if (value === undefined || value === '') continue;
+    const num = Number(value);
+    if (!Number.isInteger(num) || num < 0) {
+      return `${key} must be a non-negative integer`;
+    }
+    filter[key] = num;
+  }
+
+  return filter;
+}
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(runs: UsageRunEntry[]): string {
+  const lines = runs.map((run) => [
+    run.id,
+    new Date(run.startedAt).toISOString(),
+    run.projectName,
+    run.sessionName,
+    run.providerType,
+    run.status,
+    run.usage.inputTokens,
+    run.usage.outputTokens,
+    run.usage.cacheReadTokens,
+    run.usage.cacheCreationTokens,
+    run.usage.costUsd,
+    run.usage.numTurns,
+    run.usage.durationMs
+  ].map(csvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+export function createUsageRoutes(db: Database.Database): Router {
+  const router = Router();
+
+  // Tokens and cost of the runs on this server
+  // Query: since, until, projectId, providerId, limit (top sessions and runs)
+  router.get('/', (req: Request, res: Response) => {
+    const filter = parseFilter(req.query);
+    if (typeof filter === 'string') {
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: filter }
+      });
+      return;
+    }
+
+    try {
+      const report = getUsageReport(db, filter);
+      res.json({ success: true, data: report } as ApiResponse<UsageReport>);
+    } catch (error) {
+      console.error('Error building usage report:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to build usage report' }
+      });
+    }
+  });
+
+  // One CSV row per run, with the same filters as the report
+  router.get('/runs.csv', (req: Request, res: Response) => {
+    const filter = parseFilter(req.query);
+    if (typeof filter === 'string') {
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: filter }
+      });
+      return;
+    }
+
+    try {
+      const csv = toCsv(listUsageRuns(db, filter));
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="usage.csv"');
+      res.send(csv);
+    } catch (error) {
+      console.error('Error exporting usage:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'DB_ERROR', message: 'Failed to export usage' }
+      });
+    }
+  });
+
+  return router;
+}
@@ -3,27 +3,50 @@ import cors from 'cors';
 import { createServer as createHttpServer, Server, IncomingMessage } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
-import * as path from 'path';
 import type {
   ClientMessage,
   ServerMessage,
+  RunEventMessage,
   PongMessage,
   ErrorMessage,
   ProviderConfig,
+  ProviderRunStatus,
+  MessageMetadata,
+  PermissionLog,
+  PermissionRequest,
+  ToolCall,
+  UsageInfo,
+  BudgetUsage,
+  SystemPromptMode,
   AuthResultMessage,
   Request as CorrelatedRequest
 } from '@my-claudia/shared';
 import { isRequest } from '@my-claudia/shared';
 import { initDatabase } from './storage/db.js';
+import { runBuffer } from './storage/runBuffer.js';
+import { findPermissionRule, rememberPermissionRule } from './storage/permissionRules.js';
+import { parseAgentSettings, resolveAgentSettings } from './storage/agentSettings.js';
+import {
+  parseBudget,
+  getBudgetUsage,
+  findExceededLimit,
+  crossedThreshold,
+  describeBudgetUsage,
+  toBudgetUsage
+} from './storage/budget.js';
 import { createProjectRoutes } from './routes/projects.js';
 import { createSessionRoutes } from './routes/sessions.js';
 import { createProviderRoutes } from './routes/providers.js';
 import { createFilesRoutes } from './routes/files.js';
 import { createCommandsRoutes } from './routes/commands.js';
+import { createUsageRoutes } from './routes/usage.js';
 import { createGatewayRouter, type GatewayConfig, type GatewayStatus } from './routes/gateway.js';
 import { createServerRoutes } from './routes/servers.js';
 import { createImportRoutes } from './routes/import.js';
-import { runClaude, type PermissionDecision, type SystemInfo } from './providers/claude-sdk.js';
+import type { PermissionDecision, SystemInfo } from './providers/claude-sdk.js';
+import type { ProviderAdapter, ChatHistoryMessage } from './providers/types.js';
+import { getProviderAdapter } from './providers/registry.js';
+import { getPromptText } from './providers/cli-process.js';
 import {
   loadOrCreateApiKey,
   regenerateApiKey,
@@ -35,6 +58,8 @@ import {
 
 // Phase 2: Router architecture (CRUD routes migrated to HTTP REST)
 import { createRouter } from './router/index.js';
+import { DeltaCoalescer } from './utils/deltaCoalescer.js';
+import { processAtMentions } from './utils/atMentions.js';
 import { loggingMiddleware as routerLoggingMiddleware } from './middleware/logging.js';
 import { errorHandlingMiddleware as routerErrorMiddleware } from './middleware/error.js';
 
@@ -46,30 +71,78 @@ function isSlashCommand(input: string): boolean {
   return input.trim().startsWith('/');
 }
 
-// Process @ mentions in user input, converting them to context hints for Claude
-function processAtMentions(input: string, projectRoot: string | null): string {
-  if (!projectRoot) return input;
+// Load earlier user/assistant turns of a session, oldest first
+function loadChatHistory(
+  db: ReturnType<typeof initDatabase>,
+  sessionId: string,
+  excludeMessageId: string
+): ChatHistoryMessage[] {
+  const rows = db.prepare(`
+    SELECT role, content FROM messages
+    WHERE session_id = ? AND id != ? AND role IN ('user', 'assistant')
+    ORDER BY created_at ASC
+  `).all(sessionId, excludeMessageId) as ChatHistoryMessage[];
+
+  return rows.map(row => ({
+    role: row.role,
+    content: row.role === 'user' ? getPromptText(row.content) : row.content,
+  }));
+}
 
-  // Match @path/to/file patterns (paths that don't contain spaces)
-  // This pattern matches @ followed by a path-like string
-  const atPattern = /@([a-zA-Z0-9_\-./]+\.[a-zA-Z0-9]+)/g;
-  const mentions: string[] = [];
+// Record how a run ended in provider_runs; rows that already ended are left alone
+function finishProviderRun(
+  db: ReturnType<typeof initDatabase>,
+  runId: string,
+  status: Exclude<ProviderRunStatus, 'running'>,
+  result: { output?: string; error?: string; usage?: UsageInfo } = {}
+): void {
+  db.prepare(`
+    UPDATE provider_runs SET status = ?, output = ?, error = ?, usage = ?, ended_at = ?
+    WHERE id = ? AND status = 'running'
+  `).run(
+    status,
+    result.output || null,
+    result.error || null,
+    result.usage ? JSON.stringify(result.usage) : null,
+    Date.now(),
+    runId
+  );
+}
 
-  let match;
-  while ((match = atPattern.exec(input)) !== null) {
-    const relativePath = match[1];
-    const absolutePath = path.join(projectRoot, relativePath);
-    mentions.push(absolutePath);
+// Write a settled permission request to the audit log
+function recordPermissionDecision(
+  db: ReturnType<typeof initDatabase>,
+  entry: {
+    sessionId: string;
+    runId: string;
+    request: PermissionRequest;
+    requestedAt: number;
+    audit: PermissionAudit;
+  }
+): void {
+  try {
+    db.prepare(`
+      INSERT INTO permission_logs (id, session_id, run_id, request_id, tool, detail, tool_input,
+                                   decision, remembered, decided_by, requested_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      uuidv4(),
+      entry.sessionId,
+      entry.runId,
+      entry.request.requestId,
+      entry.request.toolName,
+      entry.request.detail,
+      entry.request.toolInput !== undefined ? JSON.stringify(entry.request.toolInput) : null,
+      entry.audit.decision,
+      entry.audit.remembered ? 1 : 0,
+      entry.audit.decidedBy || null,
+      entry.requestedAt,
+      Date.now()
+    );
+  } catch (error) {
+    // A failed audit write must not block the run
+    console.error('[Permission] Failed to record decision:', error);
   }
-
-  if (mentions.length === 0) return input;
-
-  // Build context hint for Claude
-  const contextHint = mentions
-    .map(p => `Please read the file at ${p} for context.`)
-    .join('\n');
-
-  return `[Context Reference]\n${contextHint}\n\n${input}`;
 }
 
 // Build status output from system info
@@ -104,6 +177,10 @@ function buildStatusOutput(systemInfo: SystemInfo): string {
   if (systemInfo.agents && systemInfo.agents.length > 0) {
     lines.push(`**Agents:** ${systemInfo.agents.join(', ')}`);
   }
+  if (systemInfo.systemPrompt) {
+    lines.push(`**System Prompt (${systemInfo.systemPromptMode || 'append'}):**`);
+    lines.push(`  ${systemInfo.systemPrompt}`);
+  }
 
   return lines.join('\n');
 }
@@ -122,14 +199,27 @@ interface ConnectedClient {
 // Track active runs and their permission callbacks
 interface ActiveRun {
   runId: string;
+  sessionId: string;
   clientId: string;
-  abortController?: AbortController;
+  // Clients receiving the run's events live. Runs keep going with no clients
+  // attached; their events are buffered in runBuffer for replay.
+  clients: Map<string, ConnectedClient>;
+  adapter?: ProviderAdapter;  // Provider adapter driving this run
+  abortController: AbortController;  // Aborted when the run is cancelled
+  deltas: DeltaCoalescer;  // Combines streamed text before it is sent
   pendingPermissions: Map<string, {
-    resolve: (decision: PermissionDecision) => void;
+    resolve: (decision: PermissionDecision, audit?: PermissionAudit) => void;
     timeout: NodeJS.Timeout | null;
   }>;
 }
 
+// How a permission request was settled, for the audit log
+interface PermissionAudit {
+  decision: PermissionLog['decision'];
+  decidedBy?: string;  // Client that made the decision
+  remembered?: boolean;
+}
+
 const activeRuns = new Map<string, ActiveRun>();
 
 // Check if request is from localhost
@@ -179,7 +269,7 @@ function localOnlyMiddleware(req: Request, res: Response, next: NextFunction): v
 
 // Export types for Gateway integration
 export type { ConnectedClient };
-export { sendMessage, handleClientMessage, activeRuns };
+export { sendMessage, handleClientMessage, detachClient, activeRuns };
 
 // Message sender interface for abstraction
 export interface MessageSender {
@@ -210,6 +300,7 @@ export interface ServerContext {
   server: Server;
   db: ReturnType<typeof initDatabase>;
   handleMessage: (client: ConnectedClient, message: ClientMessage) => Promise<void>;
+  detachClient: (clientId: string) => void;
   getGatewayStatus: () => GatewayStatus;
   connectGateway: (config: GatewayConfig) => Promise<void>;
   disconnectGateway: () => Promise<void>;
@@ -222,6 +313,11 @@ export async function createServer(): Promise<ServerContext> {
   // Initialize database
   const db = initDatabase();
 
+  // Runs still marked as running were interrupted by a server shutdown
+  db.prepare(`
+    UPDATE provider_runs SET status = 'failed', error = ?, ended_at = ? WHERE status = 'running'
+  `).run('Server stopped before the run finished', Date.now());
+
   // Phase 2: Router (CRUD routes migrated to HTTP REST, router kept for future WS routing needs)
   const router = createRouter(db);
   router.use(routerLoggingMiddleware, routerErrorMiddleware);
@@ -338,8 +434,9 @@ export async function createServer(): Promise<ServerContext> {
   app.use('/api/sessions', authMiddleware, createSessionRoutes(db));
   app.use('/api/providers', authMiddleware, createProviderRoutes(db));
   app.use('/api/servers', authMiddleware, createServerRoutes(db));
-  app.use('/api/files', authMiddleware, createFilesRoutes());
-  app.use('/api/commands', authMiddleware, createCommandsRoutes());
+  app.use('/api/files', authMiddleware, createFilesRoutes(db));
+  app.use('/api/commands', authMiddleware, createCommandsRoutes(db));
+  app.use('/api/usage', authMiddleware, createUsageRoutes(db));
   app.use('/api/import', localOnlyMiddleware, createImportRoutes(db));
   app.use('/api/server/gateway', localOnlyMiddleware, createGatewayRouter(
     db,
@@ -473,12 +570,8 @@ export async function createServer(): Promise<ServerContext> {
       console.log(`Client disconnected: ${clientId}`);
       clients.delete(clientId);
 
-      // Cancel any active runs for this client
-      activeRuns.forEach((run, runId) => {
-        if (run.clientId === clientId) {
-          cancelRun(runId);
-        }
-      });
+      // Runs of this client keep going detached; it can reattach after reconnecting
+      detachClient(clientId);
     });
 
     ws.on('error', (error) => {
@@ -493,6 +586,7 @@ export async function createServer(): Promise<ServerContext> {
   return {
     server,
     db,
+    detachClient,
     handleMessage: async (client: ConnectedClient, message: ClientMessage) => {
       // Wrap in Request envelope for router (same as parseMessage for old format)
       const request: CorrelatedRequest = {
@@ -566,6 +660,26 @@ function sendMessage(ws: WebSocket, message: ServerMessage): void {
   }
 }
 
+// Send a run event to every attached client, numbering and buffering it for replay
+function sendRunEvent(run: ActiveRun, event: RunEventMessage): void {
+  const numbered = runBuffer.append(run.runId, event);
+  run.clients.forEach((client) => sendMessage(client.ws, numbered));
+}
+
+// Emit a run event; text deltas are combined before they are sent
+function emitRunEvent(run: ActiveRun, event: RunEventMessage): void {
+  run.deltas.push(event);
+}
+
+// Stop sending run events to a client that went away
+function detachClient(clientId: string): void {
+  activeRuns.forEach((run, runId) => {
+    if (run.clients.delete(clientId)) {
+      console.log(`[Run] ${runId} detached from client ${clientId} (${run.clients.size} attached)`);
+    }
+  });
+}
+
 function cancelRun(runId: string): void {
   const run = activeRuns.get(runId);
   if (run) {
@@ -575,6 +689,9 @@ function cancelRun(runId: string): void {
       resolve({ behavior: 'deny', message: 'Run cancelled' });
     });
     run.pendingPermissions.clear();
+    // Stop the provider itself, not just the forwarding of its events
+    run.abortController.abort();
+    run.adapter?.cancel(runId);
     activeRuns.delete(runId);
     console.log(`Run ${runId} cancelled`);
   }
@@ -635,8 +752,12 @@ async function handleClientMessage(
       handleRunCancel(message.runId);
       break;
 
+    case 'run_attach':
+      handleRunAttach(client, message);
+      break;
+
     case 'permission_decision':
-      handlePermissionDecision(message);
+      handlePermissionDecision(client, message);
       break;
 
     default:
@@ -664,16 +785,32 @@ async function handleRunStart(
 
   // Get session info
   const session = db.prepare(`
-    SELECT s.id, s.project_id, s.sdk_session_id, p.root_path, p.provider_id
+    SELECT s.id, s.project_id, s.name, s.sdk_session_id, s.sdk_session_provider,
+           s.system_prompt as session_system_prompt,
+           s.agent_settings as session_agent_settings,
+           p.name as project_name, p.root_path, p.provider_id, p.permission_policy,
+           p.system_prompt, p.system_prompt_mode, p.agent_settings as project_agent_settings, p.show_thinking,
+           p.budget
     FROM sessions s
     LEFT JOIN projects p ON s.project_id = p.id
     WHERE s.id = ?
   `).get(message.sessionId) as {
     id: string;
     project_id: string;
+    name: string | null;
     sdk_session_id: string | null;
+    sdk_session_provider: string | null;
+    session_system_prompt: string | null;
+    session_agent_settings: string | null;
+    project_name: string | null;
     root_path: string | null;
     provider_id: string | null;
+    permission_policy: string | null;
+    system_prompt: string | null;
+    system_prompt_mode: SystemPromptMode | null;
+    project_agent_settings: string | null;
+    show_thinking: number | null;
+    budget: string | null;
   } | undefined;
 
   if (!session) {
@@ -685,13 +822,28 @@ async function handleRunStart(
     return;
   }
 
+  // Refuse the run when a daily or monthly limit of the project budget is used up
+  const budget = parseBudget(session.budget);
+  const periodUsage = budget ? getBudgetUsage(db, session.project_id, budget) : [];
+  const exceeded = findExceededLimit(periodUsage);
+  if (exceeded) {
+    sendMessage(client.ws, {
+      type: 'run_failed',
+      runId,
+      error: `Project budget exceeded: ${describeBudgetUsage(exceeded)}`,
+      code: 'BUDGET_EXCEEDED'
+    });
+    return;
+  }
+
   // Get provider config if specified
   const providerId = message.providerId || session.provider_id;
   let providerConfig: ProviderConfig | undefined;
 
   if (providerId) {
     const providerRow = db.prepare(`
-      SELECT id, name, type, cli_path as cliPath, env, is_default as isDefault,
+      SELECT id, name, type, cli_path as cliPath, env, stream_json as streamJson,
+             agent_settings as agentSettings, is_default as isDefault,
              created_at as createdAt, updated_at as updatedAt
       FROM providers WHERE id = ?
     `).get(providerId) as {
@@ -700,6 +852,8 @@ async function handleRunStart(
       type: string;
       cliPath: string | null;
       env: string | null;
+      streamJson: string | null;
+      agentSettings: string | null;
       isDefault: number;
       createdAt: number;
       updatedAt: number;
@@ -712,6 +866,8 @@ async function handleRunStart(
         type: providerRow.type as ProviderConfig['type'],
         cliPath: providerRow.cliPath || undefined,
         env: providerRow.env ? JSON.parse(providerRow.env) : undefined,
+        streamJson: providerRow.streamJson ? JSON.parse(providerRow.streamJson) : undefined,
+        agentSettings: parseAgentSettings(providerRow.agentSettings),
         isDefault: providerRow.isDefault === 1,
         createdAt: providerRow.createdAt,
         updatedAt: providerRow.updatedAt
@@ -719,24 +875,58 @@ async function handleRunStart(
     }
   }
 
+  // Session settings override the project's, which override the provider's
+  const agentSettings = resolveAgentSettings(
+    providerConfig?.agentSettings,
+    parseAgentSettings(session.project_agent_settings),
+    parseAgentSettings(session.session_agent_settings)
+  );
+
   // Create active run tracking
   const activeRun: ActiveRun = {
     runId,
+    sessionId: message.sessionId,
     clientId: client.id,
+    clients: new Map([[client.id, client]]),
+    abortController: new AbortController(),
+    deltas: new DeltaCoalescer((event) => sendRunEvent(activeRun, event)),
     pendingPermissions: new Map()
   };
   activeRuns.set(runId, activeRun);
+  runBuffer.start(runId, message.sessionId);
 
-  // Track tool_use_id to tool_name mapping for this run
-  const toolUseIdToName = new Map<string, string>();
+  // Tool uses of this run with their results, in order; saved with the assistant message
+  const toolCalls: ToolCall[] = [];
 
   // Send run started
-  sendMessage(client.ws, {
+  emitRunEvent(activeRun, {
     type: 'run_started',
     runId,
     clientRequestId: message.clientRequestId
   });
 
+  // Warn when a budget limit went past one of its thresholds since `before` percent;
+  // limits that were already past one are reported at the start of every run
+  const warnBudget = (usage: BudgetUsage, before: number) => {
+    const threshold = budget && crossedThreshold(budget, before, usage.percent);
+    if (threshold) {
+      emitRunEvent(activeRun, { type: 'budget_warning', runId, usage, threshold });
+    }
+  };
+  periodUsage.forEach(usage => warnBudget(usage, 0));
+
+  // Compare the tokens of the run so far with the per-run cap; returns it when used up
+  let runTokens: BudgetUsage | undefined;
+  const checkRunTokens = (usage: UsageInfo): BudgetUsage | undefined => {
+    if (!budget?.runTokens) {
+      return undefined;
+    }
+    const before = runTokens?.percent ?? 0;
+    runTokens = toBudgetUsage('runTokens', usage.inputTokens + usage.outputTokens, budget.runTokens);
+    warnBudget(runTokens, before);
+    return findExceededLimit([runTokens]);
+  };
+
   // Save user message to database
   const userMessageId = uuidv4();
   db.prepare(`
@@ -744,32 +934,159 @@ async function handleRunStart(
     VALUES (?, ?, 'user', ?, ?)
   `).run(userMessageId, message.sessionId, message.input, Date.now());
 
+  // Sessions without a provider use Claude
+  const providerType = providerConfig?.type || 'claude';
+
+  // Record the run in the history
+  db.prepare(`
+    INSERT INTO provider_runs (id, session_id, provider_id, provider_type, permission_mode, status, input, started_at)
+    VALUES (?, ?, ?, ?, ?, 'running', ?, ?)
+  `).run(
+    runId,
+    message.sessionId,
+    providerConfig?.id || null,
+    providerType,
+    message.permissionMode || null,
+    message.input,
+    Date.now()
+  );
+
+  let fullContent = '';
+  let fullThinking = '';
+  let completed = false;
+  // Usage of the run so far, from providers that report it while streaming
+  let runUsage: UsageInfo | undefined;
+  // Set when the run is stopped for going over the per-run token cap
+  let runBudgetError: string | undefined;
+
+  // Projects can turn off extended thinking; it is then neither streamed nor saved
+  const showThinking = session.show_thinking !== 0;
+
+  // Save the assistant reply together with the tool calls that produced it
+  const saveAssistantMessage = (metadata: MessageMetadata) => {
+    if (!fullContent && !fullThinking && toolCalls.length === 0) {
+      return;
+    }
+    if (toolCalls.length > 0) {
+      metadata.toolCalls = toolCalls;
+    }
+    if (fullThinking) {
+      metadata.thinking = fullThinking;
+    }
+    db.prepare(`
+      INSERT INTO messages (id, session_id, role, content, metadata, created_at)
+      VALUES (?, ?, 'assistant', ?, ?, ?)
+    `).run(
+      uuidv4(),
+      message.sessionId,
+      fullContent,
+      Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
+      Date.now()
+    );
+  };
+
+  // Keep what was streamed before the cancel and tell the client the run stopped,
+  // as a failure when it went over the per-run token cap
+  const finishCancelledRun = () => {
+    saveAssistantMessage(runUsage ? { cancelled: true, usage: runUsage } : { cancelled: true });
+    if (runBudgetError) {
+      finishProviderRun(db, runId, 'failed', { output: fullContent, error: runBudgetError, usage: runUsage });
+      emitRunEvent(activeRun, { type: 'run_failed', runId, error: runBudgetError, code: 'RUN_BUDGET_EXCEEDED' });
+      return;
+    }
+    finishProviderRun(db, runId, 'cancelled', { output: fullContent, usage: runUsage });
+    emitRunEvent(activeRun, { type: 'run_cancelled', runId });
+  };
+
   try {
     const cwd = session.root_path || process.cwd();
-    let fullContent = '';
-    let sdkSessionId = session.sdk_session_id || undefined;
+    // Only resume with a session ID of the same provider type; after the project
+    // switched providers the run starts a new provider session
+    let sdkSessionId = (session.sdk_session_provider || 'claude') === providerType
+      ? session.sdk_session_id || undefined
+      : undefined;
     let systemInfo: SystemInfo | undefined;
 
     // Process @ mentions - convert file references to context hints
-    const processedInput = processAtMentions(message.input, session.root_path);
+    const processedInput = processAtMentions(message.input, session.root_path, agentSettings.additionalDirectories);
     console.log('[@ Mention] Original input:', message.input);
     if (processedInput !== message.input) {
       console.log('[@ Mention] Processed input:', processedInput);
     }
 
-    // Run Claude with streaming
-    for await (const msg of runClaude(
+    // Resolve the adapter for the provider type
+    const adapter = getProviderAdapter(providerType);
+    if (!adapter) {
+      throw new Error(`Provider type "${providerType}" is not supported`);
+    }
+    activeRun.adapter = adapter;
+    console.log(`[Run] ${runId} using ${adapter.name} adapter`);
+
+    // Run the provider with streaming
+    for await (const msg of adapter.startRun(
       processedInput,
       {
+        runId,
         cwd,
         sessionId: sdkSessionId,
+        history: adapter.capabilities.supportsResume
+          ? undefined
+          : loadChatHistory(db, message.sessionId, userMessageId),
         cliPath: providerConfig?.cliPath,
         env: providerConfig?.env,
-        permissionMode: message.permissionMode  // Pass permission mode to SDK
+        streamJson: providerConfig?.streamJson,
+        permissionMode: message.permissionMode,  // Pass permission mode to provider
+        permissionPolicy: session.permission_policy ? JSON.parse(session.permission_policy) : undefined,
+        // The audit log also keeps the tool uses the policy decided without asking
+        onPolicyDecision: (request, decision, decidedBy) => recordPermissionDecision(db, {
+          sessionId: message.sessionId,
+          runId,
+          request,
+          requestedAt: Date.now(),
+          audit: { decision, decidedBy }
+        }),
+        // The session prompt overrides the project prompt
+        systemPrompt: session.session_system_prompt || session.system_prompt || undefined,
+        systemPromptMode: session.system_prompt_mode || undefined,
+        ...agentSettings,
+        abortController: activeRun.abortController
       },
       // Permission request callback
       async (request) => {
-        return new Promise<PermissionDecision>((resolve) => {
+        const requestedAt = Date.now();
+
+        // A remembered decision answers the request without asking
+        const rule = findPermissionRule(db, session.project_id, request.toolName, request.toolInput);
+        if (rule) {
+          console.log(`[Permission] ${request.requestId} ${rule.decision === 'allow' ? 'allowed' : 'denied'} by rule ${rule.id}`);
+          recordPermissionDecision(db, {
+            sessionId: message.sessionId,
+            runId,
+            request,
+            requestedAt,
+            audit: { decision: rule.decision, decidedBy: `rule:${rule.id}` }
+          });
+          return rule.decision === 'allow'
+            ? { behavior: 'allow' }
+            : { behavior: 'deny', message: 'Denied by a remembered decision' };
+        }
+
+        return new Promise<PermissionDecision>((resolvePromise) => {
+          // Settle the request and record how it was decided
+          const resolve = (decision: PermissionDecision, audit?: PermissionAudit) => {
+            recordPermissionDecision(db, {
+              sessionId: message.sessionId,
+              runId,
+              request,
+              requestedAt,
+              audit: audit || { decision: decision.behavior }
+            });
+            if (audit?.remembered && audit.decision !== 'timeout') {
+              rememberPermissionRule(db, session.project_id, request.toolName, request.toolInput, audit.decision);
+            }
+            resolvePromise(decision);
+          };
+
           // Set timeout for auto-deny only if timeoutSeconds > 0
           // timeoutSeconds = 0 means no timeout (wait indefinitely)
           let timeout: ReturnType<typeof setTimeout> | null = null;
@@ -777,7 +1094,14 @@ async function handleRunStart(
             const timeoutMs = request.timeoutSeconds * 1000;
             timeout = setTimeout(() => {
               activeRun.pendingPermissions.delete(request.requestId);
-              resolve({ behavior: 'deny', message: 'Permission request timed out' });
+              console.log(`[Permission] ${request.requestId} timed out after ${request.timeoutSeconds}s`);
+              resolve({ behavior: 'deny', message: 'Permission request timed out' }, { decision: 'timeout' });
+              emitRunEvent(activeRun, {
+                type: 'permission_resolved',
+                runId,
+                requestId: request.requestId,
+                decision: 'timeout'
+              });
             }, timeoutMs);
           }
 
@@ -785,20 +1109,27 @@ async function handleRunStart(
           activeRun.pendingPermissions.set(request.requestId, { resolve, timeout });
           console.log(`[Permission] Stored pending permission ${request.requestId} in run ${runId} (timeout: ${request.timeoutSeconds > 0 ? request.timeoutSeconds + 's' : 'none'})`);
 
-          // Send permission request to client
-          sendMessage(client.ws, {
+          // Send permission request to attached clients
+          emitRunEvent(activeRun, {
             type: 'permission_request',
+            runId,
             requestId: request.requestId,
             toolName: request.toolName,
             detail: request.detail,
-            timeoutSeconds: request.timeoutSeconds
+            toolInput: request.toolInput,
+            editable: request.editable,
+            risk: request.risk,
+            timeoutSeconds: request.timeoutSeconds,
+            sessionId: message.sessionId,
+            sessionName: session.name || undefined,
+            projectName: session.project_name || undefined
           });
-          console.log(`[Permission] Sent permission request ${request.requestId} to client`);
+          console.log(`[Permission] Sent permission request ${request.requestId} to ${activeRun.clients.size} client(s)`);
         });
       }
     )) {
       // Check if run was cancelled
-      if (!activeRuns.has(runId)) {
+      if (activeRun.abortController.signal.aborted) {
         break;
       }
 
@@ -808,7 +1139,7 @@ async function handleRunStart(
           if (msg.systemInfo) {
             systemInfo = msg.systemInfo;
             // Send system info to client for display
-            sendMessage(client.ws, {
+            emitRunEvent(activeRun, {
               type: 'system_info',
               runId,
               systemInfo: {
@@ -820,7 +1151,9 @@ async function handleRunStart(
                 tools: msg.systemInfo.tools,
                 mcpServers: msg.systemInfo.mcpServers,
                 slashCommands: msg.systemInfo.slashCommands,
-                agents: msg.systemInfo.agents
+                agents: msg.systemInfo.agents,
+                systemPrompt: msg.systemInfo.systemPrompt,
+                systemPromptMode: msg.systemInfo.systemPromptMode
               }
             });
           }
@@ -828,13 +1161,14 @@ async function handleRunStart(
             sdkSessionId = msg.sessionId;
             // Update session with SDK session ID
             db.prepare(`
-              UPDATE sessions SET sdk_session_id = ?, updated_at = ? WHERE id = ?
-            `).run(sdkSessionId, Date.now(), message.sessionId);
+              UPDATE sessions SET sdk_session_id = ?, sdk_session_provider = ?, updated_at = ? WHERE id = ?
+            `).run(sdkSessionId, providerType, Date.now(), message.sessionId);
 
-            sendMessage(client.ws, {
+            emitRunEvent(activeRun, {
               type: 'session_created',
               sessionId: message.sessionId,
-              sdkSessionId: msg.sessionId
+              sdkSessionId: msg.sessionId,
+              runId
             });
           }
           break;
@@ -842,7 +1176,7 @@ async function handleRunStart(
         case 'assistant':
           if (msg.content) {
             fullContent += msg.content;
-            sendMessage(client.ws, {
+            emitRunEvent(activeRun, {
               type: 'delta',
               runId,
               content: msg.content
@@ -850,14 +1184,39 @@ async function handleRunStart(
           }
           break;
 
+        case 'thinking':
+          if (msg.content && showThinking) {
+            fullThinking += msg.content;
+            emitRunEvent(activeRun, {
+              type: 'thinking_delta',
+              runId,
+              content: msg.content
+            });
+          }
+          break;
+
+        case 'usage': {
+          runUsage = msg.usage;
+          // Stop the run once it uses up the per-run token cap
+          const exceededCap = runUsage && checkRunTokens(runUsage);
+          if (exceededCap) {
+            runBudgetError = `Run stopped: ${describeBudgetUsage(exceededCap)}`;
+            console.log(`[Run] ${runId} ${runBudgetError}`);
+            cancelRun(runId);
+          }
+          break;
+        }
+
         case 'tool_use':
           // Forward tool use to client
           console.log(`[Tool Use] ${msg.toolName} (${msg.toolUseId})`);
-          // Track tool_use_id to tool_name mapping
-          if (msg.toolUseId && msg.toolName) {
-            toolUseIdToName.set(msg.toolUseId, msg.toolName);
-          }
-          sendMessage(client.ws, {
+          toolCalls.push({
+            id: msg.toolUseId,
+            name: msg.toolName || '',
+            input: msg.toolInput,
+            startedAt: Date.now()
+          });
+          emitRunEvent(activeRun, {
             type: 'tool_use',
             runId,
             toolUseId: msg.toolUseId || '',
@@ -868,10 +1227,16 @@ async function handleRunStart(
 
         case 'tool_result': {
           // Forward tool result to client
-          // Look up tool name from our tracking map
-          const toolName = msg.toolUseId ? toolUseIdToName.get(msg.toolUseId) || '' : '';
+          // Look up the matching tool use and record its result
+          const toolCall = msg.toolUseId ? toolCalls.find(tc => tc.id === msg.toolUseId) : undefined;
+          if (toolCall) {
+            toolCall.output = msg.toolResult;
+            toolCall.isError = msg.isToolError || undefined;
+            toolCall.completedAt = Date.now();
+          }
+          const toolName = toolCall?.name || '';
           console.log(`[Tool Result] ${msg.toolUseId} (${toolName}) - error: ${msg.isToolError}`);
-          sendMessage(client.ws, {
+          emitRunEvent(activeRun, {
             type: 'tool_result',
             runId,
             toolUseId: msg.toolUseId || '',
@@ -886,7 +1251,7 @@ async function handleRunStart(
           // If result has content (some commands return content in result), send it
           if (msg.content) {
             fullContent += msg.content;
-            sendMessage(client.ws, {
+            emitRunEvent(activeRun, {
               type: 'delta',
               runId,
               content: msg.content
@@ -900,7 +1265,7 @@ async function handleRunStart(
             const statusOutput = buildStatusOutput(systemInfo);
             if (statusOutput) {
               fullContent = statusOutput;
-              sendMessage(client.ws, {
+              emitRunEvent(activeRun, {
                 type: 'delta',
                 runId,
                 content: statusOutput
@@ -909,21 +1274,19 @@ async function handleRunStart(
           }
 
           // Save assistant message to database
-          if (fullContent) {
-            const assistantMessageId = uuidv4();
-            db.prepare(`
-              INSERT INTO messages (id, session_id, role, content, metadata, created_at)
-              VALUES (?, ?, 'assistant', ?, ?, ?)
-            `).run(
-              assistantMessageId,
-              message.sessionId,
-              fullContent,
-              msg.usage ? JSON.stringify({ usage: msg.usage }) : null,
-              Date.now()
-            );
+          saveAssistantMessage(msg.usage ? { usage: msg.usage } : {});
+
+          completed = true;
+          // Providers that report usage only with the result cannot be stopped early;
+          // a run that went over the per-run cap is recorded with the overrun
+          const exceededCap = msg.usage && checkRunTokens(msg.usage);
+          const overrun = exceededCap ? `Run went over the budget: ${describeBudgetUsage(exceededCap)}` : undefined;
+          finishProviderRun(db, runId, 'completed', { output: fullContent, error: overrun, usage: msg.usage });
+          if (budget) {
+            getBudgetUsage(db, session.project_id, budget)
+              .forEach((usage, i) => warnBudget(usage, periodUsage[i].percent));
           }
-
-          sendMessage(client.ws, {
+          emitRunEvent(activeRun, {
             type: 'run_completed',
             runId,
             usage: msg.usage
@@ -931,16 +1294,31 @@ async function handleRunStart(
           break;
       }
     }
+
+    if (activeRun.abortController.signal.aborted && !completed) {
+      finishCancelledRun();
+    } else if (!completed) {
+      // CLIs can exit cleanly without a result, e.g. when a resume is skipped
+      throw new Error('Run ended without a result');
+    }
   } catch (error) {
-    console.error('Run error:', error);
-    sendMessage(client.ws, {
-      type: 'run_failed',
-      runId,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    if (activeRun.abortController.signal.aborted) {
+      finishCancelledRun();
+    } else {
+      console.error('Run error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      finishProviderRun(db, runId, 'failed', { output: fullContent, error: errorMessage });
+      emitRunEvent(activeRun, {
+        type: 'run_failed',
+        runId,
+        error: errorMessage
+      });
+    }
   } finally {
     // Cleanup
+    activeRun.deltas.flush();
     activeRuns.delete(runId);
+    runBuffer.finish(runId);
 
     // Update session updated_at
     db.prepare(`
@@ -953,13 +1331,63 @@ function handleRunCancel(runId: string): void {
   cancelRun(runId);
 }
 
-function handlePermissionDecision(message: {
+// Attach a client to the session's active run and replay the events it missed.
+// A finished run is only replayed when the client asks for it by ID, e.g. when
+// it completed while the client was disconnected.
+function handleRunAttach(
+  client: ConnectedClient,
+  message: { type: 'run_attach'; sessionId: string; runId?: string; afterSeq?: number }
+): void {
+  const activeRun = Array.from(activeRuns.values()).find(run => run.sessionId === message.sessionId);
+  const bufferedRun = activeRun
+    ? runBuffer.getRun(activeRun.runId)
+    : message.runId ? runBuffer.getRun(message.runId) : undefined;
+
+  if (!bufferedRun || bufferedRun.sessionId !== message.sessionId) {
+    sendMessage(client.ws, { type: 'run_attached', sessionId: message.sessionId, isRunning: false });
+    return;
+  }
+
+  const afterSeq = bufferedRun.runId === message.runId ? message.afterSeq : 0;
+  const events = runBuffer.getEventsAfter(bufferedRun.runId, afterSeq).filter(event =>
+    // Don't re-prompt for permissions that were already decided
+    event.type !== 'permission_request' || !!activeRun?.pendingPermissions.has(event.requestId)
+  );
+
+  events.forEach(event => sendMessage(client.ws, event));
+  activeRun?.clients.set(client.id, client);
+  console.log(`[Run] Client ${client.id} attached to run ${bufferedRun.runId}, replayed ${events.length} event(s)`);
+
+  sendMessage(client.ws, {
+    type: 'run_attached',
+    sessionId: message.sessionId,
+    runId: bufferedRun.runId,
+    isRunning: !!activeRun
+  });
+}
+
+function handlePermissionDecision(client: ConnectedClient, message: {
   type: 'permission_decision';
   requestId: string;
   allow: boolean;
   remember?: boolean;
+  updatedInput?: unknown;
 }): void {
   console.log(`[Permission] Received decision for ${message.requestId}: ${message.allow ? 'allow' : 'deny'}`);
+
+  // An edited tool input replaces the tool's arguments, which are always an object.
+  // Anything else denies the request, so the run does not wait for a decision that never comes.
+  const { updatedInput } = message;
+  const invalidInput = message.allow && updatedInput !== undefined &&
+    (typeof updatedInput !== 'object' || updatedInput === null || Array.isArray(updatedInput));
+  if (invalidInput) {
+    sendMessage(client.ws, {
+      type: 'error',
+      code: 'INVALID_MESSAGE',
+      message: 'updatedInput must be an object'
+    } as ErrorMessage);
+  }
+  const allow = message.allow && !invalidInput;
   console.log(`[Permission] Active runs: ${activeRuns.size}`);
 
   // Find the run with this pending permission
@@ -974,11 +1402,25 @@ function handlePermissionDecision(message: {
       run.pendingPermissions.delete(message.requestId);
 
       pending.resolve({
-        behavior: message.allow ? 'allow' : 'deny',
-        message: message.allow ? undefined : 'User denied permission'
+        behavior: allow ? 'allow' : 'deny',
+        updatedInput: allow ? updatedInput : undefined,
+        message: allow ? undefined : invalidInput ? 'The edited input is not an object' : 'User denied permission'
+      }, {
+        decision: allow ? 'allow' : 'deny',
+        decidedBy: client.id,
+        // An edited approval only covers the edited input, so it is not remembered
+        remembered: message.remember && !(message.allow && updatedInput !== undefined)
+      });
+
+      // Close the prompt on the other attached clients
+      emitRunEvent(run, {
+        type: 'permission_resolved',
+        runId,
+        requestId: message.requestId,
+        decision: allow ? 'allow' : 'deny'
       });
 
-      console.log(`[Permission] ${message.requestId}: ${message.allow ? 'allowed' : 'denied'} - resolved!`);
+      console.log(`[Permission] ${message.requestId}: ${allow ? 'allowed' : 'denied'} - resolved!`);
       return;
     }
   }
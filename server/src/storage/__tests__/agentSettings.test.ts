@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  validateAgentSettings,
+  normalizeAgentSettings,
+  resolveAgentSettings,
+  getSessionAgentSettings,
+  getProjectDirectories,
+  setSessionModel
+} from '../agentSettings.js';
+
+function createTestDb(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE providers (id TEXT PRIMARY KEY, type TEXT NOT NULL, agent_settings TEXT);
+    CREATE TABLE projects (id TEXT PRIMARY KEY, provider_id TEXT, root_path TEXT, agent_settings TEXT);
+    CREATE TABLE sessions (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      agent_settings TEXT,
+      updated_at INTEGER
+    );
+  `);
+  return db;
+}
+
+describe('agentSettings', () => {
+  describe('validateAgentSettings', () => {
+    it('accepts missing and well-formed settings', () => {
+      expect(validateAgentSettings(undefined)).toBeUndefined();
+      expect(validateAgentSettings({ model: 'opus', maxTurns: 5, additionalDirectories: ['/lib'] })).toBeUndefined();
+    });
+
+    it('rejects malformed fields', () => {
+      expect(validateAgentSettings('opus')).toMatch(/object/);
+      expect(validateAgentSettings({ maxTurns: 0 })).toMatch(/maxTurns/);
+      expect(validateAgentSettings({ maxThinkingTokens: 1.5 })).toMatch(/maxThinkingTokens/);
+      expect(validateAgentSettings({ additionalDirectories: '/lib' })).toMatch(/additionalDirectories/);
+    });
+  });
+
+  describe('normalizeAgentSettings', () => {
+    it('drops empty fields', () => {
+      expect(normalizeAgentSettings({ model: ' ', fallbackModel: 'haiku ', additionalDirectories: ['', ' /lib '] }))
+        .toEqual({ fallbackModel: 'haiku', additionalDirectories: ['/lib'] });
+      expect(normalizeAgentSettings({ model: '', additionalDirectories: [] })).toBeUndefined();
+    });
+  });
+
+  describe('resolveAgentSettings', () => {
+    it('lets the more specific level win and combines directories', () => {
+      expect(resolveAgentSettings(
+        { model: 'sonnet', maxTurns: 10, additionalDirectories: ['/shared'] },
+        { model: 'opus', additionalDirectories: ['/lib', '/shared'] },
+        { maxThinkingTokens: 8000 }
+      )).toEqual({
+        model: 'opus',
+        maxTurns: 10,
+        maxThinkingTokens: 8000,
+        additionalDirectories: ['/shared', '/lib']
+      });
+    });
+  });
+
+  describe('session settings', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+      db = createTestDb();
+      db.prepare('INSERT INTO providers (id, type, agent_settings) VALUES (?, ?, ?)')
+        .run('prov-1', 'claude', JSON.stringify({ model: 'sonnet', maxTurns: 20 }));
+      db.prepare('INSERT INTO projects (id, provider_id, agent_settings) VALUES (?, ?, ?)')
+        .run('project-1', 'prov-1', JSON.stringify({ fallbackModel: 'haiku' }));
+      db.prepare('INSERT INTO sessions (id, project_id, agent_settings) VALUES (?, ?, ?)')
+        .run('s1', 'project-1', JSON.stringify({ maxTurns: 3 }));
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('reads every level of a session', () => {
+      const settings = getSessionAgentSettings(db, 's1');
+
+      expect(settings?.providerType).toBe('claude');
+      expect(settings?.session).toEqual({ maxTurns: 3 });
+      expect(settings?.effective).toEqual({ model: 'sonnet', fallbackModel: 'haiku', maxTurns: 3 });
+      expect(getSessionAgentSettings(db, 'missing')).toBeUndefined();
+    });
+
+    it('uses the provider a run is started with instead of the project\'s', () => {
+      db.prepare('INSERT INTO providers (id, type, agent_settings) VALUES (?, ?, ?)')
+        .run('prov-2', 'cursor', JSON.stringify({ model: 'gpt-5', additionalDirectories: ['/cursor-lib'] }));
+      db.prepare('UPDATE projects SET root_path = ? WHERE id = ?').run('/work/project', 'project-1');
+
+      const settings = getSessionAgentSettings(db, 's1', 'prov-2');
+      expect(settings?.providerType).toBe('cursor');
+      expect(settings?.effective.model).toBe('gpt-5');
+      expect(getSessionAgentSettings(db, 's1', undefined)?.effective.model).toBe('sonnet');
+
+      expect(getProjectDirectories(db, '/work/project')).toEqual([]);
+      expect(getProjectDirectories(db, '/work/project', 'prov-2')).toEqual(['/cursor-lib']);
+    });
+
+    it('switches and resets the session model', () => {
+      expect(setSessionModel(db, 's1', 'opus')).toEqual({ maxTurns: 3, model: 'opus' });
+      expect(getSessionAgentSettings(db, 's1')?.effective.model).toBe('opus');
+
+      expect(setSessionModel(db, 's1', undefined)).toEqual({ maxTurns: 3 });
+      expect(getSessionAgentSettings(db, 's1')?.effective.model).toBe('sonnet');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  validateBudget,
+  normalizeBudget,
+  getBudgetUsage,
+  findExceededLimit,
+  crossedThreshold,
+  describeBudgetUsage,
+  toBudgetUsage
+} from '../budget.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const JAN_15 = Date.UTC(2026, 0, 15, 12);
+
+function createTestDb(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE sessions (id TEXT PRIMARY KEY, project_id TEXT NOT NULL);
+    CREATE TABLE provider_runs (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      usage TEXT,
+      started_at INTEGER NOT NULL
+    );
+    INSERT INTO sessions (id, project_id) VALUES ('s1', 'p1'), ('s2', 'p2');
+  `);
+  return db;
+}
+
+describe('budget', () => {
+  describe('validateBudget', () => {
+    it('accepts missing and well-formed budgets', () => {
+      expect(validateBudget(undefined)).toBeUndefined();
+      expect(validateBudget(null)).toBeUndefined();
+      expect(validateBudget({ dailyTokens: 100000, monthlyUsd: 20.5, runTokens: 5000, warnAt: [50, 90] })).toBeUndefined();
+    });
+
+    it('rejects malformed limits', () => {
+      expect(validateBudget([])).toMatch(/object/);
+      expect(validateBudget({ dailyTokens: 1.5 })).toMatch(/dailyTokens/);
+      expect(validateBudget({ runTokens: 0 })).toMatch(/runTokens/);
+      expect(validateBudget({ dailyUsd: '5' })).toMatch(/dailyUsd/);
+      expect(validateBudget({ dailyUsd: 5, warnAt: [0] })).toMatch(/warnAt/);
+      expect(validateBudget({ dailyUsd: 5, warnAt: [120] })).toMatch(/warnAt/);
+    });
+  });
+
+  describe('normalizeBudget', () => {
+    it('drops unset limits and sorts the thresholds', () => {
+      expect(normalizeBudget({ dailyUsd: 5, monthlyTokens: undefined, warnAt: [90, 50, 90] }))
+        .toEqual({ dailyUsd: 5, warnAt: [50, 90] });
+    });
+
+    it('returns undefined without any limit', () => {
+      expect(normalizeBudget({ warnAt: [50] })).toBeUndefined();
+      expect(normalizeBudget(null)).toBeUndefined();
+    });
+  });
+
+  describe('getBudgetUsage', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+      db = createTestDb();
+      const insert = db.prepare('INSERT INTO provider_runs (id, session_id, usage, started_at) VALUES (?, ?, ?, ?)');
+      insert.run('today', 's1', JSON.stringify({ inputTokens: 300, outputTokens: 100, costUsd: 1.5 }), JAN_15 - 1000);
+      insert.run('this-month', 's1', JSON.stringify({ inputTokens: 1000, outputTokens: 600, costUsd: 2 }), JAN_15 - 5 * DAY);
+      insert.run('last-month', 's1', JSON.stringify({ inputTokens: 9000, outputTokens: 9000, costUsd: 50 }), JAN_15 - 30 * DAY);
+      insert.run('no-usage', 's1', null, JAN_15 - 2000);
+      insert.run('other-project', 's2', JSON.stringify({ inputTokens: 5000, outputTokens: 5000, costUsd: 10 }), JAN_15);
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('sums the project runs of the current UTC day and month', () => {
+      const usage = getBudgetUsage(db, 'p1', { dailyTokens: 1000, dailyUsd: 3, monthlyUsd: 7 }, JAN_15);
+
+      expect(usage).toEqual([
+        { limit: 'dailyTokens', used: 400, max: 1000, percent: 40 },
+        { limit: 'dailyUsd', used: 1.5, max: 3, percent: 50 },
+        { limit: 'monthlyUsd', used: 3.5, max: 7, percent: 50 }
+      ]);
+    });
+
+    it('leaves out the per-run cap', () => {
+      expect(getBudgetUsage(db, 'p1', { runTokens: 100 }, JAN_15)).toEqual([]);
+    });
+  });
+
+  describe('findExceededLimit', () => {
+    it('finds the first limit that is used up', () => {
+      const usage = [toBudgetUsage('dailyUsd', 4, 5), toBudgetUsage('monthlyTokens', 500, 500)];
+      expect(findExceededLimit(usage)?.limit).toBe('monthlyTokens');
+      expect(findExceededLimit(usage.slice(0, 1))).toBeUndefined();
+    });
+  });
+
+  describe('crossedThreshold', () => {
+    it('returns the highest threshold passed', () => {
+      const budget = { dailyUsd: 5, warnAt: [50, 75, 90] };
+      expect(crossedThreshold(budget, 40, 80)).toBe(75);
+      expect(crossedThreshold(budget, 80, 85)).toBeUndefined();
+      expect(crossedThreshold(budget, 0, 120)).toBe(90);
+    });
+
+    it('warns at 80% by default', () => {
+      expect(crossedThreshold({ dailyUsd: 5 }, 70, 80)).toBe(80);
+      expect(crossedThreshold({ dailyUsd: 5 }, 0, 79)).toBeUndefined();
+    });
+  });
+
+  describe('describeBudgetUsage', () => {
+    it('formats tokens and dollars', () => {
+      expect(describeBudgetUsage(toBudgetUsage('dailyUsd', 5.2, 5))).toBe('daily USD budget: $5.20 of $5.00 used');
+      expect(describeBudgetUsage(toBudgetUsage('runTokens', 12500, 10000)))
+        .toBe('per-run token cap: 12,500 tokens of 10,000 tokens used');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  getRuleInput,
+  findPermissionRule,
+  rememberPermissionRule,
+  listPermissionRules,
+  deletePermissionRule
+} from '../permissionRules.js';
+
+function createTestDb(): Database.Database {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE permission_rules (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      input TEXT,
+      decision TEXT CHECK(decision IN ('allow', 'deny')) NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `);
+  return db;
+}
+
+describe('permissionRules', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = createTestDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('getRuleInput', () => {
+    it('uses the field the tool acts on', () => {
+      expect(getRuleInput({ command: 'npm test', description: 'Run tests' })).toBe('npm test');
+      expect(getRuleInput({ file_path: '/a.txt', content: 'x' })).toBe('/a.txt');
+    });
+
+    it('falls back to the serialized input', () => {
+      expect(getRuleInput({ todos: [] })).toBe('{"todos":[]}');
+      expect(getRuleInput(undefined)).toBe('null');
+    });
+  });
+
+  describe('findPermissionRule', () => {
+    it('matches the tool and input of a remembered decision', () => {
+      const rule = rememberPermissionRule(db, 'p1', 'Bash', { command: 'npm test' }, 'allow');
+
+      expect(findPermissionRule(db, 'p1', 'Bash', { command: 'npm test' })?.id).toBe(rule.id);
+      expect(findPermissionRule(db, 'p1', 'Bash', { command: 'npm run build' })).toBeUndefined();
+      expect(findPermissionRule(db, 'p1', 'Read', { file_path: 'npm test' })).toBeUndefined();
+      expect(findPermissionRule(db, 'p2', 'Bash', { command: 'npm test' })).toBeUndefined();
+    });
+
+    it('prefers an exact input over a rule for any input', () => {
+      db.prepare(`
+        INSERT INTO permission_rules (id, project_id, tool, input, decision, created_at)
+        VALUES ('any', 'p1', 'Bash', NULL, 'deny', ?)
+      `).run(Date.now() + 1000);
+      rememberPermissionRule(db, 'p1', 'Bash', { command: 'ls' }, 'allow');
+
+      expect(findPermissionRule(db, 'p1', 'Bash', { command: 'ls' })?.decision).toBe('allow');
+      expect(findPermissionRule(db, 'p1', 'Bash', { command: 'pwd' })?.id).toBe('any');
+    });
+  });
+
+  describe('rememberPermissionRule', () => {
+    it('replaces an earlier decision for the same input', () => {
+      rememberPermissionRule(db, 'p1', 'Bash', { command: 'ls' }, 'deny');
+      rememberPermissionRule(db, 'p1', 'Bash', { command: 'ls' }, 'allow');
+
+      const rules = listPermissionRules(db, 'p1');
+      expect(rules).toHaveLength(1);
+      expect(rules[0].decision).toBe('allow');
+    });
+  });
+
+  describe('deletePermissionRule', () => {
+    it('only deletes rules of the given project', () => {
+      const rule = rememberPermissionRule(db, 'p1', 'Bash', { command: 'ls' }, 'allow');
+
+      expect(deletePermissionRule(db, 'p2', rule.id)).toBe(false);
+      expect(deletePermissionRule(db, 'p1', rule.id)).toBe(true);
+      expect(listPermissionRules(db, 'p1')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RunBuffer } from '../runBuffer.js';
+
+describe('RunBuffer', () => {
+  let buffer: RunBuffer;
+
+  beforeEach(() => {
+    buffer = new RunBuffer(60 * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('numbers events in order', () => {
+    buffer.start('run-1', 'session-1');
+
+    const first = buffer.append('run-1', { type: 'run_started', runId: 'run-1', clientRequestId: 'req-1' });
+    const second = buffer.append('run-1', { type: 'delta', runId: 'run-1', content: 'Hello' });
+
+    expect(first.seq).toBe(1);
+    expect(second.seq).toBe(2);
+    expect(buffer.getRun('run-1')?.sessionId).toBe('session-1');
+  });
+
+  it('returns events after a sequence number', () => {
+    buffer.start('run-1', 'session-1');
+    buffer.append('run-1', { type: 'delta', runId: 'run-1', content: 'a' });
+    buffer.append('run-1', { type: 'delta', runId: 'run-1', content: 'b' });
+    buffer.append('run-1', { type: 'delta', runId: 'run-1', content: 'c' });
+
+    expect(buffer.getEventsAfter('run-1')).toHaveLength(3);
+    expect(buffer.getEventsAfter('run-1', 1).map(e => (e as { content: string }).content)).toEqual(['b', 'c']);
+    expect(buffer.getEventsAfter('unknown')).toEqual([]);
+  });
+
+  it('passes events of unknown runs through unnumbered', () => {
+    const event = buffer.append('unknown', { type: 'delta', runId: 'unknown', content: 'x' });
+
+    expect(event.seq).toBeUndefined();
+  });
+
+  it('keeps finished runs for the retention period', () => {
+    vi.useFakeTimers();
+    buffer.start('run-1', 'session-1');
+    buffer.append('run-1', { type: 'run_completed', runId: 'run-1' });
+    buffer.finish('run-1');
+
+    vi.advanceTimersByTime(30 * 1000);
+    expect(buffer.getRun('run-1')?.finishedAt).toBeDefined();
+
+    vi.advanceTimersByTime(31 * 1000);
+    expect(buffer.getRun('run-1')).toBeUndefined();
+  });
+
+  it('never drops runs that are still going', () => {
+    vi.useFakeTimers();
+    buffer.start('run-1', 'session-1');
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    expect(buffer.getRun('run-1')).toBeDefined();
+  });
+});
@@ -0,0 +1,160 @@
+import path from 'path';
+import type Database from 'better-sqlite3';
+import type { AgentSettings, ProviderType } from '@my-claudia/shared';
+
+const STRING_KEYS = ['model', 'fallbackModel'] as const;
+const NUMBER_KEYS = ['maxTurns', 'maxThinkingTokens'] as const;
+
+export function parseAgentSettings(json: string | null | undefined): AgentSettings | undefined {
+  return json ? JSON.parse(json) as AgentSettings : undefined;
+}
+
+/**
+ * Check agent settings sent by a client; returns an error message when they are invalid
+ */
+export function validateAgentSettings(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'agentSettings must be an object';
+  }
+  const settings = value as Record<string, unknown>;
+  for (const key of STRING_KEYS) {
+    if (settings[key] !== undefined && typeof settings[key] !== 'string') {
+      return `agentSettings.${key} must be a string`;
+    }
+  }
+  for (const key of NUMBER_KEYS) {
+    const num = settings[key];
+    if (num !== undefined && num !== null && (!Number.isInteger(num) || (num as number) <= 0)) {
+      return `agentSettings.${key} must be a positive integer`;
+    }
+  }
+  const dirs = settings.additionalDirectories;
+  if (dirs !== undefined && (!Array.isArray(dirs) || dirs.some(dir => typeof dir !== 'string'))) {
+    return 'agentSettings.additionalDirectories must be an array of paths';
+  }
+  return undefined;
+}
+
+// Drop empty fields so they inherit from the level above; undefined when nothing is set
+export function normalizeAgentSettings(settings: AgentSettings | null | undefined): AgentSettings | undefined {
+  if (!settings) {
+    return undefined;
+  }
+  const normalized: AgentSettings = {};
+  for (const key of STRING_KEYS) {
+    const value = settings[key]?.trim();
+    if (value) {
+      normalized[key] = value;
+    }
+  }
+  for (const key of NUMBER_KEYS) {
+    if (settings[key]) {
+      normalized[key] = settings[key];
+    }
+  }
+  const dirs = settings.additionalDirectories?.map(dir => dir.trim()).filter(Boolean);
+  if (dirs && dirs.length > 0) {
+    normalized.additionalDirectories = [...new Set(dirs)];
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+export function serializeAgentSettings(settings: AgentSettings | null | undefined): string | null {
+  const normalized = normalizeAgentSettings(settings);
+  return normalized ? JSON.stringify(normalized) : null;
+}
+
+/**
+ * Combine settings from the least to the most specific level (provider, project, session).
+ * A set field overrides the levels before it; additional directories are combined.
+ */
+export function resolveAgentSettings(...levels: Array<AgentSettings | undefined>): AgentSettings {
+  const resolved: AgentSettings = {};
+  const dirs: string[] = [];
+  for (const level of levels) {
+    const settings = normalizeAgentSettings(level);
+    if (!settings) continue;
+    const { additionalDirectories, ...rest } = settings;
+    Object.assign(resolved, rest);
+    dirs.push(...(additionalDirectories || []));
+  }
+  if (dirs.length > 0) {
+    resolved.additionalDirectories = [...new Set(dirs)];
+  }
+  return resolved;
+}
+
+export interface SessionAgentSettings {
+  providerType: ProviderType;
+  provider?: AgentSettings;
+  project?: AgentSettings;
+  session?: AgentSettings;
+  effective: AgentSettings;
+}
+
+// Settings of each level for a session, as a run of the session would use them.
+// Runs use the project's provider unless run_start picks another one (providerId).
+export function getSessionAgentSettings(
+  db: Database.Database,
+  sessionId: string,
+  providerId?: string
+): SessionAgentSettings | undefined {
+  const row = db.prepare(`
+    SELECT s.agent_settings as session_settings, p.agent_settings as project_settings,
+           pr.agent_settings as provider_settings, pr.type as provider_type
+    FROM sessions s
+    LEFT JOIN projects p ON s.project_id = p.id
+    LEFT JOIN providers pr ON pr.id = COALESCE(?, p.provider_id)
+    WHERE s.id = ?
+  `).get(providerId || null, sessionId) as {
+    session_settings: string | null;
+    project_settings: string | null;
+    provider_settings: string | null;
+    provider_type: ProviderType | null;
+  } | undefined;
+
+  if (!row) {
+    return undefined;
+  }
+
+  const provider = parseAgentSettings(row.provider_settings);
+  const project = parseAgentSettings(row.project_settings);
+  const session = parseAgentSettings(row.session_settings);
+  return {
+    providerType: row.provider_type || 'claude',
+    provider,
+    project,
+    session,
+    effective: resolveAgentSettings(provider, project, session)
+  };
+}
+
+// Set or clear (undefined) the model of a session, keeping its other settings
+export function setSessionModel(db: Database.Database, sessionId: string, model: string | undefined): AgentSettings | undefined {
+  const row = db.prepare('SELECT agent_settings FROM sessions WHERE id = ?')
+    .get(sessionId) as { agent_settings: string | null } | undefined;
+  const settings = normalizeAgentSettings({ ...parseAgentSettings(row?.agent_settings), model });
+  db.prepare('UPDATE sessions SET agent_settings = ?, updated_at = ? WHERE id = ?')
+    .run(settings ? JSON.stringify(settings) : null, Date.now(), sessionId);
+  return settings;
+}
+
+// Additional directories of the projects at a root path (with their providers'), resolved against the root.
+// As with getSessionAgentSettings, providerId stands in for the projects' own provider.
+export function getProjectDirectories(db: Database.Database, projectRoot: string, providerId?: string): string[] {
+  const rows = db.prepare(`
+    SELECT p.agent_settings as project_settings, pr.agent_settings as provider_settings
+    FROM projects p
+    LEFT JOIN providers pr ON pr.id = COALESCE(?, p.provider_id)
+    WHERE p.root_path = ?
+  `).all(providerId || null, projectRoot) as Array<{ project_settings: string | null; provider_settings: string | null }>;
+
+  const dirs = rows.flatMap(row => resolveAgentSettings(
+    parseAgentSettings(row.provider_settings),
+    parseAgentSettings(row.project_settings)
+  ).additionalDirectories || []);
+  return [...new Set(dirs.map(dir => path.resolve(projectRoot, dir)))];
+}
@@ -0,0 +1,127 @@
+import type Database from 'better-sqlite3';
+import { BUDGET_LIMIT_LABELS } from '@my-claudia/shared';
+import type { BudgetLimit, BudgetUsage, ProjectBudget } from '@my-claudia/shared';
+
+const TOKEN_LIMITS = ['dailyTokens', 'monthlyTokens', 'runTokens'] as const;
+const USD_LIMITS = ['dailyUsd', 'monthlyUsd'] as const;
+const DEFAULT_WARN_AT = [80];
+
+export function parseBudget(json: string | null | undefined): ProjectBudget | undefined {
+  return json ? JSON.parse(json) as ProjectBudget : undefined;
+}
+
+/**
+ * Check a budget sent by a client; returns an error message when it is invalid
+ */
+export function validateBudget(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return 'budget must be an object';
+  }
+  const budget = value as Record<string, unknown>;
+  for (const key of TOKEN_LIMITS) {
+    const num = budget[key];
+    if (num !== undefined && num !== null && (!Number.isInteger(num) || (num as number) <= 0)) {
+      return `budget.${key} must be a positive integer`;
+    }
+  }
+  for (const key of USD_LIMITS) {
+    const num = budget[key];
+    if (num !== undefined && num !== null && (typeof num !== 'number' || !(num > 0))) {
+      return `budget.${key} must be a positive number`;
+    }
+  }
+  const warnAt = budget.warnAt;
+  if (warnAt !== undefined && (
+    !Array.isArray(warnAt) || warnAt.some(t => typeof t !== 'number' || !(t > 0 && t <= 100))
+  )) {
+    return 'budget.warnAt must be an array of percentages between 1 and 100';
+  }
+  return undefined;
+}
+
+// Drop unset limits; undefined when no limit is set
+export function normalizeBudget(budget: ProjectBudget | null | undefined): ProjectBudget | undefined {
+  if (!budget) {
+    return undefined;
+  }
+  const normalized: ProjectBudget = {};
+  for (const key of [...TOKEN_LIMITS, ...USD_LIMITS]) {
+    if (budget[key]) {
+      normalized[key] = budget[key];
+    }
+  }
+  if (Object.keys(normalized).length === 0) {
+    return undefined;
+  }
+  if (budget.warnAt) {
+    normalized.warnAt = [...new Set(budget.warnAt)].sort((a, b) => a - b);
+  }
+  return normalized;
+}
+
+export function serializeBudget(budget: ProjectBudget | null | undefined): string | null {
+  const normalized = normalizeBudget(budget);
+  return normalized ? JSON.stringify(normalized) : null;
+}
+
+export function toBudgetUsage(limit: BudgetLimit, used: number, max: number): BudgetUsage {
+  return { limit, used, max, percent: (used / max) * 100 };
+}
+
+/**
+ * Usage of the daily and monthly limits of a project, from the runs that reported usage.
+ * Tokens are input plus output, without cache tokens (see ProjectBudget).
+ * The per-run cap is checked while the run streams, or with the result usage.
+ */
+export function getBudgetUsage(
+  db: Database.Database,
+  projectId: string,
+  budget: ProjectBudget,
+  now: number = Date.now()
+): BudgetUsage[] {
+  const date = new Date(now);
+  const periods = [
+    { since: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), tokens: budget.dailyTokens, usd: budget.dailyUsd, tokenLimit: 'dailyTokens', usdLimit: 'dailyUsd' },
+    { since: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1), tokens: budget.monthlyTokens, usd: budget.monthlyUsd, tokenLimit: 'monthlyTokens', usdLimit: 'monthlyUsd' }
+  ] as const;
+
+  const query = db.prepare(`
+    SELECT
+      COALESCE(SUM(json_extract(r.usage, '$.inputTokens')), 0) + COALESCE(SUM(json_extract(r.usage, '$.outputTokens')), 0) as tokens,
+      COALESCE(SUM(json_extract(r.usage, '$.costUsd')), 0) as usd
+    FROM provider_runs r
+    JOIN sessions s ON r.session_id = s.id
+    WHERE s.project_id = ? AND r.started_at >= ? AND r.usage IS NOT NULL
+  `);
+
+  const usage: BudgetUsage[] = [];
+  for (const period of periods) {
+    if (!period.tokens && !period.usd) continue;
+    const spent = query.get(projectId, period.since) as { tokens: number; usd: number };
+    if (period.tokens) usage.push(toBudgetUsage(period.tokenLimit, spent.tokens, period.tokens));
+    if (period.usd) usage.push(toBudgetUsage(period.usdLimit, spent.usd, period.usd));
+  }
+  return usage;
+}
+
+// The first limit that is used up
+export function findExceededLimit(usage: BudgetUsage[]): BudgetUsage | undefined {
+  return usage.find(u => u.used >= u.max);
+}
+
+// Highest warning threshold passed when a limit went from `before` to `after` percent
+export function crossedThreshold(budget: ProjectBudget, before: number, after: number): number | undefined {
+  const passed = (budget.warnAt || DEFAULT_WARN_AT).filter(t => before < t && t <= after);
+  return passed.length > 0 ? Math.max(...passed) : undefined;
+}
+
+// e.g. "daily USD budget: $5.20 of $5.00 used"
+export function describeBudgetUsage(usage: BudgetUsage): string {
+  const format = usage.limit.endsWith('Usd')
+    ? (n: number) => `$${n.toFixed(2)}`
+    : (n: number) => `${n.toLocaleString('en-US')} tokens`;
+  return `${BUDGET_LIMIT_LABELS[usage.limit]}: ${format(usage.used)} of ${format(usage.max)} used`;
+}
@@ -183,6 +183,121 @@ function runMigrations(db: Database.Database): void {
         ALTER TABLE servers ADD COLUMN proxy_username TEXT;
         ALTER TABLE servers ADD COLUMN proxy_password TEXT;
       `
+    },
+    {
+      name: '005_provider_stream_json',
+      sql: `
+        -- Event mapping for custom stream-json CLI providers
+        ALTER TABLE providers ADD COLUMN stream_json TEXT;
+      `
+    },
+    {
+      name: '006_provider_runs',
+      sql: `
+        -- One row per provider execution (status, input, output, usage)
+        CREATE TABLE IF NOT EXISTS provider_runs (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          provider_id TEXT,
+          provider_type TEXT NOT NULL,
+          permission_mode TEXT,
+          status TEXT CHECK(status IN ('running', 'completed', 'failed', 'cancelled')) NOT NULL,
+          input TEXT NOT NULL,
+          output TEXT,
+          error TEXT,
+          usage TEXT,
+          started_at INTEGER NOT NULL,
+          ended_at INTEGER,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_provider_runs_session_id ON provider_runs(session_id, started_at);
+      `
+    },
+    {
+      name: '007_permission_audit',
+      sql: `
+        -- Audit details for permission decisions
+        ALTER TABLE permission_logs ADD COLUMN run_id TEXT;
+        ALTER TABLE permission_logs ADD COLUMN request_id TEXT;
+        ALTER TABLE permission_logs ADD COLUMN tool_input TEXT;
+        ALTER TABLE permission_logs ADD COLUMN decided_by TEXT;
+        ALTER TABLE permission_logs ADD COLUMN requested_at INTEGER;
+
+        CREATE INDEX IF NOT EXISTS idx_permission_logs_created_at ON permission_logs(created_at);
+      `
+    },
+    {
+      name: '008_permission_rules',
+      sql: `
+        -- Remembered permission decisions, applied to later requests of the project
+        CREATE TABLE IF NOT EXISTS permission_rules (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          tool TEXT NOT NULL,
+          input TEXT,
+          decision TEXT CHECK(decision IN ('allow', 'deny')) NOT NULL,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_permission_rules_project_id ON permission_rules(project_id);
+      `
+    },
+    {
+      name: '009_system_prompt_overrides',
+      sql: `
+        -- Whether the project prompt is appended to or replaces the provider prompt
+        ALTER TABLE projects ADD COLUMN system_prompt_mode TEXT;
+
+        -- Per-session prompt used instead of the project prompt
+        ALTER TABLE sessions ADD COLUMN system_prompt TEXT;
+      `
+    },
+    {
+      name: '010_agent_settings',
+      sql: `
+        -- Model and agent flags (JSON), inherited provider -> project -> session
+        ALTER TABLE providers ADD COLUMN agent_settings TEXT;
+        ALTER TABLE projects ADD COLUMN agent_settings TEXT;
+        ALTER TABLE sessions ADD COLUMN agent_settings TEXT;
+      `
+    },
+    {
+      name: '011_show_thinking',
+      sql: `
+        -- Whether runs of the project stream and save extended thinking
+        ALTER TABLE projects ADD COLUMN show_thinking INTEGER NOT NULL DEFAULT 1;
+      `
+    },
+    {
+      name: '012_usage_report',
+      sql: `
+        -- Usage reports select runs by start time across all sessions
+        CREATE INDEX IF NOT EXISTS idx_provider_runs_started_at ON provider_runs(started_at);
+      `
+    },
+    {
+      name: '013_project_budget',
+      sql: `
+        -- Daily and monthly limits and the per-run cap of the project (JSON)
+        ALTER TABLE projects ADD COLUMN budget TEXT;
+      `
+    },
+    {
+      name: '014_sdk_session_provider',
+      sql: `
+        -- Provider type the sdk_session_id belongs to; NULL for Claude (imported or set through the API)
+        ALTER TABLE sessions ADD COLUMN sdk_session_provider TEXT;
+
+        -- The session ID was saved by the first run of the session
+        UPDATE sessions SET sdk_session_provider = (
+          SELECT provider_type FROM provider_runs
+          WHERE provider_runs.session_id = sessions.id
+          ORDER BY started_at ASC LIMIT 1
+        )
+        WHERE sdk_session_id IS NOT NULL;
+      `
     }
   ];
 
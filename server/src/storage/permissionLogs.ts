@@ -0,0 +1,86 @@
+import type Database from 'better-sqlite3';
+import type { PermissionLog, PermissionLogFilter } from '@my-claudia/shared';
+
+interface PermissionLogRow {
+  id: string;
+  sessionId: string;
+  sessionName: string | null;
+  runId: string | null;
+  requestId: string | null;
+  tool: string;
+  detail: string;
+  toolInput: string | null;
+  decision: PermissionLog['decision'];
+  remembered: number;
+  decidedBy: string | null;
+  requestedAt: number | null;
+  createdAt: number;
+}
+
+/**
+ * Query the permission audit log, newest first.
+ * Pass projectId to search all sessions of a project.
+ */
+export function queryPermissionLogs(
+  db: Database.Database,
+  filter: PermissionLogFilter & { projectId?: string }
+): PermissionLog[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.projectId) {
+    conditions.push('s.project_id = ?');
+    params.push(filter.projectId);
+  }
+  if (filter.sessionId) {
+    conditions.push('l.session_id = ?');
+    params.push(filter.sessionId);
+  }
+  if (filter.tool) {
+    conditions.push('l.tool = ?');
+    params.push(filter.tool);
+  }
+  if (filter.decision) {
+    conditions.push('l.decision = ?');
+    params.push(filter.decision);
+  }
+  if (filter.since) {
+    conditions.push('l.created_at >= ?');
+    params.push(filter.since);
+  }
+  if (filter.until) {
+    conditions.push('l.created_at <= ?');
+    params.push(filter.until);
+  }
+
+  const limit = Math.min(filter.limit || 100, 500);
+  params.push(limit);
+
+  const rows = db.prepare(`
+    SELECT l.id, l.session_id as sessionId, s.name as sessionName, l.run_id as runId,
+           l.request_id as requestId, l.tool, l.detail, l.tool_input as toolInput, l.decision,
+           l.remembered, l.decided_by as decidedBy, l.requested_at as requestedAt,
+           l.created_at as createdAt
+    FROM permission_logs l
+    JOIN sessions s ON l.session_id = s.id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY l.created_at DESC
+    LIMIT ?
+  `).all(...params) as PermissionLogRow[];
+
+  return rows.map(row => ({
+    id: row.id,
+    sessionId: row.sessionId,
+    sessionName: row.sessionName || undefined,
+    runId: row.runId || undefined,
+    requestId: row.requestId || undefined,
+    tool: row.tool,
+    detail: row.detail,
+    toolInput: row.toolInput ? JSON.parse(row.toolInput) : undefined,
+    decision: row.decision,
+    remembered: row.remembered === 1,
+    decidedBy: row.decidedBy || undefined,
+    requestedAt: row.requestedAt ?? undefined,
+    createdAt: row.createdAt
+  }));
+}
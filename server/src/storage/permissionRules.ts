@@ -0,0 +1,88 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { PermissionRule } from '@my-claudia/shared';
+
+// Input fields that identify what a tool acts on, in order of preference
+const INPUT_KEYS = ['command', 'file_path', 'notebook_path', 'url', 'path', 'pattern', 'query'];
+
+/**
+ * The part of a tool input a remembered rule is matched against,
+ * e.g. the command of Bash or the file path of Edit
+ */
+export function getRuleInput(toolInput: unknown): string {
+  if (toolInput && typeof toolInput === 'object') {
+    const obj = toolInput as Record<string, unknown>;
+    const key = INPUT_KEYS.find(k => typeof obj[k] === 'string');
+    if (key) {
+      return obj[key] as string;
+    }
+  }
+  return JSON.stringify(toolInput ?? null);
+}
+
+const SELECT_RULES = `
+  SELECT id, project_id as projectId, tool, input, decision, created_at as createdAt
+  FROM permission_rules
+`;
+
+type PermissionRuleRow = Omit<PermissionRule, 'input'> & { input: string | null };
+
+function mapRule(row: PermissionRuleRow): PermissionRule {
+  return { ...row, input: row.input ?? undefined };
+}
+
+export function listPermissionRules(db: Database.Database, projectId: string): PermissionRule[] {
+  const rows = db.prepare(`${SELECT_RULES} WHERE project_id = ? ORDER BY created_at DESC`)
+    .all(projectId) as PermissionRuleRow[];
+  return rows.map(mapRule);
+}
+
+// Find the rule that answers a request; rules for the exact input win over any-input rules
+export function findPermissionRule(
+  db: Database.Database,
+  projectId: string,
+  toolName: string,
+  toolInput: unknown
+): PermissionRule | undefined {
+  const row = db.prepare(`
+    ${SELECT_RULES}
+    WHERE project_id = ? AND tool = ? AND (input = ? OR input IS NULL)
+    ORDER BY input IS NULL, created_at DESC
+    LIMIT 1
+  `).get(projectId, toolName, getRuleInput(toolInput)) as PermissionRuleRow | undefined;
+  return row ? mapRule(row) : undefined;
+}
+
+// Store a remembered decision, replacing an earlier one for the same tool and input
+export function rememberPermissionRule(
+  db: Database.Database,
+  projectId: string,
+  toolName: string,
+  toolInput: unknown,
+  decision: PermissionRule['decision']
+): PermissionRule {
+  const rule: PermissionRule = {
+    id: uuidv4(),
+    projectId,
+    tool: toolName,
+    input: getRuleInput(toolInput),
+    decision,
+    createdAt: Date.now()
+  };
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM permission_rules WHERE project_id = ? AND tool = ? AND input = ?')
+      .run(projectId, rule.tool, rule.input);
+    db.prepare(`
+      INSERT INTO permission_rules (id, project_id, tool, input, decision, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(rule.id, projectId, rule.tool, rule.input, rule.decision, rule.createdAt);
+  })();
+
+  return rule;
+}
+
+export function deletePermissionRule(db: Database.Database, projectId: string, ruleId: string): boolean {
+  const result = db.prepare('DELETE FROM permission_rules WHERE id = ? AND project_id = ?').run(ruleId, projectId);
+  return result.changes > 0;
+}
@@ -0,0 +1,81 @@
+import type { RunEventMessage } from '@my-claudia/shared';
+
+// How long events of a finished run stay available for replay
+const FINISHED_RUN_RETENTION_MS = 5 * 60 * 1000;
+
+export interface BufferedRun {
+  runId: string;
+  sessionId: string;
+  events: RunEventMessage[];
+  nextSeq: number;
+  finishedAt?: number;
+}
+
+/**
+ * In-memory event log of runs
+ *
+ * Every event a run emits is numbered and kept here, so that a client that
+ * lost its connection (or a different device) can reattach to the run and
+ * replay what it missed. Runs are dropped a while after they finish.
+ */
+export class RunBuffer {
+  private runs = new Map<string, BufferedRun>();
+  private retentionMs: number;
+
+  constructor(retentionMs: number) {
+    this.retentionMs = retentionMs;
+  }
+
+  // Start buffering a run
+  start(runId: string, sessionId: string): void {
+    this.cleanup();
+    this.runs.set(runId, { runId, sessionId, events: [], nextSeq: 1 });
+  }
+
+  // Number an event and store it; returns the numbered event to send
+  append<T extends RunEventMessage>(runId: string, event: T): T {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return event;
+    }
+
+    const numbered = { ...event, seq: run.nextSeq++ };
+    run.events.push(numbered);
+    return numbered;
+  }
+
+  // Mark a run as finished; its events remain available for the retention period
+  finish(runId: string): void {
+    const run = this.runs.get(runId);
+    if (run) {
+      run.finishedAt = Date.now();
+    }
+  }
+
+  getRun(runId: string): BufferedRun | undefined {
+    this.cleanup();
+    return this.runs.get(runId);
+  }
+
+  // Events with a sequence number greater than afterSeq
+  getEventsAfter(runId: string, afterSeq = 0): RunEventMessage[] {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return [];
+    }
+    return run.events.filter(event => (event.seq ?? 0) > afterSeq);
+  }
+
+  // Drop finished runs past the retention period
+  cleanup(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [runId, run] of this.runs) {
+      if (run.finishedAt !== undefined && run.finishedAt < cutoff) {
+        this.runs.delete(runId);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const runBuffer = new RunBuffer(FINISHED_RUN_RETENTION_MS);
@@ -0,0 +1,170 @@
+import type Database from 'better-sqlite3';
+import type {
+  SessionUsage,
+  UsageGroup,
+  UsageInfo,
+  UsageReport,
+  UsageReportFilter,
+  UsageRunEntry,
+  UsageTotals
+} from '@my-claudia/shared';
+
+// Sums of the usage JSON stored with the runs (alias r)
+const TOTALS_COLUMNS = `
+  COUNT(*) as runs,
+  COALESCE(SUM(json_extract(r.usage, '$.inputTokens')), 0) as inputTokens,
+  COALESCE(SUM(json_extract(r.usage, '$.outputTokens')), 0) as outputTokens,
+  COALESCE(SUM(json_extract(r.usage, '$.cacheReadTokens')), 0) as cacheReadTokens,
+  COALESCE(SUM(json_extract(r.usage, '$.cacheCreationTokens')), 0) as cacheCreationTokens,
+  COALESCE(SUM(json_extract(r.usage, '$.costUsd')), 0) as costUsd,
+  COALESCE(SUM(json_extract(r.usage, '$.numTurns')), 0) as numTurns,
+  COALESCE(SUM(json_extract(r.usage, '$.durationMs')), 0) as durationMs
+`;
+
+const RUN_JOINS = `
+  FROM provider_runs r
+  LEFT JOIN sessions s ON r.session_id = s.id
+  LEFT JOIN projects p ON s.project_id = p.id
+  LEFT JOIN providers pr ON r.provider_id = pr.id
+`;
+
+// Most expensive first; token count breaks ties for providers that report no cost
+const BY_SPEND = 'costUsd DESC, inputTokens + outputTokens DESC';
+
+const DEFAULT_TOP_LIMIT = 10;
+
+interface UsageRunRow {
+  id: string;
+  sessionId: string;
+  sessionName: string | null;
+  projectId: string | null;
+  projectName: string | null;
+  providerType: UsageRunEntry['providerType'];
+  status: UsageRunEntry['status'];
+  input: string;
+  usage: string;
+  startedAt: number;
+}
+
+/**
+ * Sum the usage stored with the runs of a session.
+ * Runs that ended without usage (failed, cancelled) are not counted.
+ */
+export function getSessionUsage(db: Database.Database, sessionId: string): SessionUsage {
+  const totals = db.prepare(`
+    SELECT ${TOTALS_COLUMNS}
+    FROM provider_runs r
+    WHERE r.session_id = ? AND r.usage IS NOT NULL
+  `).get(sessionId) as UsageTotals;
+
+  const last = db.prepare(`
+    SELECT usage FROM provider_runs
+    WHERE session_id = ? AND usage IS NOT NULL
+    ORDER BY started_at DESC
+    LIMIT 1
+  `).get(sessionId) as { usage: string } | undefined;
+
+  return {
+    ...totals,
+    lastRun: last ? JSON.parse(last.usage) as UsageInfo : undefined
+  };
+}
+
+function buildWhere(filter: UsageReportFilter): { where: string; params: (string | number)[] } {
+  const conditions = ['r.usage IS NOT NULL'];
+  const params: (string | number)[] = [];
+
+  if (filter.since !== undefined) {
+    conditions.push('r.started_at >= ?');
+    params.push(filter.since);
+  }
+  if (filter.until !== undefined) {
+    conditions.push('r.started_at < ?');
+    params.push(filter.until);
+  }
+  if (filter.projectId) {
+    conditions.push('s.project_id = ?');
+    params.push(filter.projectId);
+  }
+  if (filter.providerId) {
+    conditions.push('r.provider_id = ?');
+    params.push(filter.providerId);
+  }
+
+  return { where: `WHERE ${conditions.join(' AND ')}`, params };
+}
+
+function toRunEntry(row: UsageRunRow): UsageRunEntry {
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    sessionName: row.sessionName || undefined,
+    projectId: row.projectId || undefined,
+    projectName: row.projectName || undefined,
+    providerType: row.providerType,
+    status: row.status,
+    input: row.input,
+    usage: JSON.parse(row.usage) as UsageInfo,
+    startedAt: row.startedAt
+  };
+}
+
+const RUN_COLUMNS = `
+  r.id, r.session_id as sessionId, s.name as sessionName,
+  s.project_id as projectId, p.name as projectName,
+  r.provider_type as providerType, r.status, r.input, r.usage, r.started_at as startedAt
+`;
+
+/**
+ * Usage of all runs on this server, grouped by day (UTC), project, provider and session.
+ */
+export function getUsageReport(db: Database.Database, filter: UsageReportFilter = {}): UsageReport {
+  const { where, params } = buildWhere(filter);
+  const limit = filter.limit || DEFAULT_TOP_LIMIT;
+
+  const group = (key: string, label: string, orderBy: string, top?: number): UsageGroup[] =>
+    db.prepare(`
+      SELECT ${key} as key, ${label} as label, ${TOTALS_COLUMNS}
+      ${RUN_JOINS}
+      ${where}
+      GROUP BY 1
+      ORDER BY ${orderBy}
+      ${top ? 'LIMIT ?' : ''}
+    `).all(...params, ...(top ? [top] : [])) as UsageGroup[];
+
+  const totals = db.prepare(`
+    SELECT ${TOTALS_COLUMNS}
+    ${RUN_JOINS}
+    ${where}
+  `).get(...params) as UsageTotals;
+
+  const topRuns = db.prepare(`
+    SELECT ${RUN_COLUMNS}
+    ${RUN_JOINS}
+    ${where}
+    ORDER BY COALESCE(json_extract(r.usage, '$.costUsd'), 0) DESC,
+             COALESCE(json_extract(r.usage, '$.inputTokens'), 0) + COALESCE(json_extract(r.usage, '$.outputTokens'), 0) DESC
+    LIMIT ?
+  `).all(...params, limit) as UsageRunRow[];
+
+  return {
+    totals,
+    byDay: group("date(r.started_at / 1000, 'unixepoch')", "date(r.started_at / 1000, 'unixepoch')", 'key'),
+    byProject: group("COALESCE(s.project_id, '')", "COALESCE(p.name, 'Unknown project')", BY_SPEND),
+    byProvider: group('COALESCE(r.provider_id, r.provider_type)', 'COALESCE(pr.name, r.provider_type)', BY_SPEND),
+    topSessions: group('r.session_id', "COALESCE(s.name, 'Untitled session')", BY_SPEND, limit),
+    topRuns: topRuns.map(toRunEntry)
+  };
+}
+
+// Every run with usage, oldest first, for the CSV export
+export function listUsageRuns(db: Database.Database, filter: UsageReportFilter = {}): UsageRunEntry[] {
+  const { where, params } = buildWhere(filter);
+  const rows = db.prepare(`
+    SELECT ${RUN_COLUMNS}
+    ${RUN_JOINS}
+    ${where}
+    ORDER BY r.started_at
+  `).all(...params) as UsageRunRow[];
+  return rows.map(toRunEntry);
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { processAtMentions } from '../atMentions.js';
+
+describe('processAtMentions', () => {
+  it('resolves relative mentions against the project root', () => {
+    expect(processAtMentions('Look at @src/app.ts', '/project')).toBe(
+      '[Context Reference]\nPlease read the file at /project/src/app.ts for context.\n\nLook at @src/app.ts'
+    );
+  });
+
+  it('keeps absolute mentions inside the additional directories', () => {
+    const result = processAtMentions('Compare @src/app.ts and @/shared/lib/x.ts', '/project', ['/shared', '../docs']);
+
+    expect(result).toContain('Please read the file at /project/src/app.ts for context.');
+    expect(result).toContain('Please read the file at /shared/lib/x.ts for context.');
+    expect(result).not.toContain('/project/shared');
+  });
+
+  it('resolves relative additional directories against the root', () => {
+    expect(processAtMentions('See @/work/docs/guide.md', '/work/project', ['../docs']))
+      .toContain('Please read the file at /work/docs/guide.md for context.');
+  });
+
+  it('drops absolute mentions outside the additional directories', () => {
+    expect(processAtMentions('Read @/etc/passwd.txt', '/project', ['/shared'])).toBe('Read @/etc/passwd.txt');
+    expect(processAtMentions('Read @/shared-other/x.ts', '/project', ['/shared'])).toBe('Read @/shared-other/x.ts');
+  });
+
+  it('leaves input alone without a project root', () => {
+    expect(processAtMentions('Look at @src/app.ts', null)).toBe('Look at @src/app.ts');
+  });
+});
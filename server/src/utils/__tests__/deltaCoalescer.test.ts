@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { RunEventMessage } from '@my-claudia/shared';
+import { DeltaCoalescer } from '../deltaCoalescer.js';
+
+describe('DeltaCoalescer', () => {
+  let sent: RunEventMessage[];
+  let coalescer: DeltaCoalescer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sent = [];
+    coalescer = new DeltaCoalescer((event) => sent.push(event), 40);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('merges deltas that arrive within the interval', () => {
+    coalescer.push({ type: 'delta', runId: 'r1', content: 'Hel' });
+    coalescer.push({ type: 'delta', runId: 'r1', content: 'lo' });
+    expect(sent).toEqual([]);
+
+    vi.advanceTimersByTime(40);
+    expect(sent).toEqual([{ type: 'delta', runId: 'r1', content: 'Hello' }]);
+
+    coalescer.push({ type: 'delta', runId: 'r1', content: '!' });
+    vi.advanceTimersByTime(40);
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toEqual({ type: 'delta', runId: 'r1', content: '!' });
+  });
+
+  it('sends the pending delta before other events', () => {
+    coalescer.push({ type: 'thinking_delta', runId: 'r1', content: 'Think' });
+    coalescer.push({ type: 'delta', runId: 'r1', content: 'Answer' });
+    coalescer.push({ type: 'run_completed', runId: 'r1' });
+
+    expect(sent.map((e) => e.type)).toEqual(['thinking_delta', 'delta', 'run_completed']);
+
+    // Nothing is left for the timer
+    vi.advanceTimersByTime(100);
+    expect(sent).toHaveLength(3);
+  });
+
+  it('flushes on demand', () => {
+    coalescer.push({ type: 'delta', runId: 'r1', content: 'Partial' });
+    coalescer.flush();
+    coalescer.flush();
+
+    expect(sent).toEqual([{ type: 'delta', runId: 'r1', content: 'Partial' }]);
+  });
+});
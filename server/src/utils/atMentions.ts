@@ -0,0 +1,47 @@
+import * as path from 'path';
+
+// Whether a path is a directory or lies inside it
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Process @ mentions in user input, converting them to context hints for Claude.
+ * Relative mentions are resolved against the project root. Absolute mentions are
+ * files of the additional directories, as the file browser lists them; absolute
+ * paths outside those directories are left out.
+ */
+export function processAtMentions(
+  input: string,
+  projectRoot: string | null,
+  additionalDirectories: string[] = []
+): string {
+  if (!projectRoot) return input;
+
+  const dirs = additionalDirectories.map(dir => path.resolve(projectRoot, dir));
+
+  // Match @path/to/file patterns (paths that don't contain spaces)
+  // This pattern matches @ followed by a path-like string
+  const atPattern = /@([a-zA-Z0-9_\-./]+\.[a-zA-Z0-9]+)/g;
+  const mentions: string[] = [];
+
+  let match;
+  while ((match = atPattern.exec(input)) !== null) {
+    const mentionedPath = match[1];
+    if (!path.isAbsolute(mentionedPath)) {
+      mentions.push(path.join(projectRoot, mentionedPath));
+    } else if (dirs.some(dir => isWithin(dir, path.resolve(mentionedPath)))) {
+      mentions.push(path.resolve(mentionedPath));
+    }
+  }
+
+  if (mentions.length === 0) return input;
+
+  // Build context hint for Claude
+  const contextHint = mentions
+    .map(p => `Please read the file at ${p} for context.`)
+    .join('\n');
+
+  return `[Context Reference]\n${contextHint}\n\n${input}`;
+}
@@ -0,0 +1,58 @@
+import type { DeltaMessage, RunEventMessage, ThinkingDeltaMessage } from '@my-claudia/shared';
+
+// How long text deltas are collected before they are sent
+export const DELTA_COALESCE_MS = 40;
+
+type TextDelta = DeltaMessage | ThinkingDeltaMessage;
+
+function isTextDelta(event: RunEventMessage): event is TextDelta {
+  return event.type === 'delta' || event.type === 'thinking_delta';
+}
+
+/**
+ * Combines the text deltas of a run into fewer events
+ *
+ * With partial streaming a provider yields a delta every few tokens. Consecutive
+ * deltas of the same kind are merged and sent at most once per interval, so the
+ * WebSocket, the gateway and the run buffer see a few events per second instead
+ * of hundreds. Any other event sends the pending delta first to keep the order.
+ */
+export class DeltaCoalescer {
+  private pending: TextDelta | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private send: (event: RunEventMessage) => void,
+    private intervalMs: number = DELTA_COALESCE_MS
+  ) {}
+
+  push(event: RunEventMessage): void {
+    if (!isTextDelta(event)) {
+      this.flush();
+      this.send(event);
+      return;
+    }
+
+    if (this.pending?.type === event.type) {
+      this.pending = { ...this.pending, content: this.pending.content + event.content };
+      return;
+    }
+
+    this.flush();
+    this.pending = { ...event };
+    this.timer = setTimeout(() => this.flush(), this.intervalMs);
+  }
+
+  // Send the pending delta now
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending) {
+      const event = this.pending;
+      this.pending = null;
+      this.send(event);
+    }
+  }
+}
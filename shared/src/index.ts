@@ -37,11 +37,110 @@ export interface ProviderConfig {
   type: ProviderType;
   cliPath?: string;
   env?: Record<string, string>;
+  streamJson?: StreamJsonConfig;  // custom type only: run cliPath as a stream-json CLI
+  agentSettings?: AgentSettings;
+  capabilities?: ProviderCapabilities;  // Filled in by the server from PROVIDER_CAPABILITIES
   isDefault?: boolean;
   createdAt: number;
   updatedAt: number;
 }
 
+// Model and agent flags. Providers, projects and sessions can each set them;
+// a session inherits every field it leaves unset from its project, and the project from its provider.
+// Additional directories of all three levels are combined.
+export interface AgentSettings {
+  model?: string;
+  fallbackModel?: string;            // Used when the model is overloaded
+  maxTurns?: number;                 // Stop the run after this many agent turns
+  maxThinkingTokens?: number;        // Extended thinking budget
+  additionalDirectories?: string[];  // Directories the agent may access besides the working directory
+}
+
+// Describes how to run a custom CLI that prints one JSON event per line.
+// Event fields are dotted paths into the event object, e.g. "message.content.0.text".
+export interface StreamJsonConfig {
+  args?: string[];     // "{prompt}" is replaced with the prompt; without it the prompt goes to stdin
+  typeField?: string;  // Field holding the event kind (default "type")
+  events: {
+    init?: { match: string; sessionId?: string; model?: string };
+    assistant?: { match: string; text: string };
+    toolUse?: { match: string; id: string; name: string; input?: string };
+    toolResult?: { match: string; id: string; output?: string; isError?: string };
+    result?: { match: string; text?: string; inputTokens?: string; outputTokens?: string };
+    error?: { match: string; message: string };
+  };
+}
+
+// What a provider type can do; the UI hides features a provider cannot use
+export interface ProviderCapabilities {
+  supportsPermissions: boolean;      // Asks before running tools (permission_request)
+  permissionModes: PermissionMode[]; // Modes the provider honors; empty = no tool use
+  supportsImages: boolean;           // Accepts image attachments
+  supportsResume: boolean;           // Continues a previous session by ID
+  supportsSlashCommands: boolean;    // Understands CLI/custom slash commands
+  supportsThinking: boolean;         // Streams reasoning content
+  models: string[];                  // Selectable models (empty = provider default only)
+}
+
+export const PROVIDER_CAPABILITIES: Record<ProviderType, ProviderCapabilities> = {
+  claude: {
+    supportsPermissions: true,
+    permissionModes: ['default', 'plan', 'acceptEdits', 'bypassPermissions'],
+    supportsImages: true,
+    supportsResume: true,
+    supportsSlashCommands: true,
+    supportsThinking: true,
+    models: ['sonnet', 'opus', 'haiku'],
+  },
+  cursor: {
+    // Approvals come back as rejected tool calls; --force covers both auto modes
+    supportsPermissions: true,
+    permissionModes: ['default', 'acceptEdits', 'bypassPermissions'],
+    supportsImages: false,
+    supportsResume: true,
+    supportsSlashCommands: false,
+    supportsThinking: false,
+    models: ['auto', 'sonnet-4.5', 'gpt-5'],
+  },
+  codex: {
+    // Non-interactive: permission modes select the sandbox level
+    supportsPermissions: false,
+    permissionModes: ['default', 'plan', 'bypassPermissions'],
+    supportsImages: false,
+    supportsResume: true,
+    supportsSlashCommands: false,
+    supportsThinking: false,
+    models: ['gpt-5-codex', 'gpt-5'],
+  },
+  openrouter: {
+    supportsPermissions: false,
+    permissionModes: [],
+    supportsImages: false,
+    supportsResume: false,
+    supportsSlashCommands: false,
+    supportsThinking: false,
+    models: [],
+  },
+  glm: {
+    supportsPermissions: false,
+    permissionModes: [],
+    supportsImages: false,
+    supportsResume: false,
+    supportsSlashCommands: false,
+    supportsThinking: false,
+    models: ['glm-4.6', 'glm-4.5', 'glm-4.5-air'],
+  },
+  custom: {
+    supportsPermissions: false,
+    permissionModes: [],
+    supportsImages: false,
+    supportsResume: false,
+    supportsSlashCommands: false,
+    supportsThinking: false,
+    models: [],
+  },
+};
+
 // ============================================
 // Slash Command Types
 // ============================================
@@ -112,12 +211,14 @@ export const PROVIDER_COMMANDS: Record<ProviderType, SlashCommand[]> = {
 export const LOCAL_COMMANDS: SlashCommand[] = [
   { command: '/clear', description: 'Clear chat history', source: 'local' },
   { command: '/help', description: 'Show help information', source: 'local' },
-  { command: '/model', description: 'Show current model/provider info', source: 'local' },
+  { command: '/model', description: 'List models or switch the model of this session', source: 'local' },
+  { command: '/cost', description: 'Show token usage and cost of this session', source: 'local' },
+  { command: '/context', description: 'Show how much of the context window is used', source: 'local' },
 ];
 
 // CLI pass-through commands (sent directly to Claude SDK)
-// Note: /compact and /context were removed because they don't produce output through SDK
-// Users should use these commands directly in Claude CLI if needed
+// Note: /compact was removed because it doesn't produce output through SDK, and /context
+// is answered from stored run usage. Users should use /compact directly in Claude CLI if needed
 export const CLI_COMMANDS: SlashCommand[] = [];
 
 // ============================================
@@ -133,16 +234,71 @@ export interface Project {
   providerId?: string;
   rootPath?: string;
   systemPrompt?: string;
+  systemPromptMode?: SystemPromptMode;  // Default 'append'
+  agentSettings?: AgentSettings;
+  showThinking?: boolean;  // Stream and save extended thinking (default true)
   permissionPolicy?: PermissionPolicy;
+  budget?: ProjectBudget;
   createdAt: number;
   updatedAt: number;
 }
 
+// Spending limits of a project; tokens count input and output, periods are UTC days and months.
+// Prompt cache reads and writes are not counted as tokens (their cost is in the USD limits);
+// providers whose input count includes cached tokens, like Codex, have them counted as input.
+export interface ProjectBudget {
+  dailyTokens?: number;
+  dailyUsd?: number;
+  monthlyTokens?: number;
+  monthlyUsd?: number;
+  runTokens?: number;     // A run is stopped when it uses more
+  warnAt?: number[];      // Percentages of a limit that trigger a warning (default [80])
+}
+
+export type BudgetLimit = 'dailyTokens' | 'dailyUsd' | 'monthlyTokens' | 'monthlyUsd' | 'runTokens';
+
+export const BUDGET_LIMIT_LABELS: Record<BudgetLimit, string> = {
+  dailyTokens: 'daily token budget',
+  dailyUsd: 'daily USD budget',
+  monthlyTokens: 'monthly token budget',
+  monthlyUsd: 'monthly USD budget',
+  runTokens: 'per-run token cap',
+};
+
+// How much of one limit is used
+export interface BudgetUsage {
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+  percent: number;
+}
+
+// How a custom system prompt combines with the provider's own:
+// 'append' adds it after the default prompt, 'replace' uses it instead
+export type SystemPromptMode = 'append' | 'replace';
+
 export interface PermissionPolicy {
   allowedTools: string[];
   disallowedTools: string[];
   autoApprove: boolean;
   timeoutSeconds: number;
+  // Checked in order before the tool lists; the first matching rule decides
+  rules?: PermissionPatternRule[];
+  // Deny critical-risk tool uses without asking, in every permission mode
+  denyCritical?: boolean;
+}
+
+// A rule such as `Bash(git status*)` or `Read(~/.ssh/**)`; a bare tool name matches any input
+export interface PermissionPatternRule {
+  pattern: string;
+  decision: 'allow' | 'deny';
+}
+
+// Outcome of evaluating a policy for one tool use
+export interface PermissionPolicyResult {
+  decision?: 'allow' | 'deny';  // undefined: the user is asked
+  source: 'risk' | 'rule' | 'disallowedTools' | 'allowedTools' | 'autoApprove' | 'none';
+  ruleIndex?: number;           // Set when source is 'rule'
 }
 
 // ============================================
@@ -155,6 +311,8 @@ export interface Session {
   name?: string;
   providerId?: string;
   sdkSessionId?: string;
+  systemPrompt?: string;  // Used instead of the project system prompt
+  agentSettings?: AgentSettings;
   createdAt: number;
   updatedAt: number;
 }
@@ -191,17 +349,109 @@ export interface Message {
 export interface MessageMetadata {
   toolCalls?: ToolCall[];
   usage?: UsageInfo;
+  cancelled?: boolean;  // Partial response of a run the user cancelled
+  thinking?: string;    // Extended thinking that preceded the response
 }
 
+// A tool use and its result, in the order the agent made them
 export interface ToolCall {
+  id?: string;            // tool_use_id
   name: string;
   input: unknown;
   output?: unknown;
+  isError?: boolean;
+  startedAt?: number;
+  completedAt?: number;
 }
 
 export interface UsageInfo {
   inputTokens: number;
   outputTokens: number;
+  cacheReadTokens?: number;      // Input tokens served from the prompt cache
+  cacheCreationTokens?: number;  // Input tokens written to the prompt cache
+  costUsd?: number;              // Total cost reported by the provider
+  numTurns?: number;
+  durationMs?: number;
+  contextTokens?: number;        // Prompt size of the last model call, cache included
+}
+
+// Usage summed over a set of runs
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+}
+
+// Usage summed over the runs of a session
+export interface SessionUsage extends UsageTotals {
+  lastRun?: UsageInfo;
+}
+
+// ============================================
+// Run History Types
+// ============================================
+
+export type ProviderRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// One execution of a provider, recorded in provider_runs
+export interface ProviderRun {
+  id: string;
+  sessionId: string;
+  providerId?: string;
+  providerType: ProviderType;
+  permissionMode?: PermissionMode;
+  status: ProviderRunStatus;
+  input: string;
+  output?: string;
+  error?: string;
+  usage?: UsageInfo;
+  startedAt: number;
+  endedAt?: number;
+}
+
+// ============================================
+// Usage Report Types
+// ============================================
+
+export interface UsageReportFilter {
+  since?: number;      // Runs started at or after (ms)
+  until?: number;      // Runs started before (ms)
+  projectId?: string;
+  providerId?: string;
+  limit?: number;      // Rows of the top sessions and runs (default 10)
+}
+
+// Totals of one day, project, provider or session
+export interface UsageGroup extends UsageTotals {
+  key: string;         // Day (YYYY-MM-DD, UTC) or id
+  label: string;
+}
+
+export interface UsageRunEntry {
+  id: string;
+  sessionId: string;
+  sessionName?: string;
+  projectId?: string;
+  projectName?: string;
+  providerType: ProviderType;
+  status: ProviderRunStatus;
+  input: string;
+  usage: UsageInfo;
+  startedAt: number;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byDay: UsageGroup[];        // Oldest first
+  byProject: UsageGroup[];    // Most expensive first
+  byProvider: UsageGroup[];
+  topSessions: UsageGroup[];
+  topRuns: UsageRunEntry[];
 }
 
 // ============================================
@@ -213,19 +463,56 @@ export type PermissionDecision = 'allow' | 'deny' | 'timeout';
 export interface PermissionLog {
   id: string;
   sessionId: string;
+  sessionName?: string;   // Filled in by the project audit endpoint
+  runId?: string;
+  requestId?: string;
   tool: string;
   detail: string;
+  toolInput?: unknown;
   decision: PermissionDecision;
   remembered: boolean;
+  // ID of the deciding client, rule:<id> for a remembered decision, or policy:<source>
+  // (policy:rule:<index> for a pattern rule); empty for timeouts and cancelled runs
+  decidedBy?: string;
+  requestedAt?: number;
+  createdAt: number;      // When the decision was made
+}
+
+// A remembered decision that answers later requests of the project
+export interface PermissionRule {
+  id: string;
+  projectId: string;
+  tool: string;
+  input?: string;         // Matched input (command, file path, ...); empty matches any input
+  decision: 'allow' | 'deny';
   createdAt: number;
 }
 
+export interface PermissionLogFilter {
+  sessionId?: string;
+  tool?: string;
+  decision?: PermissionDecision;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
 export interface PermissionRequest {
   requestId: string;
   toolName: string;
   toolInput: unknown;
   detail: string;
   timeoutSeconds: number;
+  editable?: boolean;  // The provider can run the tool with an edited input
+  risk?: PermissionRisk;
+}
+
+export type PermissionRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+// Why a tool input looks dangerous, e.g. a recursive delete or a write outside the project
+export interface PermissionRisk {
+  level: PermissionRiskLevel;
+  reasons: string[];
 }
 
 // ============================================
@@ -237,6 +524,7 @@ export type ClientMessage =
   | AuthMessage
   | RunStartMessage
   | RunCancelMessage
+  | RunAttachMessage
   | PermissionDecisionMessage
   | PingMessage
   | GetProjectsMessage
@@ -281,11 +569,21 @@ export interface RunCancelMessage {
   runId: string;
 }
 
+// Attach to the session's active run and replay its buffered events.
+// With runId + afterSeq, only events after that sequence number are replayed.
+export interface RunAttachMessage {
+  type: 'run_attach';
+  sessionId: string;
+  runId?: string;
+  afterSeq?: number;
+}
+
 export interface PermissionDecisionMessage {
   type: 'permission_decision';
   requestId: string;
   allow: boolean;
   remember?: boolean;
+  updatedInput?: unknown;  // Edited tool input to run with (allow only)
 }
 
 export interface PingMessage {
@@ -392,11 +690,16 @@ export type ServerMessage =
   | SessionCreatedMessage
   | SystemInfoMessage
   | DeltaMessage
+  | ThinkingDeltaMessage
   | ToolUseMessage
   | ToolResultMessage
   | RunCompletedMessage
   | RunFailedMessage
+  | RunCancelledMessage
+  | BudgetWarningMessage
+  | RunAttachedMessage
   | PermissionRequestMessage
+  | PermissionResolvedMessage
   | PongMessage
   | ErrorMessage
   | ProjectsListMessage
@@ -430,16 +733,36 @@ export interface AuthResultMessage {
   isLocalConnection?: boolean;  // Whether the connection is from localhost
 }
 
+// Events of a run are numbered (seq) so that clients can reattach and replay
+// the ones they missed
+export type RunEventMessage =
+  | RunStartedMessage
+  | SessionCreatedMessage
+  | SystemInfoMessage
+  | DeltaMessage
+  | ThinkingDeltaMessage
+  | ToolUseMessage
+  | ToolResultMessage
+  | RunCompletedMessage
+  | RunFailedMessage
+  | RunCancelledMessage
+  | BudgetWarningMessage
+  | PermissionRequestMessage
+  | PermissionResolvedMessage;
+
 export interface RunStartedMessage {
   type: 'run_started';
   runId: string;
   clientRequestId: string;
+  seq?: number;
 }
 
 export interface SessionCreatedMessage {
   type: 'session_created';
   sessionId: string;
   sdkSessionId?: string;
+  runId?: string;
+  seq?: number;
 }
 
 // System info from Claude SDK init message
@@ -453,18 +776,30 @@ export interface SystemInfo {
   mcpServers?: string[];
   slashCommands?: string[];
   agents?: string[];
+  systemPrompt?: string;  // Custom prompt the run was started with
+  systemPromptMode?: SystemPromptMode;
 }
 
 export interface SystemInfoMessage {
   type: 'system_info';
   runId: string;
   systemInfo: SystemInfo;
+  seq?: number;
 }
 
 export interface DeltaMessage {
   type: 'delta';
   runId: string;
   content: string;
+  seq?: number;
+}
+
+// Extended thinking, streamed separately from the response text
+export interface ThinkingDeltaMessage {
+  type: 'thinking_delta';
+  runId: string;
+  content: string;
+  seq?: number;
 }
 
 export interface ToolUseMessage {
@@ -473,6 +808,7 @@ export interface ToolUseMessage {
   toolUseId: string;
   toolName: string;
   toolInput: unknown;
+  seq?: number;
 }
 
 export interface ToolResultMessage {
@@ -482,18 +818,48 @@ export interface ToolResultMessage {
   toolName: string;
   result: unknown;
   isError?: boolean;
+  seq?: number;
 }
 
 export interface RunCompletedMessage {
   type: 'run_completed';
   runId: string;
   usage?: UsageInfo;
+  seq?: number;
 }
 
+// BUDGET_EXCEEDED: the project's daily or monthly budget was used up before the run started
+// RUN_BUDGET_EXCEEDED: the run was stopped when it went over the per-run cap
+export type RunFailureCode = 'BUDGET_EXCEEDED' | 'RUN_BUDGET_EXCEEDED';
+
 export interface RunFailedMessage {
   type: 'run_failed';
   runId: string;
   error: string;
+  code?: RunFailureCode;
+  seq?: number;
+}
+
+// A project budget limit reached one of its warning thresholds
+export interface BudgetWarningMessage {
+  type: 'budget_warning';
+  runId: string;
+  usage: BudgetUsage;
+  threshold: number;
+  seq?: number;
+}
+
+export interface RunCancelledMessage {
+  type: 'run_cancelled';
+  runId: string;
+  seq?: number;
+}
+
+export interface RunAttachedMessage {
+  type: 'run_attached';
+  sessionId: string;
+  runId?: string;      // Run whose events were replayed, if any
+  isRunning: boolean;  // Whether that run is still in progress
 }
 
 export interface PermissionRequestMessage {
@@ -501,7 +867,25 @@ export interface PermissionRequestMessage {
   requestId: string;
   toolName: string;
   detail: string;
+  toolInput?: unknown;
+  editable?: boolean;  // updatedInput of the decision is applied
+  risk?: PermissionRisk;
   timeoutSeconds: number;
+  // Where the request comes from, for listing requests of several sessions
+  sessionId?: string;
+  sessionName?: string;
+  projectName?: string;
+  runId?: string;
+  seq?: number;
+}
+
+// A pending permission request was decided by a client or timed out
+export interface PermissionResolvedMessage {
+  type: 'permission_resolved';
+  requestId: string;
+  decision: PermissionDecision;
+  runId?: string;
+  seq?: number;
 }
 
 export interface PongMessage {
@@ -672,7 +1056,8 @@ export type FileEntryType = 'file' | 'directory';
 
 export interface FileEntry {
   name: string;           // e.g., "MessageInput.tsx"
-  path: string;           // relative path from project root, e.g., "src/components/chat/MessageInput.tsx"
+  path: string;           // relative path from project root, e.g., "src/components/chat/MessageInput.tsx";
+                          // absolute for entries in the project's additional directories
   type: FileEntryType;
   extension?: string;     // e.g., ".tsx", ".ts", ".md" (only for files)
   size?: number;          // file size in bytes (only for files)
@@ -712,8 +1097,8 @@ export interface CommandExecuteRequest {
     projectName?: string;
     sessionId?: string;
     provider?: string;
+    providerId?: string;  // Provider the session's runs are started with, when not the project's
     model?: string;
-    tokenUsage?: { used: number; total: number };
   };
 }
 